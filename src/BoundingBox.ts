@@ -0,0 +1,478 @@
+import { Vector3 } from './Vector3'
+import { Matrix } from './Matrix'
+
+/**
+ * @public
+ * BoundingBox is a type and a namespace.
+ * - The namespace contains all types and functions to operates with axis aligned bounding boxes
+ * - The type BoundingBox is an alias to BoundingBox.ReadonlyBoundingBox
+ * ```
+ *
+ * // Namespace usage example
+ * const bounds = BoundingBox.fromPoints(positions)
+ * const worldBounds = BoundingBox.transform(bounds, worldMatrix)
+ *
+ * // Type usage example
+ * const readonlyBounds: BoundingBox = BoundingBox.fromPoints(positions)
+ * readonlyBounds.minimum = Vector3.Zero() // this FAILS
+ *
+ * // For mutable usage, use `BoundingBox.Mutable`
+ * const bounds: BoundingBox.Mutable = BoundingBox.fromPoints(positions)
+ * bounds.minimum = Vector3.Zero() // this WORKS
+ * ```
+ */
+export type BoundingBox = BoundingBox.ReadonlyBoundingBox
+
+/**
+ * @public
+ * BoundingBox is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with axis aligned bounding boxes
+ * const bounds = BoundingBox.fromPoints(positions)
+ * // The type BoundingBox is an alias to BoundingBox.ReadonlyBoundingBox
+ * const readonlyBounds: BoundingBox = BoundingBox.fromPoints(positions)
+ * readonlyBounds.minimum = Vector3.Zero() // this FAILS
+ *
+ * // For mutable usage, use `BoundingBox.Mutable`
+ * const bounds: BoundingBox.Mutable = BoundingBox.fromPoints(positions)
+ * bounds.minimum = Vector3.Zero() // this WORKS
+ * ```
+ */
+export namespace BoundingBox {
+  /**
+   * @public
+   * For external use, type with `BoundingBox`, e.g. `const bounds: BoundingBox = BoundingBox.fromPoints(positions)`.
+   * For mutable typing, use `BoundingBox.Mutable`, e.g. `const bounds: BoundingBox.Mutable = BoundingBox.fromPoints(positions)`.
+   */
+  export type ReadonlyBoundingBox = {
+    readonly minimum: Vector3.ReadonlyVector3
+    readonly maximum: Vector3.ReadonlyVector3
+  }
+
+  /**
+   * @public
+   * For external usage, type with `BoundingBox`, e.g. `const bounds: BoundingBox = BoundingBox.fromPoints(positions)`.
+   * For mutable typing, use `BoundingBox.Mutable`, e.g. `const bounds: BoundingBox.Mutable = BoundingBox.fromPoints(positions)`.
+   */
+  export type MutableBoundingBox = {
+    minimum: Vector3.MutableVector3
+    maximum: Vector3.MutableVector3
+  }
+
+  /**
+   * @public
+   * Type with `BoundingBox` for readonly usage, e.g. `const bounds: BoundingBox = BoundingBox.fromPoints(positions)`.
+   * For mutable, use `BoundingBox.Mutable`, e.g. `const bounds: BoundingBox.Mutable = BoundingBox.fromPoints(positions)`.
+   */
+  export type Mutable = MutableBoundingBox
+
+  /**
+   * Creates a new bounding box from its minimum and maximum points
+   * @param minimum - the minimum point of the box
+   * @param maximum - the maximum point of the box
+   * @returns the new bounding box
+   */
+  export function create(
+    minimum: Vector3.ReadonlyVector3,
+    maximum: Vector3.ReadonlyVector3
+  ): MutableBoundingBox {
+    return {
+      minimum: Vector3.clone(minimum),
+      maximum: Vector3.clone(maximum)
+    }
+  }
+
+  /**
+   * Creates an empty bounding box, its minimum is greater than its maximum so any expansion by a point makes it contain only that point
+   * @returns the new empty bounding box
+   */
+  export function Empty(): MutableBoundingBox {
+    return {
+      minimum: Vector3.create(
+        Number.MAX_VALUE,
+        Number.MAX_VALUE,
+        Number.MAX_VALUE
+      ),
+      maximum: Vector3.create(
+        -Number.MAX_VALUE,
+        -Number.MAX_VALUE,
+        -Number.MAX_VALUE
+      )
+    }
+  }
+
+  /**
+   * Creates the smallest bounding box containing all the given points
+   * @param points - the points to enclose
+   * @returns the new bounding box, or an empty one if no point is given
+   */
+  export function fromPoints(
+    points: Vector3.ReadonlyVector3[]
+  ): MutableBoundingBox {
+    const result = Empty()
+    for (const point of points) {
+      expandByPointToRef(result, point, result)
+    }
+    return result
+  }
+
+  /**
+   * Creates a bounding box from its center and its extents
+   * @param center - the center of the box
+   * @param extents - the half size of the box on each axis
+   * @returns the new bounding box
+   */
+  export function fromCenterAndExtents(
+    center: Vector3.ReadonlyVector3,
+    extents: Vector3.ReadonlyVector3
+  ): MutableBoundingBox {
+    return {
+      minimum: Vector3.subtract(center, extents),
+      maximum: Vector3.add(center, extents)
+    }
+  }
+
+  /**
+   * Copies the given bounding box into a new one
+   * @param box - the box to clone
+   * @returns the new bounding box
+   */
+  export function clone(box: ReadonlyBoundingBox): MutableBoundingBox {
+    return create(box.minimum, box.maximum)
+  }
+
+  /**
+   * Copies the given bounding box into "result"
+   * @param source - the box to copy from
+   * @param result - the box where to store the copy
+   */
+  export function copyFrom(
+    source: ReadonlyBoundingBox,
+    result: MutableBoundingBox
+  ): void {
+    Vector3.copyFrom(source.minimum, result.minimum)
+    Vector3.copyFrom(source.maximum, result.maximum)
+  }
+
+  /**
+   * Checks if the bounding box is empty (its minimum is greater than its maximum on any axis)
+   * @param box - the box to check
+   * @returns true if the box is empty
+   */
+  export function isEmpty(box: ReadonlyBoundingBox): boolean {
+    return (
+      box.minimum.x > box.maximum.x ||
+      box.minimum.y > box.maximum.y ||
+      box.minimum.z > box.maximum.z
+    )
+  }
+
+  /**
+   * Gets the center of the bounding box
+   * @param box - the box
+   * @returns the new Vector3
+   */
+  export function getCenter(box: ReadonlyBoundingBox): Vector3.MutableVector3 {
+    return Vector3.center(box.minimum, box.maximum)
+  }
+
+  /**
+   * Gets the extents (half size on each axis) of the bounding box
+   * @param box - the box
+   * @returns the new Vector3
+   */
+  export function getExtents(box: ReadonlyBoundingBox): Vector3.MutableVector3 {
+    const result = Vector3.subtract(box.maximum, box.minimum)
+    Vector3.scaleToRef(result, 0.5, result)
+    return result
+  }
+
+  /**
+   * Gets the volume of the bounding box
+   * @param box - the box
+   * @returns the volume, 0 if the box is empty
+   */
+  export function getVolume(box: ReadonlyBoundingBox): number {
+    if (isEmpty(box)) {
+      return 0
+    }
+    return (
+      (box.maximum.x - box.minimum.x) *
+      (box.maximum.y - box.minimum.y) *
+      (box.maximum.z - box.minimum.z)
+    )
+  }
+
+  /**
+   * Gets the 8 corners of the bounding box
+   * @param box - the box
+   * @returns an array with the 8 corners, the minimum is the first one and the maximum the last one
+   */
+  export function getCorners(
+    box: ReadonlyBoundingBox
+  ): Vector3.MutableVector3[] {
+    const min = box.minimum
+    const max = box.maximum
+    return [
+      Vector3.create(min.x, min.y, min.z),
+      Vector3.create(max.x, min.y, min.z),
+      Vector3.create(min.x, max.y, min.z),
+      Vector3.create(max.x, max.y, min.z),
+      Vector3.create(min.x, min.y, max.z),
+      Vector3.create(max.x, min.y, max.z),
+      Vector3.create(min.x, max.y, max.z),
+      Vector3.create(max.x, max.y, max.z)
+    ]
+  }
+
+  /**
+   * Creates a new bounding box enclosing the given box and the given point
+   * @param box - the box to expand
+   * @param point - the point to include
+   * @returns the new bounding box
+   */
+  export function expandByPoint(
+    box: ReadonlyBoundingBox,
+    point: Vector3.ReadonlyVector3
+  ): MutableBoundingBox {
+    const result = Empty()
+    expandByPointToRef(box, point, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with the bounding box enclosing the given box and the given point
+   * @param box - the box to expand
+   * @param point - the point to include
+   * @param result - the box where to store the result
+   */
+  export function expandByPointToRef(
+    box: ReadonlyBoundingBox,
+    point: Vector3.ReadonlyVector3,
+    result: MutableBoundingBox
+  ): void {
+    Vector3.minimizeInPlaceFromFloatsToRef(
+      box.minimum,
+      point.x,
+      point.y,
+      point.z,
+      result.minimum
+    )
+    Vector3.maximizeInPlaceFromFloatsToRef(
+      box.maximum,
+      point.x,
+      point.y,
+      point.z,
+      result.maximum
+    )
+  }
+
+  /**
+   * Creates the smallest bounding box enclosing both given boxes
+   * @param left - the first box
+   * @param right - the second box
+   * @returns the new bounding box
+   */
+  export function union(
+    left: ReadonlyBoundingBox,
+    right: ReadonlyBoundingBox
+  ): MutableBoundingBox {
+    const result = Empty()
+    unionToRef(left, right, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with the smallest bounding box enclosing both given boxes
+   * @param left - the first box
+   * @param right - the second box
+   * @param result - the box where to store the result
+   */
+  export function unionToRef(
+    left: ReadonlyBoundingBox,
+    right: ReadonlyBoundingBox,
+    result: MutableBoundingBox
+  ): void {
+    Vector3.minimizeInPlaceFromFloatsToRef(
+      left.minimum,
+      right.minimum.x,
+      right.minimum.y,
+      right.minimum.z,
+      result.minimum
+    )
+    Vector3.maximizeInPlaceFromFloatsToRef(
+      left.maximum,
+      right.maximum.x,
+      right.maximum.y,
+      right.maximum.z,
+      result.maximum
+    )
+  }
+
+  /**
+   * Creates the bounding box shared by both given boxes
+   * @param left - the first box
+   * @param right - the second box
+   * @returns the new bounding box, or null if the boxes do not intersect
+   */
+  export function intersection(
+    left: ReadonlyBoundingBox,
+    right: ReadonlyBoundingBox
+  ): MutableBoundingBox | null {
+    if (!intersectsBox(left, right)) {
+      return null
+    }
+
+    const result = Empty()
+    Vector3.maximizeInPlaceFromFloatsToRef(
+      left.minimum,
+      right.minimum.x,
+      right.minimum.y,
+      right.minimum.z,
+      result.minimum
+    )
+    Vector3.minimizeInPlaceFromFloatsToRef(
+      left.maximum,
+      right.maximum.x,
+      right.maximum.y,
+      right.maximum.z,
+      result.maximum
+    )
+    return result
+  }
+
+  /**
+   * Checks if the point is inside the bounding box (boundaries included)
+   * @param box - the box
+   * @param point - the point to check
+   * @returns true if the point is inside the box
+   */
+  export function containsPoint(
+    box: ReadonlyBoundingBox,
+    point: Vector3.ReadonlyVector3
+  ): boolean {
+    return (
+      point.x >= box.minimum.x &&
+      point.x <= box.maximum.x &&
+      point.y >= box.minimum.y &&
+      point.y <= box.maximum.y &&
+      point.z >= box.minimum.z &&
+      point.z <= box.maximum.z
+    )
+  }
+
+  /**
+   * Checks if two bounding boxes intersect (touching boxes intersect)
+   * @param left - the first box
+   * @param right - the second box
+   * @returns true if the boxes intersect
+   */
+  export function intersectsBox(
+    left: ReadonlyBoundingBox,
+    right: ReadonlyBoundingBox
+  ): boolean {
+    return (
+      left.minimum.x <= right.maximum.x &&
+      left.maximum.x >= right.minimum.x &&
+      left.minimum.y <= right.maximum.y &&
+      left.maximum.y >= right.minimum.y &&
+      left.minimum.z <= right.maximum.z &&
+      left.maximum.z >= right.minimum.z
+    )
+  }
+
+  /**
+   * Gets the point of the bounding box closest to the given point
+   * @param box - the box
+   * @param point - the point to clamp into the box
+   * @returns the new Vector3, equal to the point itself if it is inside the box
+   */
+  export function closestPoint(
+    box: ReadonlyBoundingBox,
+    point: Vector3.ReadonlyVector3
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    Vector3.clampToRef(point, box.minimum, box.maximum, result)
+    return result
+  }
+
+  /**
+   * Creates the axis aligned bounding box enclosing the given box once transformed by an affine matrix
+   * @param box - the box to transform
+   * @param matrix - the affine transformation matrix
+   * @returns the new bounding box, empty if the given box is empty
+   */
+  export function transform(
+    box: ReadonlyBoundingBox,
+    matrix: Matrix.ReadonlyMatrix
+  ): MutableBoundingBox {
+    const result = Empty()
+    transformToRef(box, matrix, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with the axis aligned bounding box enclosing the given box once transformed by an affine matrix
+   * @param box - the box to transform
+   * @param matrix - the affine transformation matrix
+   * @param result - the box where to store the result, set to an empty box if the given box is empty
+   */
+  export function transformToRef(
+    box: ReadonlyBoundingBox,
+    matrix: Matrix.ReadonlyMatrix,
+    result: MutableBoundingBox
+  ): void {
+    if (isEmpty(box)) {
+      copyFrom(Empty(), result)
+      return
+    }
+
+    const m = matrix._m
+    const center = getCenter(box)
+    const extents = getExtents(box)
+    Vector3.transformCoordinatesToRef(center, matrix, center)
+
+    // the extents of the new box are the projection of the transformed axes
+    const ex =
+      Math.abs(m[0]) * extents.x +
+      Math.abs(m[4]) * extents.y +
+      Math.abs(m[8]) * extents.z
+    const ey =
+      Math.abs(m[1]) * extents.x +
+      Math.abs(m[5]) * extents.y +
+      Math.abs(m[9]) * extents.z
+    const ez =
+      Math.abs(m[2]) * extents.x +
+      Math.abs(m[6]) * extents.y +
+      Math.abs(m[10]) * extents.z
+
+    Vector3.copyFromFloats(
+      center.x - ex,
+      center.y - ey,
+      center.z - ez,
+      result.minimum
+    )
+    Vector3.copyFromFloats(
+      center.x + ex,
+      center.y + ey,
+      center.z + ez,
+      result.maximum
+    )
+  }
+
+  /**
+   * Checks if two bounding boxes are equal
+   * @param left - the first box
+   * @param right - the second box
+   * @returns true if both boxes have the same minimum and maximum
+   */
+  export function equals(
+    left: ReadonlyBoundingBox,
+    right: ReadonlyBoundingBox
+  ): boolean {
+    return (
+      Vector3.equals(left.minimum, right.minimum) &&
+      Vector3.equals(left.maximum, right.maximum)
+    )
+  }
+}
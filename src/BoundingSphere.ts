@@ -0,0 +1,321 @@
+import { Vector3 } from './Vector3'
+import { Matrix } from './Matrix'
+import { BoundingBox } from './BoundingBox'
+
+/**
+ * @public
+ * BoundingSphere is a type and a namespace.
+ * - The namespace contains all types and functions to operates with bounding spheres
+ * - The type BoundingSphere is an alias to BoundingSphere.ReadonlyBoundingSphere
+ * ```
+ *
+ * // Namespace usage example
+ * const bounds = BoundingSphere.fromPoints(positions)
+ * const isNear = BoundingSphere.containsPoint(bounds, playerPosition)
+ *
+ * // Type usage example
+ * const readonlyBounds: BoundingSphere = BoundingSphere.fromPoints(positions)
+ * readonlyBounds.radius = 2 // this FAILS
+ *
+ * // For mutable usage, use `BoundingSphere.Mutable`
+ * const bounds: BoundingSphere.Mutable = BoundingSphere.fromPoints(positions)
+ * bounds.radius = 2 // this WORKS
+ * ```
+ */
+export type BoundingSphere = BoundingSphere.ReadonlyBoundingSphere
+
+/**
+ * @public
+ * BoundingSphere is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with bounding spheres
+ * const bounds = BoundingSphere.fromPoints(positions)
+ * // The type BoundingSphere is an alias to BoundingSphere.ReadonlyBoundingSphere
+ * const readonlyBounds: BoundingSphere = BoundingSphere.fromPoints(positions)
+ * readonlyBounds.radius = 2 // this FAILS
+ *
+ * // For mutable usage, use `BoundingSphere.Mutable`
+ * const bounds: BoundingSphere.Mutable = BoundingSphere.fromPoints(positions)
+ * bounds.radius = 2 // this WORKS
+ * ```
+ */
+export namespace BoundingSphere {
+  /**
+   * @public
+   * For external use, type with `BoundingSphere`, e.g. `const bounds: BoundingSphere = BoundingSphere.fromPoints(positions)`.
+   * For mutable typing, use `BoundingSphere.Mutable`, e.g. `const bounds: BoundingSphere.Mutable = BoundingSphere.fromPoints(positions)`.
+   */
+  export type ReadonlyBoundingSphere = {
+    readonly center: Vector3.ReadonlyVector3
+    readonly radius: number
+  }
+
+  /**
+   * @public
+   * For external usage, type with `BoundingSphere`, e.g. `const bounds: BoundingSphere = BoundingSphere.fromPoints(positions)`.
+   * For mutable typing, use `BoundingSphere.Mutable`, e.g. `const bounds: BoundingSphere.Mutable = BoundingSphere.fromPoints(positions)`.
+   */
+  export type MutableBoundingSphere = {
+    center: Vector3.MutableVector3
+    radius: number
+  }
+
+  /**
+   * @public
+   * Type with `BoundingSphere` for readonly usage, e.g. `const bounds: BoundingSphere = BoundingSphere.fromPoints(positions)`.
+   * For mutable, use `BoundingSphere.Mutable`, e.g. `const bounds: BoundingSphere.Mutable = BoundingSphere.fromPoints(positions)`.
+   */
+  export type Mutable = MutableBoundingSphere
+
+  /**
+   * Creates a new bounding sphere
+   * @param center - the center of the sphere
+   * @param radius - the radius of the sphere
+   * @returns the new bounding sphere
+   */
+  export function create(
+    center: Vector3.ReadonlyVector3,
+    radius: number
+  ): MutableBoundingSphere {
+    return {
+      center: Vector3.clone(center),
+      radius
+    }
+  }
+
+  /**
+   * Copies the given bounding sphere into a new one
+   * @param sphere - the sphere to clone
+   * @returns the new bounding sphere
+   */
+  export function clone(sphere: ReadonlyBoundingSphere): MutableBoundingSphere {
+    return create(sphere.center, sphere.radius)
+  }
+
+  /**
+   * Creates a bounding sphere enclosing all the given points, using Ritter's algorithm.
+   * The result is not the minimal sphere but it is usually within a few percent of it.
+   * @param points - the points to enclose
+   * @returns the new bounding sphere, with a zero radius at the origin if no point is given
+   */
+  export function fromPoints(
+    points: Vector3.ReadonlyVector3[]
+  ): MutableBoundingSphere {
+    const result = create(Vector3.Zero(), 0)
+    if (points.length === 0) {
+      return result
+    }
+
+    // find a point far from the first one, then the point farthest from it
+    const first = _farthestPoint(points, points[0])
+    const second = _farthestPoint(points, first)
+
+    Vector3.copyFrom(Vector3.center(first, second), result.center)
+    result.radius = Vector3.distance(first, second) * 0.5
+
+    // grow the sphere to include the points left outside
+    for (const point of points) {
+      const distance = Vector3.distance(point, result.center)
+      if (distance > result.radius) {
+        const radius = (result.radius + distance) * 0.5
+        const shift = (radius - result.radius) / distance
+        result.center.x += (point.x - result.center.x) * shift
+        result.center.y += (point.y - result.center.y) * shift
+        result.center.z += (point.z - result.center.z) * shift
+        result.radius = radius
+      }
+    }
+
+    return result
+  }
+
+  /** @internal */
+  function _farthestPoint(
+    points: Vector3.ReadonlyVector3[],
+    from: Vector3.ReadonlyVector3
+  ): Vector3.ReadonlyVector3 {
+    let farthest = points[0]
+    let maxDistance = -1
+    for (const point of points) {
+      const distance = Vector3.distanceSquared(point, from)
+      if (distance > maxDistance) {
+        maxDistance = distance
+        farthest = point
+      }
+    }
+    return farthest
+  }
+
+  /**
+   * Creates the bounding sphere enclosing the given bounding box
+   * @param box - the box to enclose
+   * @returns the new bounding sphere
+   */
+  export function fromBoundingBox(
+    box: BoundingBox.ReadonlyBoundingBox
+  ): MutableBoundingSphere {
+    return {
+      center: Vector3.center(box.minimum, box.maximum),
+      radius: Vector3.distance(box.minimum, box.maximum) * 0.5
+    }
+  }
+
+  /**
+   * Creates the smallest bounding sphere enclosing both given spheres
+   * @param left - the first sphere
+   * @param right - the second sphere
+   * @returns the new bounding sphere
+   */
+  export function merge(
+    left: ReadonlyBoundingSphere,
+    right: ReadonlyBoundingSphere
+  ): MutableBoundingSphere {
+    const result = create(Vector3.Zero(), 0)
+    mergeToRef(left, right, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with the smallest bounding sphere enclosing both given spheres
+   * @param left - the first sphere
+   * @param right - the second sphere
+   * @param result - the sphere where to store the result
+   */
+  export function mergeToRef(
+    left: ReadonlyBoundingSphere,
+    right: ReadonlyBoundingSphere,
+    result: MutableBoundingSphere
+  ): void {
+    const distance = Vector3.distance(left.center, right.center)
+
+    if (distance + right.radius <= left.radius) {
+      Vector3.copyFrom(left.center, result.center)
+      result.radius = left.radius
+      return
+    }
+    if (distance + left.radius <= right.radius) {
+      Vector3.copyFrom(right.center, result.center)
+      result.radius = right.radius
+      return
+    }
+
+    const radius = (distance + left.radius + right.radius) * 0.5
+    const shift = (radius - left.radius) / distance
+    Vector3.lerpToRef(left.center, right.center, shift, result.center)
+    result.radius = radius
+  }
+
+  /**
+   * Checks if the point is inside the bounding sphere (boundary included)
+   * @param sphere - the sphere
+   * @param point - the point to check
+   * @returns true if the point is inside the sphere
+   */
+  export function containsPoint(
+    sphere: ReadonlyBoundingSphere,
+    point: Vector3.ReadonlyVector3
+  ): boolean {
+    return (
+      Vector3.distanceSquared(sphere.center, point) <=
+      sphere.radius * sphere.radius
+    )
+  }
+
+  /**
+   * Gets the signed distance from the surface of the sphere to the given point
+   * @param sphere - the sphere
+   * @param point - the point to calculate distance to
+   * @returns the distance, negative if the point is inside the sphere
+   */
+  export function distanceToPoint(
+    sphere: ReadonlyBoundingSphere,
+    point: Vector3.ReadonlyVector3
+  ): number {
+    return Vector3.distance(sphere.center, point) - sphere.radius
+  }
+
+  /**
+   * Checks if two bounding spheres intersect (touching spheres intersect)
+   * @param left - the first sphere
+   * @param right - the second sphere
+   * @returns true if the spheres intersect
+   */
+  export function intersectsSphere(
+    left: ReadonlyBoundingSphere,
+    right: ReadonlyBoundingSphere
+  ): boolean {
+    const radius = left.radius + right.radius
+    return Vector3.distanceSquared(left.center, right.center) <= radius * radius
+  }
+
+  /**
+   * Checks if the bounding sphere intersects a bounding box
+   * @param sphere - the sphere
+   * @param box - the box
+   * @returns true if the sphere and the box intersect
+   */
+  export function intersectsBox(
+    sphere: ReadonlyBoundingSphere,
+    box: BoundingBox.ReadonlyBoundingBox
+  ): boolean {
+    return containsPoint(sphere, BoundingBox.closestPoint(box, sphere.center))
+  }
+
+  /**
+   * Creates the bounding sphere enclosing the given sphere once transformed by an affine matrix
+   * @param sphere - the sphere to transform
+   * @param matrix - the affine transformation matrix
+   * @returns the new bounding sphere
+   */
+  export function transform(
+    sphere: ReadonlyBoundingSphere,
+    matrix: Matrix.ReadonlyMatrix
+  ): MutableBoundingSphere {
+    const result = create(Vector3.Zero(), 0)
+    transformToRef(sphere, matrix, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with the bounding sphere enclosing the given sphere once transformed by an affine matrix.
+   * With a non uniform scale the sphere would become an ellipsoid, the largest scale is used to keep it enclosed.
+   * @param sphere - the sphere to transform
+   * @param matrix - the affine transformation matrix
+   * @param result - the sphere where to store the result
+   */
+  export function transformToRef(
+    sphere: ReadonlyBoundingSphere,
+    matrix: Matrix.ReadonlyMatrix,
+    result: MutableBoundingSphere
+  ): void {
+    const m = matrix._m
+    const scale = Vector3.create(
+      Math.sqrt(m[0] * m[0] + m[1] * m[1] + m[2] * m[2]),
+      Math.sqrt(m[4] * m[4] + m[5] * m[5] + m[6] * m[6]),
+      Math.sqrt(m[8] * m[8] + m[9] * m[9] + m[10] * m[10])
+    )
+
+    let maxScale = scale.x
+    if (Vector3.isNonUniform(scale)) {
+      maxScale = Math.max(scale.x, scale.y, scale.z)
+    }
+
+    Vector3.transformCoordinatesToRef(sphere.center, matrix, result.center)
+    result.radius = sphere.radius * maxScale
+  }
+
+  /**
+   * Checks if two bounding spheres are equal
+   * @param left - the first sphere
+   * @param right - the second sphere
+   * @returns true if both spheres have the same center and radius
+   */
+  export function equals(
+    left: ReadonlyBoundingSphere,
+    right: ReadonlyBoundingSphere
+  ): boolean {
+    return (
+      Vector3.equals(left.center, right.center) && left.radius === right.radius
+    )
+  }
+}
@@ -1,4 +1,11 @@
-import { FloatArray, ToLinearSpace, ToGammaSpace } from './types'
+import {
+  FloatArray,
+  ToLinearSpace,
+  ToGammaSpace,
+  DEG2RAD,
+  RAD2DEG,
+  Epsilon
+} from './types'
 import { Color4 } from './Color4'
 import { Scalar } from './Scalar'
 
@@ -68,6 +75,67 @@ export namespace Color3 {
    */
   export type Mutable = MutableColor3
 
+  /**
+   * @public
+   * A color in the hue, saturation, value model (also known as HSB, hue, saturation, brightness).
+   * The hue is in degrees between 0 and 360, the saturation and the value are between 0 and 1.
+   */
+  export type HSV = {
+    h: number
+    s: number
+    v: number
+  }
+
+  /**
+   * @public
+   * A color in the hue, saturation, lightness model.
+   * The hue is in degrees between 0 and 360, the saturation and the lightness are between 0 and 1.
+   */
+  export type HSL = {
+    h: number
+    s: number
+    l: number
+  }
+
+  /**
+   * @public
+   * A color in the CIE XYZ space with the D65 white point, the white has a luminance y of 1
+   */
+  export type XYZ = {
+    x: number
+    y: number
+    z: number
+  }
+
+  /**
+   * @public
+   * A color in a lightness and opponent axes space.
+   * With CIE Lab the lightness is between 0 and 100, with OKLab it is between 0 and 1.
+   */
+  export type Lab = {
+    l: number
+    a: number
+    b: number
+  }
+
+  /**
+   * @public
+   * A color in the polar form of a Lab space: lightness, chroma and hue in degrees between 0 and 360.
+   * With CIE LCh the lightness is between 0 and 100, with OKLCh it is between 0 and 1.
+   */
+  export type LCh = {
+    l: number
+    c: number
+    h: number
+  }
+
+  /**
+   * @public
+   * The formula used by Color3.deltaE: CIE76 is the euclidean distance in CIE Lab,
+   * CIE2000 corrects it to better match the perceived difference
+   */
+  export type DeltaEFormula = 'CIE76' | 'CIE2000'
+
   /**
    * Creates Color3 object from red, green, blue values, all between 0 and 1
    * @param r - defines the red component (between 0 and 1, default is 0)
@@ -611,4 +679,712 @@ export namespace Color3 {
     convertedColor.g = Math.pow(value.g, ToGammaSpace)
     convertedColor.b = Math.pow(value.b, ToGammaSpace)
   }
+
+  /**
+   * Creates a Color3 from hue, saturation and value (HSV and HSB are the same model)
+   * @param hue - defines the hue in degrees, wrapped between 0 and 360
+   * @param saturation - defines the saturation (between 0 and 1)
+   * @param value - defines the value (between 0 and 1)
+   * @returns a new Color3
+   */
+  export function fromHSV(
+    hue: number,
+    saturation: number,
+    value: number
+  ): MutableColor3 {
+    const result = create()
+    fromHSVToRef(hue, saturation, value, result)
+    return result
+  }
+
+  /**
+   * Converts hue, saturation and value to RGB and stores the result in "result"
+   * @param hue - defines the hue in degrees, wrapped between 0 and 360
+   * @param saturation - defines the saturation (between 0 and 1)
+   * @param value - defines the value (between 0 and 1)
+   * @param result - defines the Color3 where to store the result
+   */
+  export function fromHSVToRef(
+    hue: number,
+    saturation: number,
+    value: number,
+    result: MutableColor3
+  ): void {
+    const chroma = value * saturation
+    _fromHueChromaToRef(hue, chroma, value - chroma, result)
+  }
+
+  /**
+   * Converts a Color3 to hue, saturation and value (HSV and HSB are the same model)
+   * @param value - defines the color to convert
+   * @returns a new HSV color, the hue is 0 for grays
+   */
+  export function toHSV(value: ReadonlyColor3): HSV {
+    const result = { h: 0, s: 0, v: 0 }
+    toHSVToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts a Color3 to hue, saturation and value and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the HSV color where to store the result
+   */
+  export function toHSVToRef(value: ReadonlyColor3, result: HSV): void {
+    const max = Math.max(value.r, value.g, value.b)
+    const min = Math.min(value.r, value.g, value.b)
+    const chroma = max - min
+    result.h = _hue(value, max, chroma)
+    result.s = max === 0 ? 0 : chroma / max
+    result.v = max
+  }
+
+  /**
+   * Creates a Color3 from hue, saturation and lightness
+   * @param hue - defines the hue in degrees, wrapped between 0 and 360
+   * @param saturation - defines the saturation (between 0 and 1)
+   * @param lightness - defines the lightness (between 0 and 1)
+   * @returns a new Color3
+   */
+  export function fromHSL(
+    hue: number,
+    saturation: number,
+    lightness: number
+  ): MutableColor3 {
+    const result = create()
+    fromHSLToRef(hue, saturation, lightness, result)
+    return result
+  }
+
+  /**
+   * Converts hue, saturation and lightness to RGB and stores the result in "result"
+   * @param hue - defines the hue in degrees, wrapped between 0 and 360
+   * @param saturation - defines the saturation (between 0 and 1)
+   * @param lightness - defines the lightness (between 0 and 1)
+   * @param result - defines the Color3 where to store the result
+   */
+  export function fromHSLToRef(
+    hue: number,
+    saturation: number,
+    lightness: number,
+    result: MutableColor3
+  ): void {
+    const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation
+    _fromHueChromaToRef(hue, chroma, lightness - chroma / 2, result)
+  }
+
+  /**
+   * Converts a Color3 to hue, saturation and lightness
+   * @param value - defines the color to convert
+   * @returns a new HSL color, the hue is 0 for grays
+   */
+  export function toHSL(value: ReadonlyColor3): HSL {
+    const result = { h: 0, s: 0, l: 0 }
+    toHSLToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts a Color3 to hue, saturation and lightness and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the HSL color where to store the result
+   */
+  export function toHSLToRef(value: ReadonlyColor3, result: HSL): void {
+    const max = Math.max(value.r, value.g, value.b)
+    const min = Math.min(value.r, value.g, value.b)
+    const chroma = max - min
+    const lightness = (max + min) / 2
+    result.h = _hue(value, max, chroma)
+    result.s = chroma === 0 ? 0 : chroma / (1 - Math.abs(2 * lightness - 1))
+    result.l = lightness
+  }
+
+  /**
+   * Interpolates two colors in the HSV model. The hue goes along the shortest arc of the color wheel,
+   * so a lerp from red to magenta doesn't go through green and blue.
+   * The hue of a gray is ignored, it takes the hue of the other color.
+   * @param start - defines the start color
+   * @param end - defines the end color
+   * @param amount - defines the gradient factor
+   * @returns a new Color3
+   */
+  export function lerpHSV(
+    start: ReadonlyColor3,
+    end: ReadonlyColor3,
+    amount: number
+  ): MutableColor3 {
+    const result = create()
+    lerpHSVToRef(start, end, amount, result)
+    return result
+  }
+
+  /**
+   * Interpolates two colors in the HSV model and stores the result in "result"
+   * @param start - defines the start color
+   * @param end - defines the end color
+   * @param amount - defines the gradient factor
+   * @param result - defines the Color3 where to store the result
+   */
+  export function lerpHSVToRef(
+    start: ReadonlyColor3,
+    end: ReadonlyColor3,
+    amount: number,
+    result: MutableColor3
+  ): void {
+    const from = toHSV(start)
+    const to = toHSV(end)
+    if (from.s === 0) {
+      from.h = to.h
+    } else if (to.s === 0) {
+      to.h = from.h
+    }
+    fromHSVToRef(
+      from.h + Scalar.deltaAngle(from.h, to.h) * amount,
+      from.s + (to.s - from.s) * amount,
+      from.v + (to.v - from.v) * amount,
+      result
+    )
+  }
+
+  /**
+   * Converts a Color3 to CIE XYZ (D65), the color is converted to linear space with toLinearSpace first
+   * @param value - defines the color to convert
+   * @returns a new XYZ color
+   */
+  export function toXYZ(value: ReadonlyColor3): XYZ {
+    const result = { x: 0, y: 0, z: 0 }
+    toXYZToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts a Color3 to CIE XYZ (D65) and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the XYZ color where to store the result
+   */
+  export function toXYZToRef(value: ReadonlyColor3, result: XYZ): void {
+    const linear = create()
+    toLinearSpaceToRef(value, linear)
+    result.x =
+      0.4124564 * linear.r + 0.3575761 * linear.g + 0.1804375 * linear.b
+    result.y = 0.2126729 * linear.r + 0.7151522 * linear.g + 0.072175 * linear.b
+    result.z = 0.0193339 * linear.r + 0.119192 * linear.g + 0.9503041 * linear.b
+  }
+
+  /**
+   * Creates a Color3 from CIE XYZ (D65) values, the colors out of the RGB gamut are clamped to positive values
+   * @param x - defines the x component
+   * @param y - defines the luminance (between 0 and 1)
+   * @param z - defines the z component
+   * @returns a new Color3
+   */
+  export function fromXYZ(x: number, y: number, z: number): MutableColor3 {
+    const result = create()
+    fromXYZToRef(x, y, z, result)
+    return result
+  }
+
+  /**
+   * Converts CIE XYZ (D65) values to a Color3 and stores the result in "result"
+   * @param x - defines the x component
+   * @param y - defines the luminance (between 0 and 1)
+   * @param z - defines the z component
+   * @param result - defines the Color3 where to store the result
+   */
+  export function fromXYZToRef(
+    x: number,
+    y: number,
+    z: number,
+    result: MutableColor3
+  ): void {
+    _fromLinearToRef(
+      3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+      -0.969266 * x + 1.8760108 * y + 0.041556 * z,
+      0.0556434 * x - 0.2040259 * y + 1.0572252 * z,
+      result
+    )
+  }
+
+  /**
+   * Converts a Color3 to CIE Lab (D65)
+   * @param value - defines the color to convert
+   * @returns a new Lab color, the lightness is between 0 and 100
+   */
+  export function toLab(value: ReadonlyColor3): Lab {
+    const result = { l: 0, a: 0, b: 0 }
+    toLabToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts a Color3 to CIE Lab (D65) and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the Lab color where to store the result
+   */
+  export function toLabToRef(value: ReadonlyColor3, result: Lab): void {
+    const xyz = toXYZ(value)
+    const fx = _labCompress(xyz.x / _whiteX)
+    const fy = _labCompress(xyz.y / _whiteY)
+    const fz = _labCompress(xyz.z / _whiteZ)
+    result.l = 116 * fy - 16
+    result.a = 500 * (fx - fy)
+    result.b = 200 * (fy - fz)
+  }
+
+  /**
+   * Creates a Color3 from CIE Lab (D65) values
+   * @param l - defines the lightness (between 0 and 100)
+   * @param a - defines the green to red axis
+   * @param b - defines the blue to yellow axis
+   * @returns a new Color3
+   */
+  export function fromLab(l: number, a: number, b: number): MutableColor3 {
+    const result = create()
+    fromLabToRef(l, a, b, result)
+    return result
+  }
+
+  /**
+   * Converts CIE Lab (D65) values to a Color3 and stores the result in "result"
+   * @param l - defines the lightness (between 0 and 100)
+   * @param a - defines the green to red axis
+   * @param b - defines the blue to yellow axis
+   * @param result - defines the Color3 where to store the result
+   */
+  export function fromLabToRef(
+    l: number,
+    a: number,
+    b: number,
+    result: MutableColor3
+  ): void {
+    const fy = (l + 16) / 116
+    fromXYZToRef(
+      _labExpand(fy + a / 500) * _whiteX,
+      _labExpand(fy) * _whiteY,
+      _labExpand(fy - b / 200) * _whiteZ,
+      result
+    )
+  }
+
+  /**
+   * Converts a Color3 to CIE LCh, the polar form of CIE Lab
+   * @param value - defines the color to convert
+   * @returns a new LCh color, the hue is in degrees
+   */
+  export function toLCh(value: ReadonlyColor3): LCh {
+    const result = { l: 0, c: 0, h: 0 }
+    toLChToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts a Color3 to CIE LCh and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the LCh color where to store the result
+   */
+  export function toLChToRef(value: ReadonlyColor3, result: LCh): void {
+    _toPolarToRef(toLab(value), result)
+  }
+
+  /**
+   * Creates a Color3 from CIE LCh values
+   * @param l - defines the lightness (between 0 and 100)
+   * @param c - defines the chroma
+   * @param h - defines the hue in degrees
+   * @returns a new Color3
+   */
+  export function fromLCh(l: number, c: number, h: number): MutableColor3 {
+    const result = create()
+    fromLChToRef(l, c, h, result)
+    return result
+  }
+
+  /**
+   * Converts CIE LCh values to a Color3 and stores the result in "result"
+   * @param l - defines the lightness (between 0 and 100)
+   * @param c - defines the chroma
+   * @param h - defines the hue in degrees
+   * @param result - defines the Color3 where to store the result
+   */
+  export function fromLChToRef(
+    l: number,
+    c: number,
+    h: number,
+    result: MutableColor3
+  ): void {
+    const angle = h * DEG2RAD
+    fromLabToRef(l, c * Math.cos(angle), c * Math.sin(angle), result)
+  }
+
+  /**
+   * Converts a Color3 to OKLab, a perceptual space where distances and interpolations look uniform
+   * @param value - defines the color to convert
+   * @returns a new Lab color, the lightness is between 0 and 1
+   */
+  export function toOKLab(value: ReadonlyColor3): Lab {
+    const result = { l: 0, a: 0, b: 0 }
+    toOKLabToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts a Color3 to OKLab and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the Lab color where to store the result
+   */
+  export function toOKLabToRef(value: ReadonlyColor3, result: Lab): void {
+    const linear = create()
+    toLinearSpaceToRef(value, linear)
+    const { r, g, b } = linear
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+    result.l = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s
+    result.a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s
+    result.b = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+  }
+
+  /**
+   * Creates a Color3 from OKLab values, the colors out of the RGB gamut are clamped to positive values
+   * @param l - defines the lightness (between 0 and 1)
+   * @param a - defines the green to red axis
+   * @param b - defines the blue to yellow axis
+   * @returns a new Color3
+   */
+  export function fromOKLab(l: number, a: number, b: number): MutableColor3 {
+    const result = create()
+    fromOKLabToRef(l, a, b, result)
+    return result
+  }
+
+  /**
+   * Converts OKLab values to a Color3 and stores the result in "result"
+   * @param l - defines the lightness (between 0 and 1)
+   * @param a - defines the green to red axis
+   * @param b - defines the blue to yellow axis
+   * @param result - defines the Color3 where to store the result
+   */
+  export function fromOKLabToRef(
+    l: number,
+    a: number,
+    b: number,
+    result: MutableColor3
+  ): void {
+    const long = Math.pow(l + 0.3963377774 * a + 0.2158037573 * b, 3)
+    const medium = Math.pow(l - 0.1055613458 * a - 0.0638541728 * b, 3)
+    const short = Math.pow(l - 0.0894841775 * a - 1.291485548 * b, 3)
+    _fromLinearToRef(
+      4.0767416621 * long - 3.3077115913 * medium + 0.2309699292 * short,
+      -1.2684380046 * long + 2.6097574011 * medium - 0.3413193965 * short,
+      -0.0041960863 * long - 0.7034186147 * medium + 1.707614701 * short,
+      result
+    )
+  }
+
+  /**
+   * Converts a Color3 to OKLCh, the polar form of OKLab
+   * @param value - defines the color to convert
+   * @returns a new LCh color, the hue is in degrees
+   */
+  export function toOKLCh(value: ReadonlyColor3): LCh {
+    const result = { l: 0, c: 0, h: 0 }
+    toOKLChToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts a Color3 to OKLCh and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the LCh color where to store the result
+   */
+  export function toOKLChToRef(value: ReadonlyColor3, result: LCh): void {
+    _toPolarToRef(toOKLab(value), result)
+  }
+
+  /**
+   * Creates a Color3 from OKLCh values
+   * @param l - defines the lightness (between 0 and 1)
+   * @param c - defines the chroma
+   * @param h - defines the hue in degrees
+   * @returns a new Color3
+   */
+  export function fromOKLCh(l: number, c: number, h: number): MutableColor3 {
+    const result = create()
+    fromOKLChToRef(l, c, h, result)
+    return result
+  }
+
+  /**
+   * Converts OKLCh values to a Color3 and stores the result in "result"
+   * @param l - defines the lightness (between 0 and 1)
+   * @param c - defines the chroma
+   * @param h - defines the hue in degrees
+   * @param result - defines the Color3 where to store the result
+   */
+  export function fromOKLChToRef(
+    l: number,
+    c: number,
+    h: number,
+    result: MutableColor3
+  ): void {
+    const angle = h * DEG2RAD
+    fromOKLabToRef(l, c * Math.cos(angle), c * Math.sin(angle), result)
+  }
+
+  /**
+   * Interpolates two colors in OKLab, the midpoints keep an even brightness instead of the muddy ones of lerp
+   * @param start - defines the start color
+   * @param end - defines the end color
+   * @param amount - defines the gradient factor
+   * @returns a new Color3
+   */
+  export function lerpOKLab(
+    start: ReadonlyColor3,
+    end: ReadonlyColor3,
+    amount: number
+  ): MutableColor3 {
+    const result = create()
+    lerpOKLabToRef(start, end, amount, result)
+    return result
+  }
+
+  /**
+   * Interpolates two colors in OKLab and stores the result in "result"
+   * @param start - defines the start color
+   * @param end - defines the end color
+   * @param amount - defines the gradient factor
+   * @param result - defines the Color3 where to store the result
+   */
+  export function lerpOKLabToRef(
+    start: ReadonlyColor3,
+    end: ReadonlyColor3,
+    amount: number,
+    result: MutableColor3
+  ): void {
+    const from = toOKLab(start)
+    const to = toOKLab(end)
+    fromOKLabToRef(
+      from.l + (to.l - from.l) * amount,
+      from.a + (to.a - from.a) * amount,
+      from.b + (to.b - from.b) * amount,
+      result
+    )
+  }
+
+  /**
+   * Computes the perceived difference between two colors, a difference around 1 is barely noticeable
+   * @param left - defines the first color
+   * @param right - defines the second color
+   * @param formula - defines the formula to use (CIE2000 by default)
+   * @returns the difference between the colors in CIE Lab
+   */
+  export function deltaE(
+    left: ReadonlyColor3,
+    right: ReadonlyColor3,
+    formula: DeltaEFormula = 'CIE2000'
+  ): number {
+    return deltaELab(toLab(left), toLab(right), formula)
+  }
+
+  /**
+   * Computes the perceived difference between two CIE Lab colors
+   * @param left - defines the first color
+   * @param right - defines the second color
+   * @param formula - defines the formula to use (CIE2000 by default)
+   * @returns the difference between the colors
+   */
+  export function deltaELab(
+    left: Lab,
+    right: Lab,
+    formula: DeltaEFormula = 'CIE2000'
+  ): number {
+    if (formula === 'CIE76') {
+      return Math.hypot(right.l - left.l, right.a - left.a, right.b - left.b)
+    }
+
+    // CIEDE2000 as described by Sharma, Wu and Dalal
+    const meanL = (left.l + right.l) / 2
+    const meanC7 = Math.pow(
+      (Math.hypot(left.a, left.b) + Math.hypot(right.a, right.b)) / 2,
+      7
+    )
+    const g = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + _pow25To7)))
+    const leftA = left.a * (1 + g)
+    const rightA = right.a * (1 + g)
+    const leftC = Math.hypot(leftA, left.b)
+    const rightC = Math.hypot(rightA, right.b)
+    const leftH = leftC === 0 ? 0 : _hueDegrees(leftA, left.b)
+    const rightH = rightC === 0 ? 0 : _hueDegrees(rightA, right.b)
+
+    let hueDelta = 0
+    let meanH = leftH + rightH
+    if (leftC * rightC !== 0) {
+      hueDelta = Scalar.deltaAngle(leftH, rightH)
+      if (Math.abs(leftH - rightH) > 180) {
+        meanH += meanH < 360 ? 360 : -360
+      }
+      meanH /= 2
+    }
+
+    const deltaL = right.l - left.l
+    const deltaC = rightC - leftC
+    const deltaH =
+      2 * Math.sqrt(leftC * rightC) * Math.sin((hueDelta / 2) * DEG2RAD)
+
+    const meanC = (leftC + rightC) / 2
+    const meanCPrime7 = Math.pow(meanC, 7)
+    const t =
+      1 -
+      0.17 * Math.cos((meanH - 30) * DEG2RAD) +
+      0.24 * Math.cos(2 * meanH * DEG2RAD) +
+      0.32 * Math.cos((3 * meanH + 6) * DEG2RAD) -
+      0.2 * Math.cos((4 * meanH - 63) * DEG2RAD)
+    const rotation = 30 * Math.exp(-Math.pow((meanH - 275) / 25, 2))
+    const rotationFactor =
+      -2 *
+      Math.sqrt(meanCPrime7 / (meanCPrime7 + _pow25To7)) *
+      Math.sin(2 * rotation * DEG2RAD)
+    const lightnessOffset = Math.pow(meanL - 50, 2)
+    const lightness =
+      deltaL / (1 + (0.015 * lightnessOffset) / Math.sqrt(20 + lightnessOffset))
+    const chroma = deltaC / (1 + 0.045 * meanC)
+    const hue = deltaH / (1 + 0.015 * meanC * t)
+
+    return Math.sqrt(
+      lightness * lightness +
+        chroma * chroma +
+        hue * hue +
+        rotationFactor * chroma * hue
+    )
+  }
+
+  /**
+   * Parses a CSS color: #RGB, #RGBA, #RRGGBB, #RRGGBBAA, rgb(), rgba(), hsl(), hsla() or a named color.
+   * The alpha is ignored, use Color4.parseColor to keep it.
+   * @param text - defines the CSS color, the case and the surrounding spaces are ignored
+   * @returns a new Color3, or undefined when the text isn't a valid CSS color
+   */
+  export function parseColor(text: string): MutableColor3 | undefined {
+    const color = Color4.parseColor(text)
+    return color && create(color.r, color.g, color.b)
+  }
+
+  /**
+   * Formats a Color3 as a CSS rgb() color, the components are clamped between 0 and 1
+   * @param value - defines the color to format
+   * @returns a string like "rgb(255, 128, 0)"
+   */
+  export function toCssString(value: ReadonlyColor3): string {
+    const r = Math.round(Scalar.clamp(value.r) * 255)
+    const g = Math.round(Scalar.clamp(value.g) * 255)
+    const b = Math.round(Scalar.clamp(value.b) * 255)
+    return `rgb(${r}, ${g}, ${b})`
+  }
+
+  /** @internal */
+  function _hue(value: ReadonlyColor3, max: number, chroma: number): number {
+    if (chroma === 0) {
+      return 0
+    }
+    let hue: number
+    if (max === value.r) {
+      hue = (value.g - value.b) / chroma
+    } else if (max === value.g) {
+      hue = (value.b - value.r) / chroma + 2
+    } else {
+      hue = (value.r - value.g) / chroma + 4
+    }
+    return Scalar.repeat(hue * 60, 360)
+  }
+
+  /** @internal */
+  function _fromHueChromaToRef(
+    hue: number,
+    chroma: number,
+    offset: number,
+    result: MutableColor3
+  ): void {
+    const sector = Scalar.repeat(hue, 360) / 60
+    const x = chroma * (1 - Math.abs((sector % 2) - 1))
+    let r = 0
+    let g = 0
+    let b = 0
+    if (sector < 1) {
+      r = chroma
+      g = x
+    } else if (sector < 2) {
+      r = x
+      g = chroma
+    } else if (sector < 3) {
+      g = chroma
+      b = x
+    } else if (sector < 4) {
+      g = x
+      b = chroma
+    } else if (sector < 5) {
+      r = x
+      b = chroma
+    } else {
+      r = chroma
+      b = x
+    }
+    result.r = r + offset
+    result.g = g + offset
+    result.b = b + offset
+  }
+
+  // the D65 white point is the XYZ of the RGB white, so the grays have no chroma in Lab
+  /** @internal */
+  const _whiteX = 0.4124564 + 0.3575761 + 0.1804375
+
+  /** @internal */
+  const _whiteY = 0.2126729 + 0.7151522 + 0.072175
+
+  /** @internal */
+  const _whiteZ = 0.0193339 + 0.119192 + 0.9503041
+
+  /** @internal */
+  const _pow25To7 = Math.pow(25, 7)
+
+  /** @internal */
+  function _labCompress(value: number): number {
+    return value > 216 / 24389
+      ? Math.cbrt(value)
+      : (value * 24389) / 27 / 116 + 16 / 116
+  }
+
+  /** @internal */
+  function _labExpand(value: number): number {
+    return value > 6 / 29
+      ? value * value * value
+      : (116 * value - 16) * (27 / 24389)
+  }
+
+  /** @internal */
+  function _hueDegrees(a: number, b: number): number {
+    return Scalar.repeat(Math.atan2(b, a) * RAD2DEG, 360)
+  }
+
+  /** @internal */
+  function _toPolarToRef(lab: Lab, result: LCh): void {
+    const chroma = Math.hypot(lab.a, lab.b)
+    result.l = lab.l
+    result.c = chroma
+    // the hue of the grays is only rounding noise
+    result.h = chroma < Epsilon ? 0 : _hueDegrees(lab.a, lab.b)
+  }
+
+  /** @internal */
+  function _fromLinearToRef(
+    r: number,
+    g: number,
+    b: number,
+    result: MutableColor3
+  ): void {
+    // the gamma curve is undefined for the negative values of the colors out of the gamut
+    result.r = Math.max(r, 0)
+    result.g = Math.max(g, 0)
+    result.b = Math.max(b, 0)
+    toGammaSpaceToRef(result, result)
+  }
 }
@@ -1,6 +1,7 @@
 import { Color3 } from './Color3'
 import { Scalar } from './Scalar'
-import { ToLinearSpace, ToGammaSpace } from './types'
+import { ToLinearSpace, ToGammaSpace, RAD2DEG } from './types'
+import { CssColorNames } from './CssColorNames'
 
 /**
  * @public
@@ -70,6 +71,57 @@ export namespace Color4 {
    */
   export type Mutable = MutableColor4
 
+  /**
+   * @public
+   * A color in the hue, saturation, value model (also known as HSB) with an alpha component.
+   * The hue is in degrees between 0 and 360, the other components are between 0 and 1.
+   */
+  export type HSVA = {
+    h: number
+    s: number
+    v: number
+    a: number
+  }
+
+  /**
+   * @public
+   * A color in the hue, saturation, lightness model with an alpha component.
+   * The hue is in degrees between 0 and 360, the other components are between 0 and 1.
+   */
+  export type HSLA = {
+    h: number
+    s: number
+    l: number
+    a: number
+  }
+
+  /**
+   * @public
+   * The Porter-Duff operator used by Color4.composite to combine a source color with a destination color:
+   * - over: the source is drawn on top of the destination
+   * - in: the source only where the destination is
+   * - out: the source only where the destination isn't
+   * - atop: the source on top of the destination, only where the destination is
+   * - xor: the source and the destination where the other isn't
+   */
+  export type CompositeOperation = 'over' | 'in' | 'out' | 'atop' | 'xor'
+
+  /**
+   * @public
+   * The blend mode used by Color4.blend, with the same formulas as the CSS mix-blend-mode
+   */
+  export type BlendMode =
+    | 'normal'
+    | 'multiply'
+    | 'screen'
+    | 'overlay'
+    | 'softLight'
+    | 'darken'
+    | 'lighten'
+    | 'difference'
+    | 'colorDodge'
+    | 'colorBurn'
+
   /**
    * Creates create mutable Color4 from red, green, blue values, all between 0 and 1
    * @param r - defines the red component (between 0 and 1, default is 0)
@@ -646,4 +698,536 @@ export namespace Color4 {
     convertedColor.b = Math.pow(value.b, ToGammaSpace)
     convertedColor.a = value.a
   }
+
+  /**
+   * Creates a Color4 from hue, saturation, value and alpha (HSV and HSB are the same model)
+   * @param hue - defines the hue in degrees, wrapped between 0 and 360
+   * @param saturation - defines the saturation (between 0 and 1)
+   * @param value - defines the value (between 0 and 1)
+   * @param alpha - defines the alpha component (1.0 by default)
+   * @returns a new Color4
+   */
+  export function fromHSV(
+    hue: number,
+    saturation: number,
+    value: number,
+    alpha: number = 1.0
+  ): MutableColor4 {
+    const result = create()
+    fromHSVToRef(hue, saturation, value, alpha, result)
+    return result
+  }
+
+  /**
+   * Converts hue, saturation, value and alpha to RGBA and stores the result in "result"
+   * @param hue - defines the hue in degrees, wrapped between 0 and 360
+   * @param saturation - defines the saturation (between 0 and 1)
+   * @param value - defines the value (between 0 and 1)
+   * @param alpha - defines the alpha component
+   * @param result - defines the Color4 where to store the result
+   */
+  export function fromHSVToRef(
+    hue: number,
+    saturation: number,
+    value: number,
+    alpha: number,
+    result: MutableColor4
+  ): void {
+    Color3.fromHSVToRef(hue, saturation, value, result)
+    result.a = alpha
+  }
+
+  /**
+   * Converts a Color4 to hue, saturation, value and alpha (HSV and HSB are the same model)
+   * @param value - defines the color to convert
+   * @returns a new HSVA color, the hue is 0 for grays
+   */
+  export function toHSV(value: ReadonlyColor4): HSVA {
+    const result = { h: 0, s: 0, v: 0, a: 0 }
+    toHSVToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts a Color4 to hue, saturation, value and alpha and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the HSVA color where to store the result
+   */
+  export function toHSVToRef(value: ReadonlyColor4, result: HSVA): void {
+    Color3.toHSVToRef(value, result)
+    result.a = value.a
+  }
+
+  /**
+   * Creates a Color4 from hue, saturation, lightness and alpha
+   * @param hue - defines the hue in degrees, wrapped between 0 and 360
+   * @param saturation - defines the saturation (between 0 and 1)
+   * @param lightness - defines the lightness (between 0 and 1)
+   * @param alpha - defines the alpha component (1.0 by default)
+   * @returns a new Color4
+   */
+  export function fromHSL(
+    hue: number,
+    saturation: number,
+    lightness: number,
+    alpha: number = 1.0
+  ): MutableColor4 {
+    const result = create()
+    fromHSLToRef(hue, saturation, lightness, alpha, result)
+    return result
+  }
+
+  /**
+   * Converts hue, saturation, lightness and alpha to RGBA and stores the result in "result"
+   * @param hue - defines the hue in degrees, wrapped between 0 and 360
+   * @param saturation - defines the saturation (between 0 and 1)
+   * @param lightness - defines the lightness (between 0 and 1)
+   * @param alpha - defines the alpha component
+   * @param result - defines the Color4 where to store the result
+   */
+  export function fromHSLToRef(
+    hue: number,
+    saturation: number,
+    lightness: number,
+    alpha: number,
+    result: MutableColor4
+  ): void {
+    Color3.fromHSLToRef(hue, saturation, lightness, result)
+    result.a = alpha
+  }
+
+  /**
+   * Converts a Color4 to hue, saturation, lightness and alpha
+   * @param value - defines the color to convert
+   * @returns a new HSLA color, the hue is 0 for grays
+   */
+  export function toHSL(value: ReadonlyColor4): HSLA {
+    const result = { h: 0, s: 0, l: 0, a: 0 }
+    toHSLToRef(value, result)
+    return result
+  }
+
+  /**
+   * Converts a Color4 to hue, saturation, lightness and alpha and stores the result in "result"
+   * @param value - defines the color to convert
+   * @param result - defines the HSLA color where to store the result
+   */
+  export function toHSLToRef(value: ReadonlyColor4, result: HSLA): void {
+    Color3.toHSLToRef(value, result)
+    result.a = value.a
+  }
+
+  /**
+   * Interpolates two colors in the HSV model, the hue goes along the shortest arc of the color wheel
+   * and the alpha is interpolated linearly
+   * @param start - defines the start color
+   * @param end - defines the end color
+   * @param amount - defines the gradient factor
+   * @returns a new Color4
+   */
+  export function lerpHSV(
+    start: ReadonlyColor4,
+    end: ReadonlyColor4,
+    amount: number
+  ): MutableColor4 {
+    const result = create()
+    lerpHSVToRef(start, end, amount, result)
+    return result
+  }
+
+  /**
+   * Interpolates two colors in the HSV model and stores the result in "result"
+   * @param start - defines the start color
+   * @param end - defines the end color
+   * @param amount - defines the gradient factor
+   * @param result - defines the Color4 where to store the result
+   */
+  export function lerpHSVToRef(
+    start: ReadonlyColor4,
+    end: ReadonlyColor4,
+    amount: number,
+    result: MutableColor4
+  ): void {
+    const alpha = start.a + (end.a - start.a) * amount
+    Color3.lerpHSVToRef(start, end, amount, result)
+    result.a = alpha
+  }
+
+  /**
+   * Interpolates two colors in OKLab, a perceptual space where the midpoints keep an even brightness,
+   * the alpha is interpolated linearly
+   * @param start - defines the start color
+   * @param end - defines the end color
+   * @param amount - defines the gradient factor
+   * @returns a new Color4
+   */
+  export function lerpOKLab(
+    start: ReadonlyColor4,
+    end: ReadonlyColor4,
+    amount: number
+  ): MutableColor4 {
+    const result = create()
+    lerpOKLabToRef(start, end, amount, result)
+    return result
+  }
+
+  /**
+   * Interpolates two colors in OKLab and stores the result in "result"
+   * @param start - defines the start color
+   * @param end - defines the end color
+   * @param amount - defines the gradient factor
+   * @param result - defines the Color4 where to store the result
+   */
+  export function lerpOKLabToRef(
+    start: ReadonlyColor4,
+    end: ReadonlyColor4,
+    amount: number,
+    result: MutableColor4
+  ): void {
+    const alpha = start.a + (end.a - start.a) * amount
+    Color3.lerpOKLabToRef(start, end, amount, result)
+    result.a = alpha
+  }
+
+  /**
+   * Parses a CSS color: #RGB, #RGBA, #RRGGBB, #RRGGBBAA, rgb(), rgba(), hsl(), hsla(), a named color or transparent.
+   * Unlike fromHexString, an invalid text doesn't silently give black.
+   * @param text - defines the CSS color, the case and the surrounding spaces are ignored
+   * @returns a new Color4, or undefined when the text isn't a valid CSS color
+   */
+  export function parseColor(text: string): MutableColor4 | undefined {
+    const value = text.trim().toLowerCase()
+    if (value.startsWith('#')) {
+      return _parseHex(value.substring(1))
+    }
+    if (value === 'transparent') {
+      return Clear()
+    }
+    if (Object.prototype.hasOwnProperty.call(CssColorNames, value)) {
+      const hex = CssColorNames[value]
+      return fromInts((hex >> 16) & 255, (hex >> 8) & 255, hex & 255, 255)
+    }
+
+    const match = /^(rgba?|hsla?)\((.*)\)$/.exec(value)
+    const args = match && _splitArguments(match[2])
+    if (!match || !args) {
+      return undefined
+    }
+    const alpha = args.length === 4 ? _parseChannel(args[3], 1) : 1
+    if (match[1].startsWith('rgb')) {
+      const r = _parseChannel(args[0], 255)
+      const g = _parseChannel(args[1], 255)
+      const b = _parseChannel(args[2], 255)
+      if (r === undefined || g === undefined || b === undefined) {
+        return undefined
+      }
+      return alpha === undefined ? undefined : create(r, g, b, alpha)
+    }
+    const hue = _parseHue(args[0])
+    const saturation = _parseChannel(args[1], 100)
+    const lightness = _parseChannel(args[2], 100)
+    if (
+      hue === undefined ||
+      saturation === undefined ||
+      lightness === undefined ||
+      alpha === undefined
+    ) {
+      return undefined
+    }
+    return fromHSL(hue, saturation, lightness, alpha)
+  }
+
+  /**
+   * Formats a Color4 as a CSS rgba() color, the components are clamped between 0 and 1
+   * @param value - defines the color to format
+   * @returns a string like "rgba(255, 128, 0, 0.5)"
+   */
+  export function toCssString(value: ReadonlyColor4): string {
+    const r = Math.round(Scalar.clamp(value.r) * 255)
+    const g = Math.round(Scalar.clamp(value.g) * 255)
+    const b = Math.round(Scalar.clamp(value.b) * 255)
+    const a = Math.round(Scalar.clamp(value.a) * 1000) / 1000
+    return `rgba(${r}, ${g}, ${b}, ${a})`
+  }
+
+  /**
+   * Multiplies the rgb values by the alpha value, the premultiplied form used by composite and most blending hardware
+   * @param value - defines the color with straight alpha
+   * @returns a new Color4 with premultiplied alpha
+   */
+  export function premultiply(value: ReadonlyColor4): MutableColor4 {
+    const result = create()
+    premultiplyToRef(value, result)
+    return result
+  }
+
+  /**
+   * Multiplies the rgb values by the alpha value and stores the result in "result"
+   * @param value - defines the color with straight alpha
+   * @param result - defines the Color4 where to store the premultiplied color
+   */
+  export function premultiplyToRef(
+    value: ReadonlyColor4,
+    result: MutableColor4
+  ): void {
+    copyFromFloats(
+      value.r * value.a,
+      value.g * value.a,
+      value.b * value.a,
+      value.a,
+      result
+    )
+  }
+
+  /**
+   * Divides the rgb values by the alpha value, the reverse of premultiply
+   * @param value - defines the color with premultiplied alpha
+   * @returns a new Color4 with straight alpha, transparent black when the alpha is 0
+   */
+  export function unpremultiply(value: ReadonlyColor4): MutableColor4 {
+    const result = create()
+    unpremultiplyToRef(value, result)
+    return result
+  }
+
+  /**
+   * Divides the rgb values by the alpha value and stores the result in "result"
+   * @param value - defines the color with premultiplied alpha
+   * @param result - defines the Color4 where to store the straight color, transparent black when the alpha is 0
+   */
+  export function unpremultiplyToRef(
+    value: ReadonlyColor4,
+    result: MutableColor4
+  ): void {
+    if (value.a === 0) {
+      copyFromFloats(0, 0, 0, 0, result)
+      return
+    }
+    copyFromFloats(
+      value.r / value.a,
+      value.g / value.a,
+      value.b / value.a,
+      value.a,
+      result
+    )
+  }
+
+  /**
+   * Combines a source color with a destination color with a Porter-Duff operator
+   * @param source - defines the color drawn
+   * @param destination - defines the color drawn on
+   * @param operation - defines the Porter-Duff operator (over by default)
+   * @param premultiplied - defines if the colors and the result have premultiplied alpha (straight alpha by default)
+   * @returns a new Color4
+   */
+  export function composite(
+    source: ReadonlyColor4,
+    destination: ReadonlyColor4,
+    operation: CompositeOperation = 'over',
+    premultiplied: boolean = false
+  ): MutableColor4 {
+    const result = create()
+    compositeToRef(source, destination, operation, premultiplied, result)
+    return result
+  }
+
+  /**
+   * Combines a source color with a destination color with a Porter-Duff operator and stores the result in "result"
+   * @param source - defines the color drawn
+   * @param destination - defines the color drawn on
+   * @param operation - defines the Porter-Duff operator
+   * @param premultiplied - defines if the colors and the result have premultiplied alpha
+   * @param result - defines the Color4 where to store the result, it can be one of the operands
+   */
+  export function compositeToRef(
+    source: ReadonlyColor4,
+    destination: ReadonlyColor4,
+    operation: CompositeOperation,
+    premultiplied: boolean,
+    result: MutableColor4
+  ): void {
+    const src = premultiplied ? clone(source) : premultiply(source)
+    const dst = premultiplied ? clone(destination) : premultiply(destination)
+
+    // the operators only differ by the part of each color they keep
+    let sourceFactor = 1
+    let destinationFactor = 1 - src.a
+    if (operation === 'in') {
+      sourceFactor = dst.a
+      destinationFactor = 0
+    } else if (operation === 'out') {
+      sourceFactor = 1 - dst.a
+      destinationFactor = 0
+    } else if (operation === 'atop') {
+      sourceFactor = dst.a
+    } else if (operation === 'xor') {
+      sourceFactor = 1 - dst.a
+    }
+
+    scaleToRef(src, sourceFactor, result)
+    scaleAndAddToRef(dst, destinationFactor, result)
+    if (!premultiplied) {
+      unpremultiplyToRef(result, result)
+    }
+  }
+
+  /**
+   * Blends a source color on a destination color, like a layer with a blend mode drawn over another layer.
+   * The colors have straight alpha, where the source is transparent the destination is unchanged.
+   * @param source - defines the color of the top layer
+   * @param destination - defines the color of the bottom layer
+   * @param mode - defines the blend mode
+   * @returns a new Color4
+   */
+  export function blend(
+    source: ReadonlyColor4,
+    destination: ReadonlyColor4,
+    mode: BlendMode
+  ): MutableColor4 {
+    const result = create()
+    blendToRef(source, destination, mode, result)
+    return result
+  }
+
+  /**
+   * Blends a source color on a destination color and stores the result in "result"
+   * @param source - defines the color of the top layer
+   * @param destination - defines the color of the bottom layer
+   * @param mode - defines the blend mode
+   * @param result - defines the Color4 where to store the result, it can be one of the operands
+   */
+  export function blendToRef(
+    source: ReadonlyColor4,
+    destination: ReadonlyColor4,
+    mode: BlendMode,
+    result: MutableColor4
+  ): void {
+    // the blended color replaces the source where the destination is opaque, then it is composited over it
+    const mix = (backdrop: number, color: number) =>
+      (1 - destination.a) * color +
+      destination.a * _blendChannel(backdrop, color, mode)
+    const blended = create(
+      mix(destination.r, source.r),
+      mix(destination.g, source.g),
+      mix(destination.b, source.b),
+      source.a
+    )
+    compositeToRef(blended, destination, 'over', false, result)
+  }
+
+  /** @internal */
+  function _parseHex(digits: string): MutableColor4 | undefined {
+    const short = digits.length === 3 || digits.length === 4
+    if (
+      !/^[0-9a-f]*$/.test(digits) ||
+      (!short && digits.length !== 6 && digits.length !== 8)
+    ) {
+      return undefined
+    }
+    const size = short ? 1 : 2
+    const channel = (index: number) => {
+      const part = digits.substring(index * size, (index + 1) * size)
+      return parseInt(short ? part + part : part, 16)
+    }
+    const alpha = digits.length / size === 4 ? channel(3) : 255
+    return fromInts(channel(0), channel(1), channel(2), alpha)
+  }
+
+  /** @internal */
+  function _splitArguments(content: string): string[] | undefined {
+    // legacy syntax: "255, 0, 0, 0.5", modern syntax: "255 0 0 / 0.5"
+    let args = content.split(',')
+    if (args.length === 1) {
+      const [channels, alpha, ...rest] = content.split('/')
+      if (rest.length) {
+        return undefined
+      }
+      args = channels.trim().split(/\s+/)
+      if (args.length !== 3) {
+        return undefined
+      }
+      if (alpha !== undefined) {
+        args.push(alpha)
+      }
+    }
+    return args.length === 3 || args.length === 4
+      ? args.map(($) => $.trim())
+      : undefined
+  }
+
+  /** @internal */
+  function _parseNumber(text: string): number | undefined {
+    return /^[+-]?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/.test(text)
+      ? parseFloat(text)
+      : undefined
+  }
+
+  /** @internal */
+  function _parseChannel(text: string, range: number): number | undefined {
+    const percent = text.endsWith('%')
+    const value = _parseNumber(percent ? text.slice(0, -1) : text)
+    if (value === undefined) {
+      return undefined
+    }
+    return Scalar.clamp(percent ? value / 100 : value / range)
+  }
+
+  /** @internal */
+  function _parseHue(text: string): number | undefined {
+    const units: Record<string, number> = {
+      deg: 1,
+      grad: 0.9,
+      rad: RAD2DEG,
+      turn: 360
+    }
+    const unit = /(deg|grad|rad|turn)$/.exec(text)
+    const value = _parseNumber(unit ? text.slice(0, -unit[1].length) : text)
+    if (value === undefined) {
+      return undefined
+    }
+    return value * (unit ? units[unit[1]] : 1)
+  }
+
+  /** @internal */
+  function _blendChannel(
+    backdrop: number,
+    source: number,
+    mode: BlendMode
+  ): number {
+    if (mode === 'multiply') {
+      return backdrop * source
+    } else if (mode === 'screen') {
+      return backdrop + source - backdrop * source
+    } else if (mode === 'overlay') {
+      return backdrop <= 0.5
+        ? 2 * backdrop * source
+        : 1 - 2 * (1 - backdrop) * (1 - source)
+    } else if (mode === 'softLight') {
+      if (source <= 0.5) {
+        return backdrop - (1 - 2 * source) * backdrop * (1 - backdrop)
+      }
+      const curve =
+        backdrop <= 0.25
+          ? ((16 * backdrop - 12) * backdrop + 4) * backdrop
+          : Math.sqrt(backdrop)
+      return backdrop + (2 * source - 1) * (curve - backdrop)
+    } else if (mode === 'darken') {
+      return Math.min(backdrop, source)
+    } else if (mode === 'lighten') {
+      return Math.max(backdrop, source)
+    } else if (mode === 'difference') {
+      return Math.abs(backdrop - source)
+    } else if (mode === 'colorDodge') {
+      if (backdrop === 0) {
+        return 0
+      }
+      return source >= 1 ? 1 : Math.min(1, backdrop / (1 - source))
+    } else if (mode === 'colorBurn') {
+      if (backdrop >= 1) {
+        return 1
+      }
+      return source <= 0 ? 0 : 1 - Math.min(1, (1 - backdrop) / source)
+    }
+    return source
+  }
 }
@@ -0,0 +1,348 @@
+import { Color4 } from './Color4'
+import { Scalar } from './Scalar'
+
+/**
+ * @public
+ * ColorGradient is a type and a namespace.
+ * - The namespace contains all types and functions to sample a color ramp made of several color stops
+ * - The type ColorGradient is an alias to ColorGradient.ReadonlyColorGradient
+ * ```
+ *
+ * // Namespace usage example
+ * const fire = ColorGradient.create([
+ *   { position: 0, color: Color4.Yellow() },
+ *   { position: 1, color: Color4.Red() }
+ * ], 'linear', 'oklab')
+ * const color = ColorGradient.sample(fire, particleAge)
+ *
+ * // Type usage example
+ * const readonlyGradient: ColorGradient = ColorGradient.create()
+ * readonlyGradient.mode = 'step' // this FAILS
+ *
+ * // For mutable usage, use `ColorGradient.Mutable`
+ * const gradient: ColorGradient.Mutable = ColorGradient.create()
+ * gradient.mode = 'step' // this WORKS
+ * ```
+ */
+export type ColorGradient = ColorGradient.ReadonlyColorGradient
+
+/**
+ * @public
+ * ColorGradient is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to sample a color ramp made of several color stops
+ * const color = ColorGradient.sample(fire, particleAge)
+ * // The type ColorGradient is an alias to ColorGradient.ReadonlyColorGradient
+ * const readonlyGradient: ColorGradient = ColorGradient.create()
+ * readonlyGradient.mode = 'step' // this FAILS
+ *
+ * // For mutable usage, use `ColorGradient.Mutable`
+ * const gradient: ColorGradient.Mutable = ColorGradient.create()
+ * gradient.mode = 'step' // this WORKS
+ * ```
+ */
+export namespace ColorGradient {
+  /**
+   * @public
+   * How the colors between two stops are computed:
+   * - linear: linear interpolation between the stops
+   * - step: the color of the previous stop until the next one, like a hard edge
+   * - smooth: smoothstep interpolation, the color eases in and out of each stop
+   */
+  export type InterpolationMode = 'linear' | 'step' | 'smooth'
+
+  /**
+   * @public
+   * The color space where the colors are interpolated:
+   * - rgb: the gamma space values, like Color4.lerp
+   * - linear: the linear space values, closer to the mix of two lights
+   * - hsv: the hue goes along the shortest arc of the color wheel, like Color4.lerpHSV
+   * - oklab: perceptual interpolation with an even brightness, like Color4.lerpOKLab
+   */
+  export type ColorSpace = 'rgb' | 'linear' | 'hsv' | 'oklab'
+
+  /**
+   * @public
+   * A color of the gradient and its position, usually between 0 and 1
+   */
+  export type ReadonlyColorStop = {
+    readonly position: number
+    readonly color: Color4.ReadonlyColor4
+  }
+
+  /**
+   * @public
+   * A color of the gradient and its position, usually between 0 and 1
+   */
+  export type MutableColorStop = {
+    position: number
+    color: Color4.MutableColor4
+  }
+
+  /**
+   * @public
+   * For external use, type with `ColorGradient`, e.g. `const ramp: ColorGradient = ColorGradient.create()`.
+   * For mutable typing, use `ColorGradient.Mutable`, e.g. `const ramp: ColorGradient.Mutable = ColorGradient.create()`.
+   * The stops are sorted by position.
+   */
+  export type ReadonlyColorGradient = {
+    readonly stops: ReadonlyArray<ReadonlyColorStop>
+    readonly mode: InterpolationMode
+    readonly space: ColorSpace
+  }
+
+  /**
+   * @public
+   * For external usage, type with `ColorGradient`, e.g. `const ramp: ColorGradient = ColorGradient.create()`.
+   * For mutable typing, use `ColorGradient.Mutable`, e.g. `const ramp: ColorGradient.Mutable = ColorGradient.create()`.
+   * The stops must stay sorted by position, use addStop and removeStop to edit them.
+   */
+  export type MutableColorGradient = {
+    stops: MutableColorStop[]
+    mode: InterpolationMode
+    space: ColorSpace
+  }
+
+  /**
+   * @public
+   * Type with `ColorGradient` for readonly usage, e.g. `const ramp: ColorGradient = ColorGradient.create()`.
+   * For mutable, use `ColorGradient.Mutable`, e.g. `const ramp: ColorGradient.Mutable = ColorGradient.create()`.
+   */
+  export type Mutable = MutableColorGradient
+
+  /**
+   * Creates a new gradient, the stops are copied and sorted by position
+   * @param stops - defines the color stops (none by default)
+   * @param mode - defines the interpolation between the stops (linear by default)
+   * @param space - defines the color space of the interpolation (rgb by default)
+   * @returns the new gradient
+   */
+  export function create(
+    stops: ReadonlyArray<ReadonlyColorStop> = [],
+    mode: InterpolationMode = 'linear',
+    space: ColorSpace = 'rgb'
+  ): MutableColorGradient {
+    const result: MutableColorGradient = { stops: [], mode, space }
+    for (const stop of stops) {
+      addStop(result, stop.position, stop.color)
+    }
+    return result
+  }
+
+  /**
+   * Copies the given gradient into a new one
+   * @param source - the gradient to clone
+   * @returns the new gradient
+   */
+  export function clone(source: ReadonlyColorGradient): MutableColorGradient {
+    return create(source.stops, source.mode, source.space)
+  }
+
+  /**
+   * Adds a copy of a color at the given position, a stop at the same position as others is added after them
+   * @param gradient - the gradient to update
+   * @param position - the position of the new stop
+   * @param color - the color of the new stop
+   */
+  export function addStop(
+    gradient: MutableColorGradient,
+    position: number,
+    color: Color4.ReadonlyColor4
+  ): void {
+    const stops = gradient.stops
+    let index = stops.length
+    while (index > 0 && stops[index - 1].position > position) {
+      index--
+    }
+    stops.splice(index, 0, { position, color: Color4.clone(color) })
+  }
+
+  /**
+   * Removes the stop at the given index, nothing happens when there is no stop at this index
+   * @param gradient - the gradient to update
+   * @param index - the index of the stop in the sorted stops
+   */
+  export function removeStop(
+    gradient: MutableColorGradient,
+    index: number
+  ): void {
+    if (index >= 0 && index < gradient.stops.length) {
+      gradient.stops.splice(index, 1)
+    }
+  }
+
+  /**
+   * Samples the color of the gradient at the given position
+   * @param gradient - the gradient to sample
+   * @param position - the position, clamped to the first and the last stops
+   * @returns a new Color4, transparent black when the gradient has no stop
+   */
+  export function sample(
+    gradient: ReadonlyColorGradient,
+    position: number
+  ): Color4.MutableColor4 {
+    const result = Color4.create()
+    sampleToRef(gradient, position, result)
+    return result
+  }
+
+  /**
+   * Samples the color of the gradient at the given position and stores it in "result"
+   * @param gradient - the gradient to sample
+   * @param position - the position, clamped to the first and the last stops
+   * @param result - the color where to store the sample
+   */
+  export function sampleToRef(
+    gradient: ReadonlyColorGradient,
+    position: number,
+    result: Color4.MutableColor4
+  ): void {
+    const stops = gradient.stops
+    if (stops.length === 0) {
+      Color4.copyFrom(Color4.Clear(), result)
+      return
+    }
+
+    // index of the last stop at or before the position
+    let index = -1
+    while (index + 1 < stops.length && stops[index + 1].position <= position) {
+      index++
+    }
+    if (index < 0) {
+      Color4.copyFrom(stops[0].color, result)
+      return
+    }
+    if (index === stops.length - 1 || gradient.mode === 'step') {
+      Color4.copyFrom(stops[index].color, result)
+      return
+    }
+
+    const start = stops[index]
+    const end = stops[index + 1]
+    let amount = (position - start.position) / (end.position - start.position)
+    if (gradient.mode === 'smooth') {
+      amount = Scalar.smoothStep(0, 1, amount)
+    }
+    _lerpInSpaceToRef(start.color, end.color, amount, gradient.space, result)
+  }
+
+  /**
+   * Samples the gradient at evenly spaced positions between 0 and 1 into a lookup array,
+   * to read the colors every frame with sampleBaked without interpolating them again
+   * @param gradient - the gradient to sample
+   * @param size - the number of colors in the lookup array
+   * @returns a new array with 4 floats (r, g, b, a) per color
+   */
+  export function bake(
+    gradient: ReadonlyColorGradient,
+    size: number
+  ): Float32Array {
+    const result = new Float32Array(Math.max(size, 0) * 4)
+    const color = Color4.create()
+    for (let i = 0; i < size; i++) {
+      sampleToRef(gradient, size > 1 ? i / (size - 1) : 0, color)
+      result[i * 4] = color.r
+      result[i * 4 + 1] = color.g
+      result[i * 4 + 2] = color.b
+      result[i * 4 + 3] = color.a
+    }
+    return result
+  }
+
+  /**
+   * Reads the color of a baked lookup array nearest to the given position
+   * @param lookup - the array returned by bake
+   * @param position - the position between 0 and 1, it is clamped
+   * @param result - the color where to store the sample, transparent black when the array is empty
+   */
+  export function sampleBakedToRef(
+    lookup: ArrayLike<number>,
+    position: number,
+    result: Color4.MutableColor4
+  ): void {
+    const count = Math.floor(lookup.length / 4)
+    if (count === 0) {
+      Color4.copyFrom(Color4.Clear(), result)
+      return
+    }
+    const offset = Math.round(Scalar.clamp(position) * (count - 1)) * 4
+    Color4.copyFromFloats(
+      lookup[offset],
+      lookup[offset + 1],
+      lookup[offset + 2],
+      lookup[offset + 3],
+      result
+    )
+  }
+
+  /**
+   * Creates a gradient going the other way, the color at position p is the color of the given gradient at 1 - p.
+   * In step mode a stop holds its color toward the next one, so each reversed stop takes the color of the
+   * previous stop of the given gradient, and the last color is kept by an extra stop at the start.
+   * @param gradient - the gradient to reverse
+   * @returns the new gradient
+   */
+  export function reverse(
+    gradient: ReadonlyColorGradient
+  ): MutableColorGradient {
+    const result = create([], gradient.mode, gradient.space)
+    const stops = gradient.stops
+    const step = gradient.mode === 'step'
+    if (step && stops.length > 0) {
+      const last = stops[stops.length - 1]
+      result.stops.push({
+        position: 1 - last.position,
+        color: Color4.clone(last.color)
+      })
+    }
+    for (let i = stops.length - 1; i >= 0; i--) {
+      const color = stops[step ? Math.max(i - 1, 0) : i].color
+      result.stops.push({
+        position: 1 - stops[i].position,
+        color: Color4.clone(color)
+      })
+    }
+    return result
+  }
+
+  /**
+   * Creates a gradient with evenly spaced stops between 0 and 1 sampled from the given one,
+   * e.g. to approximate an oklab gradient with rgb stops
+   * @param gradient - the gradient to resample
+   * @param count - the number of stops of the new gradient
+   * @returns the new gradient, with the same mode and color space
+   */
+  export function resample(
+    gradient: ReadonlyColorGradient,
+    count: number
+  ): MutableColorGradient {
+    const result = create([], gradient.mode, gradient.space)
+    for (let i = 0; i < count; i++) {
+      const position = count > 1 ? i / (count - 1) : 0
+      result.stops.push({ position, color: sample(gradient, position) })
+    }
+    return result
+  }
+
+  /** @internal */
+  function _lerpInSpaceToRef(
+    start: Color4.ReadonlyColor4,
+    end: Color4.ReadonlyColor4,
+    amount: number,
+    space: ColorSpace,
+    result: Color4.MutableColor4
+  ): void {
+    if (space === 'linear') {
+      const linearStart = Color4.toLinearSpace(start)
+      const linearEnd = Color4.toLinearSpace(end)
+      Color4.lerpToRef(linearStart, linearEnd, amount, result)
+      Color4.toGammaSpaceToRef(result, result)
+    } else if (space === 'hsv') {
+      Color4.lerpHSVToRef(start, end, amount, result)
+    } else if (space === 'oklab') {
+      Color4.lerpOKLabToRef(start, end, amount, result)
+    } else {
+      Color4.lerpToRef(start, end, amount, result)
+    }
+  }
+}
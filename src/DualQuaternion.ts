@@ -0,0 +1,524 @@
+import { Vector3 } from './Vector3'
+import { Quaternion } from './Quaternion'
+import { Matrix } from './Matrix'
+import { Epsilon } from './types'
+
+/**
+ * @public
+ * DualQuaternion is a type and a namespace.
+ * - The namespace contains all types and functions to operates with rigid transforms stored as dual quaternions
+ * - The type DualQuaternion is an alias to DualQuaternion.ReadonlyDualQuaternion
+ * ```
+ *
+ * // Namespace usage example
+ * const pose = DualQuaternion.fromRotationTranslation(rotation, position)
+ * const blended = DualQuaternion.dlb([poseA, poseB], [0.25, 0.75])
+ *
+ * // Type usage example
+ * const readonlyPose: DualQuaternion = DualQuaternion.Identity()
+ * readonlyPose.real = rotation // this FAILS
+ *
+ * // For mutable usage, use `DualQuaternion.Mutable`
+ * const pose: DualQuaternion.Mutable = DualQuaternion.Identity()
+ * pose.real = rotation // this WORKS
+ * ```
+ */
+export type DualQuaternion = DualQuaternion.ReadonlyDualQuaternion
+
+/**
+ * @public
+ * DualQuaternion is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with rigid transforms stored as dual quaternions
+ * const pose = DualQuaternion.fromRotationTranslation(rotation, position)
+ * // The type DualQuaternion is an alias to DualQuaternion.ReadonlyDualQuaternion
+ * const readonlyPose: DualQuaternion = DualQuaternion.Identity()
+ * readonlyPose.real = rotation // this FAILS
+ *
+ * // For mutable usage, use `DualQuaternion.Mutable`
+ * const pose: DualQuaternion.Mutable = DualQuaternion.Identity()
+ * pose.real = rotation // this WORKS
+ * ```
+ */
+export namespace DualQuaternion {
+  /**
+   * @public
+   * For external use, type with `DualQuaternion`, e.g. `const pose: DualQuaternion = DualQuaternion.Identity()`.
+   * For mutable typing, use `DualQuaternion.Mutable`, e.g. `const pose: DualQuaternion.Mutable = DualQuaternion.Identity()`.
+   * The real part is the rotation, the dual part is half the translation multiplied by the rotation.
+   */
+  export type ReadonlyDualQuaternion = {
+    readonly real: Quaternion.ReadonlyQuaternion
+    readonly dual: Quaternion.ReadonlyQuaternion
+  }
+
+  /**
+   * @public
+   * For external usage, type with `DualQuaternion`, e.g. `const pose: DualQuaternion = DualQuaternion.Identity()`.
+   * For mutable typing, use `DualQuaternion.Mutable`, e.g. `const pose: DualQuaternion.Mutable = DualQuaternion.Identity()`.
+   * The real part is the rotation, the dual part is half the translation multiplied by the rotation.
+   */
+  export type MutableDualQuaternion = {
+    real: Quaternion.MutableQuaternion
+    dual: Quaternion.MutableQuaternion
+  }
+
+  /**
+   * @public
+   * Type with `DualQuaternion` for readonly usage, e.g. `const pose: DualQuaternion = DualQuaternion.Identity()`.
+   * For mutable, use `DualQuaternion.Mutable`, e.g. `const pose: DualQuaternion.Mutable = DualQuaternion.Identity()`.
+   */
+  export type Mutable = MutableDualQuaternion
+
+  /**
+   * Creates a new dual quaternion from the given parts
+   * @param real - the real part
+   * @param dual - the dual part
+   * @returns the new dual quaternion
+   */
+  export function create(
+    real: Quaternion.ReadonlyQuaternion,
+    dual: Quaternion.ReadonlyQuaternion
+  ): MutableDualQuaternion {
+    return {
+      real: Quaternion.create(real.x, real.y, real.z, real.w),
+      dual: Quaternion.create(dual.x, dual.y, dual.z, dual.w)
+    }
+  }
+
+  /**
+   * Creates the identity dual quaternion, with no rotation nor translation
+   * @returns the new dual quaternion
+   */
+  export function Identity(): MutableDualQuaternion {
+    return { real: Quaternion.Identity(), dual: Quaternion.Zero() }
+  }
+
+  /**
+   * Copies the given dual quaternion into a new one
+   * @param source - the dual quaternion to clone
+   * @returns the new dual quaternion
+   */
+  export function clone(source: ReadonlyDualQuaternion): MutableDualQuaternion {
+    return create(source.real, source.dual)
+  }
+
+  /**
+   * Creates the rigid transform rotating by "rotation" then translating by "translation"
+   * @param rotation - the rotation, it should be normalized
+   * @param translation - the translation
+   * @returns the new dual quaternion
+   */
+  export function fromRotationTranslation(
+    rotation: Quaternion.ReadonlyQuaternion,
+    translation: Vector3.ReadonlyVector3
+  ): MutableDualQuaternion {
+    const result = Identity()
+    fromRotationTranslationToRef(rotation, translation, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with the rigid transform rotating by "rotation" then translating by "translation"
+   * @param rotation - the rotation, it should be normalized
+   * @param translation - the translation
+   * @param result - the dual quaternion where to store the result
+   */
+  export function fromRotationTranslationToRef(
+    rotation: Quaternion.ReadonlyQuaternion,
+    translation: Vector3.ReadonlyVector3,
+    result: MutableDualQuaternion
+  ): void {
+    const { x, y, z, w } = rotation
+    const tx = translation.x * 0.5
+    const ty = translation.y * 0.5
+    const tz = translation.z * 0.5
+    result.real.x = x
+    result.real.y = y
+    result.real.z = z
+    result.real.w = w
+    // dual = (translation, 0) * rotation / 2
+    result.dual.x = tx * w + ty * z - tz * y
+    result.dual.y = -tx * z + ty * w + tz * x
+    result.dual.z = tx * y - ty * x + tz * w
+    result.dual.w = -tx * x - ty * y - tz * z
+  }
+
+  /**
+   * Gets the rotation of the rigid transform
+   * @param source - the dual quaternion
+   * @returns a new quaternion with the real part
+   */
+  export function getRotation(
+    source: ReadonlyDualQuaternion
+  ): Quaternion.MutableQuaternion {
+    const { x, y, z, w } = source.real
+    return Quaternion.create(x, y, z, w)
+  }
+
+  /**
+   * Gets the translation of the rigid transform
+   * @param source - the dual quaternion, it should be normalized
+   * @returns the new translation vector
+   */
+  export function getTranslation(
+    source: ReadonlyDualQuaternion
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    getTranslationToRef(source, result)
+    return result
+  }
+
+  /**
+   * Gets the translation of the rigid transform and stores it into "result"
+   * @param source - the dual quaternion, it should be normalized
+   * @param result - the vector where to store the translation
+   */
+  export function getTranslationToRef(
+    source: ReadonlyDualQuaternion,
+    result: Vector3.MutableVector3
+  ): void {
+    // translation = 2 * dual * conjugate(real)
+    const translation = Quaternion.multiply(
+      source.dual,
+      Quaternion.conjugate(source.real)
+    )
+    Vector3.copyFromFloats(
+      translation.x * 2,
+      translation.y * 2,
+      translation.z * 2,
+      result
+    )
+  }
+
+  /**
+   * Creates the matrix of the rigid transform
+   * @param source - the dual quaternion, it should be normalized
+   * @returns the new matrix
+   */
+  export function toMatrix(
+    source: ReadonlyDualQuaternion
+  ): Matrix.MutableMatrix {
+    const result = Matrix.create()
+    toMatrixToRef(source, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with the matrix of the rigid transform
+   * @param source - the dual quaternion, it should be normalized
+   * @param result - the matrix where to store the result
+   */
+  export function toMatrixToRef(
+    source: ReadonlyDualQuaternion,
+    result: Matrix.MutableMatrix
+  ): void {
+    Matrix.composeToRef(
+      Vector3.One(),
+      source.real,
+      getTranslation(source),
+      result
+    )
+  }
+
+  /**
+   * Multiplies two dual quaternions.
+   * Like Quaternion.multiply, the result applies "right" first then "left".
+   * @param left - the transform applied last
+   * @param right - the transform applied first
+   * @returns the new dual quaternion
+   */
+  export function multiply(
+    left: ReadonlyDualQuaternion,
+    right: ReadonlyDualQuaternion
+  ): MutableDualQuaternion {
+    const result = Identity()
+    multiplyToRef(left, right, result)
+    return result
+  }
+
+  /**
+   * Multiplies two dual quaternions and stores the result into "result"
+   * @param left - the transform applied last
+   * @param right - the transform applied first
+   * @param result - the dual quaternion where to store the result
+   */
+  export function multiplyToRef(
+    left: ReadonlyDualQuaternion,
+    right: ReadonlyDualQuaternion,
+    result: MutableDualQuaternion
+  ): void {
+    const real = Quaternion.multiply(left.real, right.real)
+    const dual = Quaternion.add(
+      Quaternion.multiply(left.real, right.dual),
+      Quaternion.multiply(left.dual, right.real)
+    )
+    _set(real, dual, result)
+  }
+
+  /**
+   * Conjugates both parts of the dual quaternion.
+   * For a normalized dual quaternion it is the inverse transform.
+   * @param source - the dual quaternion
+   * @returns the new dual quaternion
+   */
+  export function conjugate(
+    source: ReadonlyDualQuaternion
+  ): MutableDualQuaternion {
+    const result = Identity()
+    conjugateToRef(source, result)
+    return result
+  }
+
+  /**
+   * Conjugates both parts of the dual quaternion and stores the result into "result"
+   * @param source - the dual quaternion
+   * @param result - the dual quaternion where to store the result
+   */
+  export function conjugateToRef(
+    source: ReadonlyDualQuaternion,
+    result: MutableDualQuaternion
+  ): void {
+    _set(
+      Quaternion.conjugate(source.real),
+      Quaternion.conjugate(source.dual),
+      result
+    )
+  }
+
+  /**
+   * Normalizes the dual quaternion, so that it represents a rigid transform
+   * @param source - the dual quaternion
+   * @returns the new dual quaternion, the identity if the real part is zero
+   */
+  export function normalize(
+    source: ReadonlyDualQuaternion
+  ): MutableDualQuaternion {
+    const result = Identity()
+    normalizeToRef(source, result)
+    return result
+  }
+
+  /**
+   * Normalizes the dual quaternion and stores the result into "result"
+   * @param source - the dual quaternion
+   * @param result - the dual quaternion where to store the result, the identity if the real part is zero
+   */
+  export function normalizeToRef(
+    source: ReadonlyDualQuaternion,
+    result: MutableDualQuaternion
+  ): void {
+    const { real, dual } = source
+    const realLength = Quaternion.length(real)
+    if (realLength < Epsilon) {
+      _set(Quaternion.Identity(), Quaternion.Zero(), result)
+      return
+    }
+
+    const invLength = 1 / realLength
+    const x = real.x * invLength
+    const y = real.y * invLength
+    const z = real.z * invLength
+    const w = real.w * invLength
+    // remove the part of the dual that is not orthogonal to the real part
+    const projection = Quaternion.dot(real, dual) * invLength * invLength
+    result.dual.x = (dual.x - real.x * projection) * invLength
+    result.dual.y = (dual.y - real.y * projection) * invLength
+    result.dual.z = (dual.z - real.z * projection) * invLength
+    result.dual.w = (dual.w - real.w * projection) * invLength
+    result.real.x = x
+    result.real.y = y
+    result.real.z = z
+    result.real.w = w
+  }
+
+  /**
+   * Applies the rigid transform to a point
+   * @param source - the dual quaternion, it should be normalized
+   * @param point - the point to transform
+   * @returns the new transformed point
+   */
+  export function transformPoint(
+    source: ReadonlyDualQuaternion,
+    point: Vector3.ReadonlyVector3
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    transformPointToRef(source, point, result)
+    return result
+  }
+
+  /**
+   * Applies the rigid transform to a point and stores it into "result"
+   * @param source - the dual quaternion, it should be normalized
+   * @param point - the point to transform
+   * @param result - the vector where to store the transformed point
+   */
+  export function transformPointToRef(
+    source: ReadonlyDualQuaternion,
+    point: Vector3.ReadonlyVector3,
+    result: Vector3.MutableVector3
+  ): void {
+    const translation = getTranslation(source)
+    Vector3.rotateToRef(point, source.real, result)
+    Vector3.addToRef(result, translation, result)
+  }
+
+  /**
+   * Interpolates two rigid transforms along the screw motion going from one to the other (ScLERP).
+   * The rotation and the translation are interpolated at constant speed, taking the shortest path.
+   * @param start - the transform at amount 0, it should be normalized
+   * @param end - the transform at amount 1, it should be normalized
+   * @param amount - the interpolation amount
+   * @returns the new dual quaternion
+   */
+  export function sclerp(
+    start: ReadonlyDualQuaternion,
+    end: ReadonlyDualQuaternion,
+    amount: number
+  ): MutableDualQuaternion {
+    const result = Identity()
+    sclerpToRef(start, end, amount, result)
+    return result
+  }
+
+  /**
+   * Interpolates two rigid transforms along the screw motion going from one to the other and stores it into "result"
+   * @param start - the transform at amount 0, it should be normalized
+   * @param end - the transform at amount 1, it should be normalized
+   * @param amount - the interpolation amount
+   * @param result - the dual quaternion where to store the result
+   */
+  export function sclerpToRef(
+    start: ReadonlyDualQuaternion,
+    end: ReadonlyDualQuaternion,
+    amount: number,
+    result: MutableDualQuaternion
+  ): void {
+    const delta = multiply(conjugate(start), end)
+    const { real, dual } = delta
+    if (real.w < 0) {
+      _negate(real)
+      _negate(dual)
+    }
+
+    const sinHalfAngle = Math.sqrt(
+      real.x * real.x + real.y * real.y + real.z * real.z
+    )
+    if (sinHalfAngle < Epsilon) {
+      // pure translation, the blend is exact
+      dlbToRef([start, end], [1 - amount, amount], result)
+      return
+    }
+
+    // screw parameters: rotation angle and axis, displacement along the axis and moment of the axis
+    const invSin = 1 / sinHalfAngle
+    const angle = 2 * Math.atan2(sinHalfAngle, real.w)
+    const axis = Vector3.create(
+      real.x * invSin,
+      real.y * invSin,
+      real.z * invSin
+    )
+    const pitch = -2 * dual.w * invSin
+    const momentScale = pitch * 0.5 * real.w
+    const moment = Vector3.create(
+      (dual.x - axis.x * momentScale) * invSin,
+      (dual.y - axis.y * momentScale) * invSin,
+      (dual.z - axis.z * momentScale) * invSin
+    )
+
+    const halfAngle = angle * amount * 0.5
+    const halfPitch = pitch * amount * 0.5
+    const sin = Math.sin(halfAngle)
+    const cos = Math.cos(halfAngle)
+    const step: MutableDualQuaternion = {
+      real: Quaternion.create(axis.x * sin, axis.y * sin, axis.z * sin, cos),
+      dual: Quaternion.create(
+        moment.x * sin + axis.x * halfPitch * cos,
+        moment.y * sin + axis.y * halfPitch * cos,
+        moment.z * sin + axis.z * halfPitch * cos,
+        -halfPitch * sin
+      )
+    }
+    multiplyToRef(start, step, result)
+  }
+
+  /**
+   * Blends several rigid transforms with dual-quaternion linear blending (DLB).
+   * Unlike blending matrices, the result is always a rigid transform, without shear nor scale.
+   * @param sources - the transforms to blend, they should be normalized
+   * @param weights - the weight of each transform, missing weights count as zero
+   * @returns the new normalized dual quaternion, the identity if there is nothing to blend
+   */
+  export function dlb(
+    sources: ReadonlyDualQuaternion[],
+    weights: number[]
+  ): MutableDualQuaternion {
+    const result = Identity()
+    dlbToRef(sources, weights, result)
+    return result
+  }
+
+  /**
+   * Blends several rigid transforms with dual-quaternion linear blending and stores the result into "result"
+   * @param sources - the transforms to blend, they should be normalized
+   * @param weights - the weight of each transform, missing weights count as zero
+   * @param result - the dual quaternion where to store the result, the identity if there is nothing to blend
+   */
+  export function dlbToRef(
+    sources: ReadonlyDualQuaternion[],
+    weights: number[],
+    result: MutableDualQuaternion
+  ): void {
+    const blended: MutableDualQuaternion = {
+      real: Quaternion.Zero(),
+      dual: Quaternion.Zero()
+    }
+    for (let i = 0; i < sources.length; i++) {
+      const source = sources[i]
+      let weight = weights[i] || 0
+      // q and -q are the same transform, keep all of them in the hemisphere of the first one
+      if (Quaternion.dot(source.real, sources[0].real) < 0) {
+        weight = -weight
+      }
+      _addScaled(source.real, weight, blended.real)
+      _addScaled(source.dual, weight, blended.dual)
+    }
+    normalizeToRef(blended, result)
+  }
+
+  /** @internal */
+  function _set(
+    real: Quaternion.ReadonlyQuaternion,
+    dual: Quaternion.ReadonlyQuaternion,
+    result: MutableDualQuaternion
+  ) {
+    result.real.x = real.x
+    result.real.y = real.y
+    result.real.z = real.z
+    result.real.w = real.w
+    result.dual.x = dual.x
+    result.dual.y = dual.y
+    result.dual.z = dual.z
+    result.dual.w = dual.w
+  }
+
+  /** @internal */
+  function _negate(q: Quaternion.MutableQuaternion) {
+    q.x = -q.x
+    q.y = -q.y
+    q.z = -q.z
+    q.w = -q.w
+  }
+
+  /** @internal */
+  function _addScaled(
+    source: Quaternion.ReadonlyQuaternion,
+    scale: number,
+    result: Quaternion.MutableQuaternion
+  ) {
+    result.x += source.x * scale
+    result.y += source.y * scale
+    result.z += source.z * scale
+    result.w += source.w * scale
+  }
+}
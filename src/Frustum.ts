@@ -0,0 +1,287 @@
+import { Vector3 } from './Vector3'
+import { Matrix } from './Matrix'
+import { Plane } from './Plane'
+import { BoundingBox } from './BoundingBox'
+import { BoundingSphere } from './BoundingSphere'
+
+/**
+ * @public
+ * Frustum is a type and a namespace.
+ * - The namespace contains all types and functions to operates with view frustums
+ * - The type Frustum is an alias to Frustum.ReadonlyFrustum
+ * ```
+ *
+ * // Namespace usage example
+ * const frustum = Frustum.fromMatrix(viewProjection)
+ * const isVisible = Frustum.intersectsSphere(frustum, entityBounds)
+ *
+ * // Type usage example
+ * const readonlyFrustum: Frustum = Frustum.fromMatrix(viewProjection)
+ * readonlyFrustum.near = groundPlane // this FAILS
+ *
+ * // For mutable usage, use `Frustum.Mutable`
+ * const frustum: Frustum.Mutable = Frustum.fromMatrix(viewProjection)
+ * frustum.near = groundPlane // this WORKS
+ * ```
+ */
+export type Frustum = Frustum.ReadonlyFrustum
+
+/**
+ * @public
+ * Frustum is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with view frustums
+ * const frustum = Frustum.fromMatrix(viewProjection)
+ * // The type Frustum is an alias to Frustum.ReadonlyFrustum
+ * const readonlyFrustum: Frustum = Frustum.fromMatrix(viewProjection)
+ * readonlyFrustum.near = groundPlane // this FAILS
+ *
+ * // For mutable usage, use `Frustum.Mutable`
+ * const frustum: Frustum.Mutable = Frustum.fromMatrix(viewProjection)
+ * frustum.near = groundPlane // this WORKS
+ * ```
+ */
+export namespace Frustum {
+  /**
+   * @public
+   * For external use, type with `Frustum`, e.g. `const frustum: Frustum = Frustum.fromMatrix(viewProjection)`.
+   * For mutable typing, use `Frustum.Mutable`, e.g. `const frustum: Frustum.Mutable = Frustum.fromMatrix(viewProjection)`.
+   * The normals of the planes point to the inside of the frustum.
+   */
+  export type ReadonlyFrustum = {
+    readonly near: Plane.ReadonlyPlane
+    readonly far: Plane.ReadonlyPlane
+    readonly left: Plane.ReadonlyPlane
+    readonly right: Plane.ReadonlyPlane
+    readonly top: Plane.ReadonlyPlane
+    readonly bottom: Plane.ReadonlyPlane
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Frustum`, e.g. `const frustum: Frustum = Frustum.fromMatrix(viewProjection)`.
+   * For mutable typing, use `Frustum.Mutable`, e.g. `const frustum: Frustum.Mutable = Frustum.fromMatrix(viewProjection)`.
+   * The normals of the planes point to the inside of the frustum.
+   */
+  export type MutableFrustum = {
+    near: Plane.MutablePlane
+    far: Plane.MutablePlane
+    left: Plane.MutablePlane
+    right: Plane.MutablePlane
+    top: Plane.MutablePlane
+    bottom: Plane.MutablePlane
+  }
+
+  /**
+   * @public
+   * Type with `Frustum` for readonly usage, e.g. `const frustum: Frustum = Frustum.fromMatrix(viewProjection)`.
+   * For mutable, use `Frustum.Mutable`, e.g. `const frustum: Frustum.Mutable = Frustum.fromMatrix(viewProjection)`.
+   */
+  export type Mutable = MutableFrustum
+
+  /**
+   * @public
+   * Result of the classification of a volume against a frustum
+   */
+  export type Containment = 'inside' | 'outside' | 'intersecting'
+
+  /**
+   * Creates the frustum of the given view projection matrix
+   * @param transform - the view projection matrix (or only the projection matrix to get the frustum in view space)
+   * @returns the new frustum with normalized planes
+   */
+  export function fromMatrix(transform: Matrix.ReadonlyMatrix): MutableFrustum {
+    const result: MutableFrustum = {
+      near: Plane.create(0, 0, 0, 0),
+      far: Plane.create(0, 0, 0, 0),
+      left: Plane.create(0, 0, 0, 0),
+      right: Plane.create(0, 0, 0, 0),
+      top: Plane.create(0, 0, 0, 0),
+      bottom: Plane.create(0, 0, 0, 0)
+    }
+    fromMatrixToRef(transform, result)
+    return result
+  }
+
+  /**
+   * Sets the planes of "result" with the frustum of the given view projection matrix
+   * @param transform - the view projection matrix (or only the projection matrix to get the frustum in view space)
+   * @param result - the frustum where to store the normalized planes
+   */
+  export function fromMatrixToRef(
+    transform: Matrix.ReadonlyMatrix,
+    result: MutableFrustum
+  ): void {
+    const m = transform._m
+    _setPlane(
+      m[3] + m[2],
+      m[7] + m[6],
+      m[11] + m[10],
+      m[15] + m[14],
+      result.near
+    )
+    _setPlane(
+      m[3] - m[2],
+      m[7] - m[6],
+      m[11] - m[10],
+      m[15] - m[14],
+      result.far
+    )
+    _setPlane(
+      m[3] + m[0],
+      m[7] + m[4],
+      m[11] + m[8],
+      m[15] + m[12],
+      result.left
+    )
+    _setPlane(
+      m[3] - m[0],
+      m[7] - m[4],
+      m[11] - m[8],
+      m[15] - m[12],
+      result.right
+    )
+    _setPlane(m[3] - m[1], m[7] - m[5], m[11] - m[9], m[15] - m[13], result.top)
+    _setPlane(
+      m[3] + m[1],
+      m[7] + m[5],
+      m[11] + m[9],
+      m[15] + m[13],
+      result.bottom
+    )
+  }
+
+  /** @internal */
+  function _setPlane(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    result: Plane.MutablePlane
+  ) {
+    Vector3.copyFromFloats(a, b, c, result.normal)
+    result.d = d
+    Plane.normalizeToRef(result, result)
+  }
+
+  /**
+   * Gets the six planes of the frustum
+   * @param frustum - the frustum
+   * @returns an array with the near, far, left, right, top and bottom planes
+   */
+  export function getPlanes(frustum: ReadonlyFrustum): Plane.ReadonlyPlane[] {
+    return [
+      frustum.near,
+      frustum.far,
+      frustum.left,
+      frustum.right,
+      frustum.top,
+      frustum.bottom
+    ]
+  }
+
+  /**
+   * Checks if the point is inside the frustum (boundaries included)
+   * @param frustum - the frustum
+   * @param point - the point to check
+   * @returns true if the point is inside the frustum
+   */
+  export function containsPoint(
+    frustum: ReadonlyFrustum,
+    point: Vector3.ReadonlyVector3
+  ): boolean {
+    for (const plane of getPlanes(frustum)) {
+      if (Plane.signedDistanceTo(plane, point) < 0) {
+        return false
+      }
+    }
+    return true
+  }
+
+  /**
+   * Classifies a bounding sphere against the frustum
+   * @param frustum - the frustum
+   * @param sphere - the sphere to classify
+   * @returns 'inside' if the sphere is fully inside, 'outside' if it is fully outside, 'intersecting' otherwise
+   */
+  export function classifySphere(
+    frustum: ReadonlyFrustum,
+    sphere: BoundingSphere.ReadonlyBoundingSphere
+  ): Containment {
+    let result: Containment = 'inside'
+    for (const plane of getPlanes(frustum)) {
+      const distance = Plane.signedDistanceTo(plane, sphere.center)
+      if (distance < -sphere.radius) {
+        return 'outside'
+      }
+      if (distance < sphere.radius) {
+        result = 'intersecting'
+      }
+    }
+    return result
+  }
+
+  /**
+   * Checks if a bounding sphere is at least partially inside the frustum.
+   * This test is conservative: some spheres near the corners of the frustum may be reported as intersecting.
+   * @param frustum - the frustum
+   * @param sphere - the sphere to check
+   * @returns true if the sphere is inside or intersecting the frustum
+   */
+  export function intersectsSphere(
+    frustum: ReadonlyFrustum,
+    sphere: BoundingSphere.ReadonlyBoundingSphere
+  ): boolean {
+    return classifySphere(frustum, sphere) !== 'outside'
+  }
+
+  /**
+   * Classifies an axis aligned bounding box against the frustum
+   * @param frustum - the frustum
+   * @param box - the box to classify
+   * @returns 'inside' if the box is fully inside, 'outside' if it is fully outside, 'intersecting' otherwise
+   */
+  export function classifyBox(
+    frustum: ReadonlyFrustum,
+    box: BoundingBox.ReadonlyBoundingBox
+  ): Containment {
+    const min = box.minimum
+    const max = box.maximum
+    let result: Containment = 'inside'
+    for (const plane of getPlanes(frustum)) {
+      const normal = plane.normal
+      // the corners of the box farthest along and against the plane normal
+      const positive = Vector3.create(
+        normal.x >= 0 ? max.x : min.x,
+        normal.y >= 0 ? max.y : min.y,
+        normal.z >= 0 ? max.z : min.z
+      )
+      const negative = Vector3.create(
+        normal.x >= 0 ? min.x : max.x,
+        normal.y >= 0 ? min.y : max.y,
+        normal.z >= 0 ? min.z : max.z
+      )
+      if (Plane.signedDistanceTo(plane, positive) < 0) {
+        return 'outside'
+      }
+      if (Plane.signedDistanceTo(plane, negative) < 0) {
+        result = 'intersecting'
+      }
+    }
+    return result
+  }
+
+  /**
+   * Checks if an axis aligned bounding box is at least partially inside the frustum.
+   * This test is conservative: some boxes near the corners of the frustum may be reported as intersecting.
+   * @param frustum - the frustum
+   * @param box - the box to check
+   * @returns true if the box is inside or intersecting the frustum
+   */
+  export function intersectsBox(
+    frustum: ReadonlyFrustum,
+    box: BoundingBox.ReadonlyBoundingBox
+  ): boolean {
+    return classifyBox(frustum, box) !== 'outside'
+  }
+}
@@ -1,12 +1,17 @@
-import { FloatArray } from './types'
+import { AngleUnit, Epsilon, EulerOrder, FloatArray } from './types'
 import { Vector3 } from './Vector3'
 import { Quaternion } from './Quaternion'
 import { Plane } from './Plane'
+import { Vector4 } from './Vector4'
+import { Matrix3 } from './Matrix3'
 /**
  * Class used to store matrix data (4x4)
  * @public
  */
 export namespace Matrix {
+  /**
+   * The 16 values of a 4x4 matrix, stored row by row
+   */
   export type Matrix4x4 = [
     number,
     number,
@@ -25,6 +30,10 @@ export namespace Matrix {
     number,
     number
   ]
+
+  /**
+   * Mutable matrix, its values and identity flags can be updated in place
+   */
   export type MutableMatrix = {
     /**
      * Gets the update flag of the matrix which is an unique number for the matrix.
@@ -42,6 +51,9 @@ export namespace Matrix {
     _m: Matrix4x4
   }
 
+  /**
+   * Readonly matrix, use it to type matrices that must not be updated
+   */
   export type ReadonlyMatrix = {
     /**
      * Gets the update flag of the matrix which is an unique number for the matrix.
@@ -59,6 +71,37 @@ export namespace Matrix {
     readonly _m: Matrix4x4
   }
 
+  /**
+   * The components of an affine matrix returned by Matrix.decomposeFull.
+   * The upper-left part of the matrix is, row by row: the scale, then the shear, then the rotation.
+   * The rows of the matrix are scale.x * X, scale.y * (Y + shear.x * X) and scale.z * (Z + shear.y * X + shear.z * Y),
+   * where X, Y and Z are the rows of the rotation matrix.
+   */
+  export type FullDecomposition = {
+    translation: Vector3.MutableVector3
+    rotation: Quaternion.MutableQuaternion
+    /** The scale, the y scale is negative when the matrix is mirrored */
+    scale: Vector3.MutableVector3
+    /** The shear factors, x for XY, y for XZ and z for YZ */
+    shear: Vector3.MutableVector3
+    /** True when the matrix mirrors the space (negative determinant) */
+    mirrored: boolean
+    /** True when the components can not rebuild the matrix: singular or projective matrices */
+    lossy: boolean
+  }
+
+  /**
+   * The polar decomposition of the upper-left part of a matrix returned by Matrix.polarDecompose.
+   * The upper-left part of the matrix is stretch * rotation: the stretch is applied first.
+   */
+  export type PolarDecomposition = {
+    rotation: Quaternion.MutableQuaternion
+    /** The symmetric stretch matrix, negative definite when the matrix is mirrored */
+    stretch: Matrix3.MutableMatrix3
+    /** True when the matrix mirrors the space (negative determinant) */
+    mirrored: boolean
+  }
+
   /**
    * Gets the internal data of the matrix
    */
@@ -67,12 +110,15 @@ export namespace Matrix {
   }
 
   let _updateFlagSeed = 0
-  const _identityReadonly = {} as MutableMatrix
+  let _identityReadonly: MutableMatrix | undefined
 
   /**
    * Gets an identity matrix that must not be updated
    */
   export function IdentityReadonly(): ReadonlyMatrix {
+    if (!_identityReadonly) {
+      _identityReadonly = Identity()
+    }
     return _identityReadonly
   }
 
@@ -599,6 +645,79 @@ export namespace Matrix {
     fromQuaternionToRef(quaternionResult, result)
   }
 
+  /**
+   * Creates a rotation matrix from Euler angles applied in the given order
+   * @param order - defines the order of the rotations, see EulerOrder for intrinsic and extrinsic orders
+   * @param angles - defines the rotation around each axis, x is always the angle around the X axis whatever the order
+   * @param unit - defines the unit of the angles (degrees by default)
+   * @returns the new rotation matrix
+   */
+  export function fromEuler(
+    order: EulerOrder,
+    angles: Vector3.ReadonlyVector3,
+    unit: AngleUnit = 'degrees'
+  ): MutableMatrix {
+    const result = create()
+    fromEulerToRef(order, angles, unit, result)
+    return result
+  }
+
+  /**
+   * Creates a rotation matrix from Euler angles applied in the given order and stores it in a given matrix
+   * @param order - defines the order of the rotations, see EulerOrder for intrinsic and extrinsic orders
+   * @param angles - defines the rotation around each axis, x is always the angle around the X axis whatever the order
+   * @param unit - defines the unit of the angles
+   * @param result - defines the target matrix
+   */
+  export function fromEulerToRef(
+    order: EulerOrder,
+    angles: Vector3.ReadonlyVector3,
+    unit: AngleUnit,
+    result: MutableMatrix
+  ): void {
+    const quaternionResult = Quaternion.Zero()
+    Quaternion.fromEulerToRef(order, angles, unit, quaternionResult)
+    fromQuaternionToRef(quaternionResult, result)
+  }
+
+  /**
+   * Gets the Euler angles of the rotation of the matrix for the given order, the scale and translation are ignored
+   * @param matrix - defines the source matrix
+   * @param order - defines the order of the rotations, see EulerOrder for intrinsic and extrinsic orders
+   * @param unit - defines the unit of the returned angles (degrees by default)
+   * @returns a new Vector3 with the angle around each axis, zero if the matrix can not be decomposed
+   */
+  export function toEuler(
+    matrix: ReadonlyMatrix,
+    order: EulerOrder,
+    unit: AngleUnit = 'degrees'
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    toEulerToRef(matrix, order, unit, result)
+    return result
+  }
+
+  /**
+   * Gets the Euler angles of the rotation of the matrix for the given order and stores them in "result", the scale and translation are ignored
+   * @param matrix - defines the source matrix
+   * @param order - defines the order of the rotations, see EulerOrder for intrinsic and extrinsic orders
+   * @param unit - defines the unit of the returned angles
+   * @param result - defines the Vector3 where to store the angles, set to zero if the matrix can not be decomposed
+   */
+  export function toEulerToRef(
+    matrix: ReadonlyMatrix,
+    order: EulerOrder,
+    unit: AngleUnit,
+    result: Vector3.MutableVector3
+  ): void {
+    const rotation = Quaternion.Identity()
+    if (!decompose(matrix, undefined, rotation)) {
+      Vector3.copyFromFloats(0, 0, 0, result)
+      return
+    }
+    Quaternion.toEulerToRef(rotation, order, unit, result)
+  }
+
   /**
    * Creates a scaling matrix
    * @param x - defines the scale factor on X axis
@@ -2315,35 +2434,224 @@ export namespace Matrix {
     return true
   }
 
+  /**
+   * Decomposes the matrix into translation, rotation, scale and shear.
+   * Unlike Matrix.decompose, the rotation stays correct when the matrix contains shear, e.g. after parenting with a non uniform scale.
+   * @param self - defines the matrix to decompose
+   * @returns the components of the matrix, check the lossy flag to know if they rebuild it
+   */
+  export function decomposeFull(self: ReadonlyMatrix): FullDecomposition {
+    const m = self._m
+    const result: FullDecomposition = {
+      translation: Vector3.create(m[12], m[13], m[14]),
+      rotation: Quaternion.Identity(),
+      scale: Vector3.Zero(),
+      shear: Vector3.Zero(),
+      mirrored: false,
+      lossy: m[3] !== 0 || m[7] !== 0 || m[11] !== 0 || m[15] !== 1
+    }
+
+    // Gram-Schmidt orthogonalization of the rows
+    const x = Vector3.create(m[0], m[1], m[2])
+    const y = Vector3.create(m[4], m[5], m[6])
+    const z = Vector3.create(m[8], m[9], m[10])
+
+    result.scale.x = Vector3.length(x)
+    if (result.scale.x === 0) {
+      result.lossy = true
+      return result
+    }
+    Vector3.scaleToRef(x, 1 / result.scale.x, x)
+
+    let shearXY = Vector3.dot(x, y)
+    _subtractScaled(y, x, shearXY)
+    result.scale.y = Vector3.length(y)
+    if (result.scale.y === 0) {
+      result.lossy = true
+      return result
+    }
+    Vector3.scaleToRef(y, 1 / result.scale.y, y)
+    shearXY /= result.scale.y
+
+    let shearXZ = Vector3.dot(x, z)
+    _subtractScaled(z, x, shearXZ)
+    let shearYZ = Vector3.dot(y, z)
+    _subtractScaled(z, y, shearYZ)
+    result.scale.z = Vector3.length(z)
+    if (result.scale.z === 0) {
+      result.lossy = true
+      return result
+    }
+    Vector3.scaleToRef(z, 1 / result.scale.z, z)
+    shearXZ /= result.scale.z
+    shearYZ /= result.scale.z
+
+    // like Matrix.decompose, a mirrored matrix gets a negative y scale
+    if (Vector3.dot(x, Vector3.cross(y, z)) < 0) {
+      result.mirrored = true
+      result.scale.y = -result.scale.y
+      Vector3.scaleToRef(y, -1, y)
+      shearXY = -shearXY
+      shearYZ = -shearYZ
+    }
+
+    Vector3.copyFromFloats(shearXY, shearXZ, shearYZ, result.shear)
+    const rotationMatrix = fromValues(
+      x.x,
+      x.y,
+      x.z,
+      0,
+      y.x,
+      y.y,
+      y.z,
+      0,
+      z.x,
+      z.y,
+      z.z,
+      0,
+      0,
+      0,
+      0,
+      1
+    )
+    Quaternion.fromRotationMatrixToRef(rotationMatrix, result.rotation)
+    return result
+  }
+
+  /** @internal */
+  function _subtractScaled(
+    target: Vector3.MutableVector3,
+    direction: Vector3.ReadonlyVector3,
+    amount: number
+  ) {
+    target.x -= direction.x * amount
+    target.y -= direction.y * amount
+    target.z -= direction.z * amount
+  }
+
+  /**
+   * Computes the polar decomposition of the upper-left part of the matrix: the closest rotation and the remaining symmetric stretch.
+   * Unlike a decomposition into scale and shear, it does not depend on the order of the axes, which makes it suited to interpolate sheared matrices.
+   * @param self - defines the matrix to decompose
+   * @returns the rotation and the stretch, the rotation is the identity and the stretch is the upper-left part of the matrix if it is singular
+   */
+  export function polarDecompose(self: ReadonlyMatrix): PolarDecomposition {
+    const source = Matrix3.fromMatrix4(self)
+    const result: PolarDecomposition = {
+      rotation: Quaternion.Identity(),
+      stretch: Matrix3.clone(source),
+      mirrored: false
+    }
+
+    const det = Matrix3.determinant(source)
+    if (det === 0) {
+      return result
+    }
+    result.mirrored = det < 0
+
+    // the orthogonal factor is the limit of the average of the matrix and its inverse transpose
+    const orthogonal = Matrix3.clone(source)
+    const inverseTranspose = Matrix3.create()
+    for (let iteration = 0; iteration < 30; iteration++) {
+      Matrix3.invertToRef(orthogonal, inverseTranspose)
+      Matrix3.transposeToRef(inverseTranspose, inverseTranspose)
+      let change = 0
+      for (let index = 0; index < 9; index++) {
+        const value = (orthogonal._m[index] + inverseTranspose._m[index]) * 0.5
+        change = Math.max(change, Math.abs(value - orthogonal._m[index]))
+        orthogonal._m[index] = value
+      }
+      if (change < Epsilon) {
+        break
+      }
+    }
+
+    // a mirror is not a rotation, it goes to the stretch
+    if (result.mirrored) {
+      for (let index = 0; index < 9; index++) {
+        orthogonal._m[index] = -orthogonal._m[index]
+      }
+    }
+
+    Matrix3.multiplyToRef(source, Matrix3.transpose(orthogonal), result.stretch)
+    const o = orthogonal._m
+    Quaternion.fromRotationMatrixToRef(
+      fromValues(
+        o[0],
+        o[1],
+        o[2],
+        0,
+        o[3],
+        o[4],
+        o[5],
+        0,
+        o[6],
+        o[7],
+        o[8],
+        0,
+        0,
+        0,
+        0,
+        1
+      ),
+      result.rotation
+    )
+    return result
+  }
+
   /**
    * Gets specific row of the matrix
    * @param index - defines the number of the row to get
-   * @returns the index-th row of the current matrix as a new Vector4
-   */
-  // TODO
-  // export function getRow(index: number): Nullable<Vector4> {
-  //   if (index < 0 || index > 3) {
-  //     return null
-  //   }
-  //   const i = index * 4
-  //   return new Vector4(
-  //     self._m[i + 0],
-  //     self._m[i + 1],
-  //     self._m[i + 2],
-  //     self._m[i + 3]
-  //   )
-  // }
+   * @returns the index-th row of the current matrix as a new Vector4, or null if the index is out of range
+   */
+  export function getRow(
+    self: ReadonlyMatrix,
+    index: number
+  ): Vector4.MutableVector4 | null {
+    if (index < 0 || index > 3) {
+      return null
+    }
+    const i = index * 4
+    return Vector4.create(
+      self._m[i + 0],
+      self._m[i + 1],
+      self._m[i + 2],
+      self._m[i + 3]
+    )
+  }
 
   /**
    * Sets the index-th row of the current matrix to the vector4 values
    * @param index - defines the number of the row to set
    * @param row - defines the target vector4
-   * @returns the updated current matrix
    */
-  // TODO
-  // export function setRow(index: number, row: Vector4): MutableMatrix {
-  //   return setRowFromFloats(index, row.x, row.y, row.z, row.w)
-  // }
+  export function setRow(
+    self: MutableMatrix,
+    index: number,
+    row: Vector4.ReadonlyVector4
+  ): void {
+    setRowFromFloats(self, index, row.x, row.y, row.z, row.w)
+  }
+
+  /**
+   * Gets specific column of the matrix
+   * @param index - defines the number of the column to get
+   * @returns the index-th column of the current matrix as a new Vector4, or null if the index is out of range
+   */
+  export function getColumn(
+    self: ReadonlyMatrix,
+    index: number
+  ): Vector4.MutableVector4 | null {
+    if (index < 0 || index > 3) {
+      return null
+    }
+    return Vector4.create(
+      self._m[index],
+      self._m[index + 4],
+      self._m[index + 8],
+      self._m[index + 12]
+    )
+  }
 
   /**
    * Sets the index-th row of the current matrix with the given 4 x float values
@@ -2473,7 +2781,7 @@ export namespace Matrix {
   ): void {
     const scale = Vector3.Zero()
     if (!decompose(self, scale)) {
-      result = Identity()
+      IdentityToRef(result)
       return
     }
 
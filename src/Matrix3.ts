@@ -0,0 +1,671 @@
+import { Vector3 } from './Vector3'
+import { Quaternion } from './Quaternion'
+import { Matrix } from './Matrix'
+import { Epsilon } from './types'
+
+/**
+ * @public
+ * Matrix3 is a type and a namespace.
+ * - The namespace contains all types and functions to operates with 3x3 matrices (rotations, normal matrices, inertia tensors)
+ * - The type Matrix3 is an alias to Matrix3.ReadonlyMatrix3
+ * ```
+ *
+ * // Namespace usage example
+ * const normalMatrix = Matrix3.normalMatrix(worldMatrix)
+ * const worldNormal = Matrix3.transformVector3(normal, normalMatrix)
+ *
+ * // Type usage example
+ * const readonlyMatrix: Matrix3 = Matrix3.Identity()
+ * readonlyMatrix._m = otherValues // this FAILS
+ *
+ * // For mutable usage, use `Matrix3.Mutable`
+ * const matrix: Matrix3.Mutable = Matrix3.Identity()
+ * matrix._m = otherValues // this WORKS
+ * ```
+ */
+export type Matrix3 = Matrix3.ReadonlyMatrix3
+
+/**
+ * @public
+ * Matrix3 is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with 3x3 matrices (rotations, normal matrices, inertia tensors)
+ * const normalMatrix = Matrix3.normalMatrix(worldMatrix)
+ * // The type Matrix3 is an alias to Matrix3.ReadonlyMatrix3
+ * const readonlyMatrix: Matrix3 = Matrix3.Identity()
+ * readonlyMatrix._m = otherValues // this FAILS
+ *
+ * // For mutable usage, use `Matrix3.Mutable`
+ * const matrix: Matrix3.Mutable = Matrix3.Identity()
+ * matrix._m = otherValues // this WORKS
+ * ```
+ */
+export namespace Matrix3 {
+  /**
+   * The 9 values of a 3x3 matrix, stored row by row like the upper-left part of a Matrix
+   */
+  export type Matrix3x3 = [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number
+  ]
+
+  /**
+   * @public
+   * For external use, type with `Matrix3`, e.g. `const rotation: Matrix3 = Matrix3.Identity()`.
+   * For mutable typing, use `Matrix3.Mutable`, e.g. `const rotation: Matrix3.Mutable = Matrix3.Identity()`.
+   * Like Matrix, vectors are multiplied as rows: the transformed vector is vector * matrix.
+   */
+  export type ReadonlyMatrix3 = {
+    readonly _m: Matrix3x3
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Matrix3`, e.g. `const rotation: Matrix3 = Matrix3.Identity()`.
+   * For mutable typing, use `Matrix3.Mutable`, e.g. `const rotation: Matrix3.Mutable = Matrix3.Identity()`.
+   * Like Matrix, vectors are multiplied as rows: the transformed vector is vector * matrix.
+   */
+  export type MutableMatrix3 = {
+    _m: Matrix3x3
+  }
+
+  /**
+   * @public
+   * Type with `Matrix3` for readonly usage, e.g. `const rotation: Matrix3 = Matrix3.Identity()`.
+   * For mutable, use `Matrix3.Mutable`, e.g. `const rotation: Matrix3.Mutable = Matrix3.Identity()`.
+   */
+  export type Mutable = MutableMatrix3
+
+  /**
+   * @public
+   * The eigenvalues and eigenvectors of a symmetric matrix returned by Matrix3.eigenSymmetric3
+   */
+  export type EigenDecomposition = {
+    /** The eigenvalues, sorted from the largest to the smallest */
+    values: Vector3.MutableVector3
+    /** The normalized eigenvectors, in the order of the eigenvalues, forming a right-handed frame */
+    vectors: [
+      Vector3.MutableVector3,
+      Vector3.MutableVector3,
+      Vector3.MutableVector3
+    ]
+    /** The rotation turning the x, y and z axes into the eigenvectors */
+    rotation: Quaternion.MutableQuaternion
+  }
+
+  /**
+   * @public
+   * The singular value decomposition returned by Matrix3.svd.
+   * With column vectors the matrix is U * S * transpose(V): transforming a vector by the matrix is the same as
+   * rotating it by the inverse of v, scaling it by the singular values, then rotating it by u.
+   */
+  export type SingularValueDecomposition = {
+    u: Quaternion.MutableQuaternion
+    /** The singular values sorted by absolute value, the last one is negative when the matrix is mirrored */
+    singularValues: Vector3.MutableVector3
+    v: Quaternion.MutableQuaternion
+  }
+
+  /**
+   * Creates an empty matrix (filled with zeros)
+   * @returns the new matrix
+   */
+  export function create(): MutableMatrix3 {
+    return { _m: [0, 0, 0, 0, 0, 0, 0, 0, 0] }
+  }
+
+  /**
+   * Creates a new identity matrix
+   * @returns the new matrix
+   */
+  export function Identity(): MutableMatrix3 {
+    return { _m: [1, 0, 0, 0, 1, 0, 0, 0, 1] }
+  }
+
+  /**
+   * Creates a new matrix from the given values, row by row
+   * @returns the new matrix
+   */
+  export function fromValues(
+    m00: number,
+    m01: number,
+    m02: number,
+    m10: number,
+    m11: number,
+    m12: number,
+    m20: number,
+    m21: number,
+    m22: number
+  ): MutableMatrix3 {
+    return { _m: [m00, m01, m02, m10, m11, m12, m20, m21, m22] }
+  }
+
+  /**
+   * Copies the given matrix into a new one
+   * @param source - the matrix to clone
+   * @returns the new matrix
+   */
+  export function clone(source: ReadonlyMatrix3): MutableMatrix3 {
+    return { _m: [...source._m] }
+  }
+
+  /**
+   * Copies the values of the source matrix into "result"
+   * @param source - the matrix to copy
+   * @param result - the target matrix
+   */
+  export function copyFrom(
+    source: ReadonlyMatrix3,
+    result: MutableMatrix3
+  ): void {
+    for (let index = 0; index < 9; index++) {
+      result._m[index] = source._m[index]
+    }
+  }
+
+  /**
+   * Multiplies two matrices.
+   * Like Matrix.multiply, the result applies "left" first then "right".
+   * @param left - the first matrix
+   * @param right - the second matrix
+   * @returns the new matrix
+   */
+  export function multiply(
+    left: ReadonlyMatrix3,
+    right: ReadonlyMatrix3
+  ): MutableMatrix3 {
+    const result = create()
+    multiplyToRef(left, right, result)
+    return result
+  }
+
+  /**
+   * Multiplies two matrices and stores the result into "result"
+   * @param left - the first matrix
+   * @param right - the second matrix
+   * @param result - the target matrix, it can be one of the operands
+   */
+  export function multiplyToRef(
+    left: ReadonlyMatrix3,
+    right: ReadonlyMatrix3,
+    result: MutableMatrix3
+  ): void {
+    const a = left._m
+    const b = right._m
+    _setValues(
+      a[0] * b[0] + a[1] * b[3] + a[2] * b[6],
+      a[0] * b[1] + a[1] * b[4] + a[2] * b[7],
+      a[0] * b[2] + a[1] * b[5] + a[2] * b[8],
+      a[3] * b[0] + a[4] * b[3] + a[5] * b[6],
+      a[3] * b[1] + a[4] * b[4] + a[5] * b[7],
+      a[3] * b[2] + a[4] * b[5] + a[5] * b[8],
+      a[6] * b[0] + a[7] * b[3] + a[8] * b[6],
+      a[6] * b[1] + a[7] * b[4] + a[8] * b[7],
+      a[6] * b[2] + a[7] * b[5] + a[8] * b[8],
+      result
+    )
+  }
+
+  /**
+   * Computes the transpose of the given matrix
+   * @param source - the matrix to transpose
+   * @returns the new matrix
+   */
+  export function transpose(source: ReadonlyMatrix3): MutableMatrix3 {
+    const result = create()
+    transposeToRef(source, result)
+    return result
+  }
+
+  /**
+   * Computes the transpose of the given matrix and stores it into "result"
+   * @param source - the matrix to transpose
+   * @param result - the target matrix, it can be the source
+   */
+  export function transposeToRef(
+    source: ReadonlyMatrix3,
+    result: MutableMatrix3
+  ): void {
+    const m = source._m
+    _setValues(m[0], m[3], m[6], m[1], m[4], m[7], m[2], m[5], m[8], result)
+  }
+
+  /**
+   * Computes the determinant of the given matrix
+   * @param source - the matrix
+   * @returns the determinant
+   */
+  export function determinant(source: ReadonlyMatrix3): number {
+    const m = source._m
+    return (
+      m[0] * (m[4] * m[8] - m[5] * m[7]) -
+      m[1] * (m[3] * m[8] - m[5] * m[6]) +
+      m[2] * (m[3] * m[7] - m[4] * m[6])
+    )
+  }
+
+  /**
+   * Computes the inverse of the given matrix
+   * @param source - the matrix to invert
+   * @returns the new matrix, a copy of the source if it can not be inverted
+   */
+  export function invert(source: ReadonlyMatrix3): MutableMatrix3 {
+    const result = create()
+    invertToRef(source, result)
+    return result
+  }
+
+  /**
+   * Computes the inverse of the given matrix and stores it into "result"
+   * @param source - the matrix to invert
+   * @param result - the target matrix, set to a copy of the source if it can not be inverted
+   */
+  export function invertToRef(
+    source: ReadonlyMatrix3,
+    result: MutableMatrix3
+  ): void {
+    // the inverse is the transpose of the cofactor matrix divided by the determinant
+    const m = source._m
+    const cofactor00 = m[4] * m[8] - m[5] * m[7]
+    const cofactor01 = m[5] * m[6] - m[3] * m[8]
+    const cofactor02 = m[3] * m[7] - m[4] * m[6]
+    const det = m[0] * cofactor00 + m[1] * cofactor01 + m[2] * cofactor02
+
+    if (det === 0) {
+      copyFrom(source, result)
+      return
+    }
+
+    const invDet = 1 / det
+    _setValues(
+      cofactor00 * invDet,
+      (m[2] * m[7] - m[1] * m[8]) * invDet,
+      (m[1] * m[5] - m[2] * m[4]) * invDet,
+      cofactor01 * invDet,
+      (m[0] * m[8] - m[2] * m[6]) * invDet,
+      (m[2] * m[3] - m[0] * m[5]) * invDet,
+      cofactor02 * invDet,
+      (m[1] * m[6] - m[0] * m[7]) * invDet,
+      (m[0] * m[4] - m[1] * m[3]) * invDet,
+      result
+    )
+  }
+
+  /**
+   * Creates the rotation matrix of the given quaternion, equal to the upper-left part of Matrix.fromQuaternionToRef
+   * @param rotation - the rotation, it should be normalized
+   * @returns the new matrix
+   */
+  export function fromQuaternion(
+    rotation: Quaternion.ReadonlyQuaternion
+  ): MutableMatrix3 {
+    const result = create()
+    fromQuaternionToRef(rotation, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with the rotation matrix of the given quaternion
+   * @param rotation - the rotation, it should be normalized
+   * @param result - the target matrix
+   */
+  export function fromQuaternionToRef(
+    rotation: Quaternion.ReadonlyQuaternion,
+    result: MutableMatrix3
+  ): void {
+    const { x, y, z, w } = rotation
+    const xx = x * x
+    const yy = y * y
+    const zz = z * z
+    const xy = x * y
+    const zw = z * w
+    const zx = z * x
+    const yw = y * w
+    const yz = y * z
+    const xw = x * w
+
+    _setValues(
+      1.0 - 2.0 * (yy + zz),
+      2.0 * (xy + zw),
+      2.0 * (zx - yw),
+      2.0 * (xy - zw),
+      1.0 - 2.0 * (zz + xx),
+      2.0 * (yz + xw),
+      2.0 * (zx + yw),
+      2.0 * (yz - xw),
+      1.0 - 2.0 * (yy + xx),
+      result
+    )
+  }
+
+  /**
+   * Extracts the upper-left 3x3 part (rotation and scale) of a 4x4 matrix
+   * @param source - the 4x4 matrix
+   * @returns the new matrix
+   */
+  export function fromMatrix4(source: Matrix.ReadonlyMatrix): MutableMatrix3 {
+    const result = create()
+    fromMatrix4ToRef(source, result)
+    return result
+  }
+
+  /**
+   * Extracts the upper-left 3x3 part (rotation and scale) of a 4x4 matrix and stores it into "result"
+   * @param source - the 4x4 matrix
+   * @param result - the target matrix
+   */
+  export function fromMatrix4ToRef(
+    source: Matrix.ReadonlyMatrix,
+    result: MutableMatrix3
+  ): void {
+    const m = source._m
+    _setValues(m[0], m[1], m[2], m[4], m[5], m[6], m[8], m[9], m[10], result)
+  }
+
+  /**
+   * Computes the normal matrix of a 4x4 matrix, the transpose of the inverse of its upper-left part.
+   * Unlike the matrix itself, it keeps the normals perpendicular to the surfaces with non uniform scales.
+   * @param source - the 4x4 matrix, usually a world matrix
+   * @returns the new matrix
+   */
+  export function normalMatrix(source: Matrix.ReadonlyMatrix): MutableMatrix3 {
+    const result = create()
+    normalMatrixToRef(source, result)
+    return result
+  }
+
+  /**
+   * Computes the normal matrix of a 4x4 matrix and stores it into "result"
+   * @param source - the 4x4 matrix, usually a world matrix
+   * @param result - the target matrix
+   */
+  export function normalMatrixToRef(
+    source: Matrix.ReadonlyMatrix,
+    result: MutableMatrix3
+  ): void {
+    fromMatrix4ToRef(source, result)
+    invertToRef(result, result)
+    transposeToRef(result, result)
+  }
+
+  /**
+   * Transforms a vector by the given matrix
+   * @param vector - the vector to transform
+   * @param transformation - the matrix
+   * @returns the new transformed vector
+   */
+  export function transformVector3(
+    vector: Vector3.ReadonlyVector3,
+    transformation: ReadonlyMatrix3
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    transformVector3ToRef(vector, transformation, result)
+    return result
+  }
+
+  /**
+   * Transforms a vector by the given matrix and stores it into "result"
+   * @param vector - the vector to transform
+   * @param transformation - the matrix
+   * @param result - the target vector, it can be the source vector
+   */
+  export function transformVector3ToRef(
+    vector: Vector3.ReadonlyVector3,
+    transformation: ReadonlyMatrix3,
+    result: Vector3.MutableVector3
+  ): void {
+    const m = transformation._m
+    const { x, y, z } = vector
+    result.x = x * m[0] + y * m[3] + z * m[6]
+    result.y = x * m[1] + y * m[4] + z * m[7]
+    result.z = x * m[2] + y * m[5] + z * m[8]
+  }
+
+  /**
+   * Computes the eigenvalues and eigenvectors of a symmetric matrix with the Jacobi method.
+   * The eigenvectors are the principal axes, e.g. of an inertia tensor or of the covariance of a point set.
+   * @param source - the symmetric matrix, only its upper triangle is read
+   * @returns the new eigenvalues, eigenvectors and the rotation turning the axes into the eigenvectors
+   */
+  export function eigenSymmetric3(source: ReadonlyMatrix3): EigenDecomposition {
+    const m = source._m
+    // a is the matrix being diagonalized, v accumulates the rotations: source = v * diagonal * transpose(v)
+    const a = [m[0], m[1], m[2], m[1], m[4], m[5], m[2], m[5], m[8]]
+    const v = [1, 0, 0, 0, 1, 0, 0, 0, 1]
+
+    for (let sweep = 0; sweep < 50; sweep++) {
+      const offDiagonal = Math.abs(a[1]) + Math.abs(a[2]) + Math.abs(a[5])
+      const diagonal = Math.abs(a[0]) + Math.abs(a[4]) + Math.abs(a[8])
+      if (offDiagonal <= diagonal * Number.EPSILON || offDiagonal === 0) {
+        break
+      }
+      _jacobiRotate(a, v, 0, 1)
+      _jacobiRotate(a, v, 0, 2)
+      _jacobiRotate(a, v, 1, 2)
+    }
+
+    const order = [0, 1, 2].sort((left, right) => a[right * 4] - a[left * 4])
+    const vectors = order.map(($) =>
+      Vector3.create(v[$], v[3 + $], v[6 + $])
+    ) as EigenDecomposition['vectors']
+    if (Vector3.dot(Vector3.cross(vectors[0], vectors[1]), vectors[2]) < 0) {
+      Vector3.scaleToRef(vectors[2], -1, vectors[2])
+    }
+
+    return {
+      values: Vector3.create(a[order[0] * 4], a[order[1] * 4], a[order[2] * 4]),
+      vectors,
+      rotation: _rotationFromAxes(vectors[0], vectors[1], vectors[2])
+    }
+  }
+
+  /** @internal */
+  function _jacobiRotate(a: number[], v: number[], p: number, q: number) {
+    const apq = a[p * 3 + q]
+    if (apq === 0) {
+      return
+    }
+
+    // the rotation in the (p, q) plane cancelling a[p][q]
+    const theta = (a[q * 4] - a[p * 4]) / (2 * apq)
+    const t =
+      Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+    const c = 1 / Math.sqrt(t * t + 1)
+    const s = t * c
+
+    for (let k = 0; k < 3; k++) {
+      const akp = a[k * 3 + p]
+      const akq = a[k * 3 + q]
+      a[k * 3 + p] = c * akp - s * akq
+      a[k * 3 + q] = s * akp + c * akq
+    }
+    for (let k = 0; k < 3; k++) {
+      const apk = a[p * 3 + k]
+      const aqk = a[q * 3 + k]
+      a[p * 3 + k] = c * apk - s * aqk
+      a[q * 3 + k] = s * apk + c * aqk
+    }
+    for (let k = 0; k < 3; k++) {
+      const vkp = v[k * 3 + p]
+      const vkq = v[k * 3 + q]
+      v[k * 3 + p] = c * vkp - s * vkq
+      v[k * 3 + q] = s * vkp + c * vkq
+    }
+  }
+
+  /** @internal */
+  function _rotationFromAxes(
+    x: Vector3.ReadonlyVector3,
+    y: Vector3.ReadonlyVector3,
+    z: Vector3.ReadonlyVector3
+  ): Quaternion.MutableQuaternion {
+    const result = Quaternion.Identity()
+    Quaternion.fromRotationMatrixToRef(
+      Matrix.fromValues(
+        x.x,
+        x.y,
+        x.z,
+        0,
+        y.x,
+        y.y,
+        y.z,
+        0,
+        z.x,
+        z.y,
+        z.z,
+        0,
+        0,
+        0,
+        0,
+        1
+      ),
+      result
+    )
+    return result
+  }
+
+  /**
+   * Computes the singular value decomposition of the given matrix
+   * @param source - the matrix to decompose
+   * @returns the new rotations and singular values, see Matrix3.SingularValueDecomposition for how they rebuild the matrix
+   */
+  export function svd(source: ReadonlyMatrix3): SingularValueDecomposition {
+    // the right singular vectors are the eigenvectors of the transpose of the matrix multiplied by itself,
+    // with the row vectors of this library it is the matrix multiplied by its transpose
+    const eigen = eigenSymmetric3(multiply(source, transpose(source)))
+    const [v0, v1, v2] = eigen.vectors
+
+    // the left singular vectors are the images of the right ones
+    const u0 = transformVector3(v0, source)
+    const u1 = transformVector3(v1, source)
+    const sigma0 = Vector3.length(u0)
+    if (sigma0 < Epsilon) {
+      return {
+        u: Quaternion.Identity(),
+        singularValues: Vector3.Zero(),
+        v: Quaternion.Identity()
+      }
+    }
+    Vector3.scaleToRef(u0, 1 / sigma0, u0)
+
+    // only keep the part of u1 perpendicular to u0, any perpendicular direction works for a null singular value
+    const along = Vector3.dot(u0, u1)
+    Vector3.copyFromFloats(
+      u1.x - u0.x * along,
+      u1.y - u0.y * along,
+      u1.z - u0.z * along,
+      u1
+    )
+    if (Vector3.length(u1) < Epsilon * sigma0) {
+      const other =
+        Math.abs(u0.x) < 0.9 ? Vector3.create(1, 0, 0) : Vector3.create(0, 1, 0)
+      Vector3.copyFrom(Vector3.cross(u0, other), u1)
+    }
+    Vector3.normalizeToRef(u1, u1)
+    const u2 = Vector3.cross(u0, u1)
+
+    return {
+      u: _rotationFromAxes(u0, u1, u2),
+      singularValues: Vector3.create(
+        sigma0,
+        Vector3.dot(transformVector3(v1, source), u1),
+        Vector3.dot(transformVector3(v2, source), u2)
+      ),
+      v: eigen.rotation
+    }
+  }
+
+  /**
+   * Computes the covariance matrix of a point set, its eigenvectors are the principal axes of the points
+   * @param points - the points
+   * @returns the new symmetric matrix, filled with zeros if there is no point
+   */
+  export function covariance(
+    points: Vector3.ReadonlyVector3[]
+  ): MutableMatrix3 {
+    const result = create()
+    const count = points.length
+    if (count === 0) {
+      return result
+    }
+
+    const mean = Vector3.Zero()
+    for (const point of points) {
+      Vector3.addToRef(mean, point, mean)
+    }
+    Vector3.scaleToRef(mean, 1 / count, mean)
+
+    const m = result._m
+    for (const point of points) {
+      const x = point.x - mean.x
+      const y = point.y - mean.y
+      const z = point.z - mean.z
+      m[0] += x * x
+      m[1] += x * y
+      m[2] += x * z
+      m[4] += y * y
+      m[5] += y * z
+      m[8] += z * z
+    }
+    m[0] /= count
+    m[1] /= count
+    m[2] /= count
+    m[4] /= count
+    m[5] /= count
+    m[8] /= count
+    m[3] = m[1]
+    m[6] = m[2]
+    m[7] = m[5]
+    return result
+  }
+
+  /**
+   * Checks if two matrices have the same values
+   * @param left - the first matrix
+   * @param right - the second matrix
+   * @returns true if all the values are equal
+   */
+  export function equals(
+    left: ReadonlyMatrix3,
+    right: ReadonlyMatrix3
+  ): boolean {
+    for (let index = 0; index < 9; index++) {
+      if (left._m[index] !== right._m[index]) {
+        return false
+      }
+    }
+    return true
+  }
+
+  /** @internal */
+  function _setValues(
+    m00: number,
+    m01: number,
+    m02: number,
+    m10: number,
+    m11: number,
+    m12: number,
+    m20: number,
+    m21: number,
+    m22: number,
+    result: MutableMatrix3
+  ) {
+    const m = result._m
+    m[0] = m00
+    m[1] = m01
+    m[2] = m02
+    m[3] = m10
+    m[4] = m11
+    m[5] = m12
+    m[6] = m20
+    m[7] = m21
+    m[8] = m22
+  }
+}
@@ -0,0 +1,582 @@
+import { Vector2 } from './Vector2'
+import { Matrix } from './Matrix'
+
+/**
+ * @public
+ * Matrix3x2 is a type and a namespace.
+ * - The namespace contains all types and functions to operates with 2D affine transforms (UI layouts, texture coordinates)
+ * - The type Matrix3x2 is an alias to Matrix3x2.ReadonlyMatrix3x2
+ * ```
+ *
+ * // Namespace usage example
+ * const uvTransform = Matrix3x2.compose(Vector2.create(2, 2), angle, offset)
+ * const uv = Matrix3x2.transformPoint(vertexUv, uvTransform)
+ *
+ * // Type usage example
+ * const readonlyMatrix: Matrix3x2 = Matrix3x2.Identity()
+ * readonlyMatrix._m = otherValues // this FAILS
+ *
+ * // For mutable usage, use `Matrix3x2.Mutable`
+ * const matrix: Matrix3x2.Mutable = Matrix3x2.Identity()
+ * matrix._m = otherValues // this WORKS
+ * ```
+ */
+export type Matrix3x2 = Matrix3x2.ReadonlyMatrix3x2
+
+/**
+ * @public
+ * Matrix3x2 is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with 2D affine transforms (UI layouts, texture coordinates)
+ * const uvTransform = Matrix3x2.compose(Vector2.create(2, 2), angle, offset)
+ * // The type Matrix3x2 is an alias to Matrix3x2.ReadonlyMatrix3x2
+ * const readonlyMatrix: Matrix3x2 = Matrix3x2.Identity()
+ * readonlyMatrix._m = otherValues // this FAILS
+ *
+ * // For mutable usage, use `Matrix3x2.Mutable`
+ * const matrix: Matrix3x2.Mutable = Matrix3x2.Identity()
+ * matrix._m = otherValues // this WORKS
+ * ```
+ */
+export namespace Matrix3x2 {
+  /**
+   * The 6 values of a 2D affine matrix, stored row by row: the images of the x and y axes, then the translation
+   */
+  export type Matrix3x2Values = [number, number, number, number, number, number]
+
+  /**
+   * @public
+   * For external use, type with `Matrix3x2`, e.g. `const transform: Matrix3x2 = Matrix3x2.Identity()`.
+   * For mutable typing, use `Matrix3x2.Mutable`, e.g. `const transform: Matrix3x2.Mutable = Matrix3x2.Identity()`.
+   * Like Matrix, vectors are multiplied as rows: the transformed point is (x, y, 1) * matrix.
+   */
+  export type ReadonlyMatrix3x2 = {
+    readonly _m: Matrix3x2Values
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Matrix3x2`, e.g. `const transform: Matrix3x2 = Matrix3x2.Identity()`.
+   * For mutable typing, use `Matrix3x2.Mutable`, e.g. `const transform: Matrix3x2.Mutable = Matrix3x2.Identity()`.
+   * Like Matrix, vectors are multiplied as rows: the transformed point is (x, y, 1) * matrix.
+   */
+  export type MutableMatrix3x2 = {
+    _m: Matrix3x2Values
+  }
+
+  /**
+   * @public
+   * Type with `Matrix3x2` for readonly usage, e.g. `const transform: Matrix3x2 = Matrix3x2.Identity()`.
+   * For mutable, use `Matrix3x2.Mutable`, e.g. `const transform: Matrix3x2.Mutable = Matrix3x2.Identity()`.
+   */
+  export type Mutable = MutableMatrix3x2
+
+  /**
+   * @public
+   * The components of a 2D affine transform, see Matrix3x2.compose for the order in which they are applied
+   */
+  export type Decomposition = {
+    scale: Vector2.MutableVector2
+    /** The rotation angle in radians */
+    rotation: number
+    /** The skew angle along the x axis in radians */
+    skew: number
+    translation: Vector2.MutableVector2
+  }
+
+  /**
+   * Creates an empty matrix (filled with zeros)
+   * @returns the new matrix
+   */
+  export function create(): MutableMatrix3x2 {
+    return { _m: [0, 0, 0, 0, 0, 0] }
+  }
+
+  /**
+   * Creates a new identity matrix
+   * @returns the new matrix
+   */
+  export function Identity(): MutableMatrix3x2 {
+    return { _m: [1, 0, 0, 1, 0, 0] }
+  }
+
+  /**
+   * Creates a new matrix from the given values, row by row
+   * @returns the new matrix
+   */
+  export function fromValues(
+    m00: number,
+    m01: number,
+    m10: number,
+    m11: number,
+    m20: number,
+    m21: number
+  ): MutableMatrix3x2 {
+    return { _m: [m00, m01, m10, m11, m20, m21] }
+  }
+
+  /**
+   * Copies the given matrix into a new one
+   * @param source - the matrix to clone
+   * @returns the new matrix
+   */
+  export function clone(source: ReadonlyMatrix3x2): MutableMatrix3x2 {
+    return { _m: [...source._m] }
+  }
+
+  /**
+   * Copies the values of the source matrix into "result"
+   * @param source - the matrix to copy
+   * @param result - the target matrix
+   */
+  export function copyFrom(
+    source: ReadonlyMatrix3x2,
+    result: MutableMatrix3x2
+  ): void {
+    for (let index = 0; index < 6; index++) {
+      result._m[index] = source._m[index]
+    }
+  }
+
+  /**
+   * Creates a translation matrix
+   * @param x - the translation along the x axis
+   * @param y - the translation along the y axis
+   * @returns the new matrix
+   */
+  export function translation(x: number, y: number): MutableMatrix3x2 {
+    const result = create()
+    translationToRef(x, y, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with a translation matrix
+   * @param x - the translation along the x axis
+   * @param y - the translation along the y axis
+   * @param result - the target matrix
+   */
+  export function translationToRef(
+    x: number,
+    y: number,
+    result: MutableMatrix3x2
+  ): void {
+    _setValues(1, 0, 0, 1, x, y, result)
+  }
+
+  /**
+   * Creates a rotation matrix, counterclockwise when the y axis points up
+   * @param angle - the angle in radians
+   * @returns the new matrix
+   */
+  export function rotation(angle: number): MutableMatrix3x2 {
+    const result = create()
+    rotationToRef(angle, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with a rotation matrix
+   * @param angle - the angle in radians
+   * @param result - the target matrix
+   */
+  export function rotationToRef(angle: number, result: MutableMatrix3x2): void {
+    const sin = Math.sin(angle)
+    const cos = Math.cos(angle)
+    _setValues(cos, sin, -sin, cos, 0, 0, result)
+  }
+
+  /**
+   * Creates a scaling matrix
+   * @param x - the scale along the x axis
+   * @param y - the scale along the y axis
+   * @returns the new matrix
+   */
+  export function scaling(x: number, y: number): MutableMatrix3x2 {
+    const result = create()
+    scalingToRef(x, y, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with a scaling matrix
+   * @param x - the scale along the x axis
+   * @param y - the scale along the y axis
+   * @param result - the target matrix
+   */
+  export function scalingToRef(
+    x: number,
+    y: number,
+    result: MutableMatrix3x2
+  ): void {
+    _setValues(x, 0, 0, y, 0, 0, result)
+  }
+
+  /**
+   * Creates a skew matrix, like the CSS skew(angleX, angleY) transform
+   * @param angleX - the angle in radians between the y axis and its image, the x coordinates are shifted by tan(angleX) * y
+   * @param angleY - the angle in radians between the x axis and its image, the y coordinates are shifted by tan(angleY) * x
+   * @returns the new matrix
+   */
+  export function skew(angleX: number, angleY: number): MutableMatrix3x2 {
+    const result = create()
+    skewToRef(angleX, angleY, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with a skew matrix
+   * @param angleX - the angle in radians between the y axis and its image
+   * @param angleY - the angle in radians between the x axis and its image
+   * @param result - the target matrix
+   */
+  export function skewToRef(
+    angleX: number,
+    angleY: number,
+    result: MutableMatrix3x2
+  ): void {
+    _setValues(1, Math.tan(angleY), Math.tan(angleX), 1, 0, 0, result)
+  }
+
+  /**
+   * Creates a matrix applying in order the scale, the skew along the x axis, the rotation and the translation
+   * @param scale - the scale
+   * @param angle - the rotation angle in radians
+   * @param offset - the translation
+   * @param skewAngle - the skew angle along the x axis in radians (0 by default)
+   * @returns the new matrix
+   */
+  export function compose(
+    scale: Vector2.ReadonlyVector2,
+    angle: number,
+    offset: Vector2.ReadonlyVector2,
+    skewAngle: number = 0
+  ): MutableMatrix3x2 {
+    const result = create()
+    composeToRef(scale, angle, offset, skewAngle, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with a matrix applying in order the scale, the skew along the x axis, the rotation and the translation
+   * @param scale - the scale
+   * @param angle - the rotation angle in radians
+   * @param offset - the translation
+   * @param skewAngle - the skew angle along the x axis in radians
+   * @param result - the target matrix
+   */
+  export function composeToRef(
+    scale: Vector2.ReadonlyVector2,
+    angle: number,
+    offset: Vector2.ReadonlyVector2,
+    skewAngle: number,
+    result: MutableMatrix3x2
+  ): void {
+    const sin = Math.sin(angle)
+    const cos = Math.cos(angle)
+    const shear = Math.tan(skewAngle) * scale.y
+    _setValues(
+      scale.x * cos,
+      scale.x * sin,
+      shear * cos - scale.y * sin,
+      shear * sin + scale.y * cos,
+      offset.x,
+      offset.y,
+      result
+    )
+  }
+
+  /**
+   * Splits a matrix into the components given to Matrix3x2.compose.
+   * A mirrored matrix gets a negative y scale.
+   * @param matrix - the matrix to decompose
+   * @returns the new components, with a zero scale and no rotation nor skew if the matrix collapses the x axis
+   */
+  export function decompose(matrix: ReadonlyMatrix3x2): Decomposition {
+    const m = matrix._m
+    const result: Decomposition = {
+      scale: Vector2.Zero(),
+      rotation: 0,
+      skew: 0,
+      translation: Vector2.create(m[4], m[5])
+    }
+
+    const scaleX = Math.sqrt(m[0] * m[0] + m[1] * m[1])
+    if (scaleX === 0) {
+      return result
+    }
+
+    const cos = m[0] / scaleX
+    const sin = m[1] / scaleX
+    // the image of the y axis is split along the image of the x axis (shear) and perpendicular to it (scale)
+    const shear = m[2] * cos + m[3] * sin
+    const scaleY = m[3] * cos - m[2] * sin
+
+    result.scale.x = scaleX
+    result.scale.y = scaleY
+    result.rotation = Math.atan2(sin, cos)
+    result.skew = scaleY === 0 ? 0 : Math.atan(shear / scaleY)
+    return result
+  }
+
+  /**
+   * Multiplies two matrices.
+   * Like Matrix.multiply, the result applies "left" first then "right".
+   * @param left - the first matrix
+   * @param right - the second matrix
+   * @returns the new matrix
+   */
+  export function multiply(
+    left: ReadonlyMatrix3x2,
+    right: ReadonlyMatrix3x2
+  ): MutableMatrix3x2 {
+    const result = create()
+    multiplyToRef(left, right, result)
+    return result
+  }
+
+  /**
+   * Multiplies two matrices and stores the result into "result"
+   * @param left - the first matrix
+   * @param right - the second matrix
+   * @param result - the target matrix, it can be one of the operands
+   */
+  export function multiplyToRef(
+    left: ReadonlyMatrix3x2,
+    right: ReadonlyMatrix3x2,
+    result: MutableMatrix3x2
+  ): void {
+    const a = left._m
+    const b = right._m
+    _setValues(
+      a[0] * b[0] + a[1] * b[2],
+      a[0] * b[1] + a[1] * b[3],
+      a[2] * b[0] + a[3] * b[2],
+      a[2] * b[1] + a[3] * b[3],
+      a[4] * b[0] + a[5] * b[2] + b[4],
+      a[4] * b[1] + a[5] * b[3] + b[5],
+      result
+    )
+  }
+
+  /**
+   * Computes the determinant of the given matrix, the ratio between the transformed and the original areas
+   * @param source - the matrix
+   * @returns the determinant, negative if the matrix mirrors the plane
+   */
+  export function determinant(source: ReadonlyMatrix3x2): number {
+    const m = source._m
+    return m[0] * m[3] - m[1] * m[2]
+  }
+
+  /**
+   * Computes the inverse of the given matrix
+   * @param source - the matrix to invert
+   * @returns the new matrix, a copy of the source if it can not be inverted
+   */
+  export function invert(source: ReadonlyMatrix3x2): MutableMatrix3x2 {
+    const result = create()
+    invertToRef(source, result)
+    return result
+  }
+
+  /**
+   * Computes the inverse of the given matrix and stores it into "result"
+   * @param source - the matrix to invert
+   * @param result - the target matrix, set to a copy of the source if it can not be inverted
+   */
+  export function invertToRef(
+    source: ReadonlyMatrix3x2,
+    result: MutableMatrix3x2
+  ): void {
+    const det = determinant(source)
+    if (det === 0) {
+      copyFrom(source, result)
+      return
+    }
+
+    const m = source._m
+    const invDet = 1 / det
+    const m00 = m[3] * invDet
+    const m01 = -m[1] * invDet
+    const m10 = -m[2] * invDet
+    const m11 = m[0] * invDet
+    _setValues(
+      m00,
+      m01,
+      m10,
+      m11,
+      -(m[4] * m00 + m[5] * m10),
+      -(m[4] * m01 + m[5] * m11),
+      result
+    )
+  }
+
+  /**
+   * Transforms a point by the given matrix, translation included
+   * @param point - the point to transform
+   * @param transformation - the matrix
+   * @returns the new transformed point
+   */
+  export function transformPoint(
+    point: Vector2.ReadonlyVector2,
+    transformation: ReadonlyMatrix3x2
+  ): Vector2.MutableVector2 {
+    const result = Vector2.Zero()
+    transformPointToRef(point, transformation, result)
+    return result
+  }
+
+  /**
+   * Transforms a point by the given matrix, translation included, and stores it into "result"
+   * @param point - the point to transform
+   * @param transformation - the matrix
+   * @param result - the target vector, it can be the source point
+   */
+  export function transformPointToRef(
+    point: Vector2.ReadonlyVector2,
+    transformation: ReadonlyMatrix3x2,
+    result: Vector2.MutableVector2
+  ): void {
+    const m = transformation._m
+    const { x, y } = point
+    result.x = x * m[0] + y * m[2] + m[4]
+    result.y = x * m[1] + y * m[3] + m[5]
+  }
+
+  /**
+   * Transforms a direction by the given matrix, the translation is ignored
+   * @param vector - the direction to transform
+   * @param transformation - the matrix
+   * @returns the new transformed direction
+   */
+  export function transformVector(
+    vector: Vector2.ReadonlyVector2,
+    transformation: ReadonlyMatrix3x2
+  ): Vector2.MutableVector2 {
+    const result = Vector2.Zero()
+    transformVectorToRef(vector, transformation, result)
+    return result
+  }
+
+  /**
+   * Transforms a direction by the given matrix, the translation is ignored, and stores it into "result"
+   * @param vector - the direction to transform
+   * @param transformation - the matrix
+   * @param result - the target vector, it can be the source direction
+   */
+  export function transformVectorToRef(
+    vector: Vector2.ReadonlyVector2,
+    transformation: ReadonlyMatrix3x2,
+    result: Vector2.MutableVector2
+  ): void {
+    const m = transformation._m
+    const { x, y } = vector
+    result.x = x * m[0] + y * m[2]
+    result.y = x * m[1] + y * m[3]
+  }
+
+  /**
+   * Creates the 4x4 texture matrix of the given 2D transform.
+   * The values are stored as the 3x2 subset checked by Matrix.isIdentityAs3x2Update: the translation is in the third row.
+   * @param source - the 2D transform
+   * @returns the new 4x4 matrix
+   */
+  export function toMatrix(source: ReadonlyMatrix3x2): Matrix.MutableMatrix {
+    const result = Matrix.create()
+    toMatrixToRef(source, result)
+    return result
+  }
+
+  /**
+   * Sets "result" with the 4x4 texture matrix of the given 2D transform
+   * @param source - the 2D transform
+   * @param result - the target 4x4 matrix
+   */
+  export function toMatrixToRef(
+    source: ReadonlyMatrix3x2,
+    result: Matrix.MutableMatrix
+  ): void {
+    const m = source._m
+    Matrix.fromValuesToRef(
+      m[0],
+      m[1],
+      0,
+      0,
+      m[2],
+      m[3],
+      0,
+      0,
+      m[4],
+      m[5],
+      0,
+      0,
+      0,
+      0,
+      0,
+      1,
+      result
+    )
+  }
+
+  /**
+   * Extracts the 2D transform stored in the 3x2 subset of a 4x4 texture matrix, the inverse of Matrix3x2.toMatrix
+   * @param source - the 4x4 matrix
+   * @returns the new matrix
+   */
+  export function fromMatrix(source: Matrix.ReadonlyMatrix): MutableMatrix3x2 {
+    const result = create()
+    fromMatrixToRef(source, result)
+    return result
+  }
+
+  /**
+   * Extracts the 2D transform stored in the 3x2 subset of a 4x4 texture matrix and stores it into "result"
+   * @param source - the 4x4 matrix
+   * @param result - the target matrix
+   */
+  export function fromMatrixToRef(
+    source: Matrix.ReadonlyMatrix,
+    result: MutableMatrix3x2
+  ): void {
+    const m = source._m
+    _setValues(m[0], m[1], m[4], m[5], m[8], m[9], result)
+  }
+
+  /**
+   * Checks if two matrices have the same values
+   * @param left - the first matrix
+   * @param right - the second matrix
+   * @returns true if all the values are equal
+   */
+  export function equals(
+    left: ReadonlyMatrix3x2,
+    right: ReadonlyMatrix3x2
+  ): boolean {
+    for (let index = 0; index < 6; index++) {
+      if (left._m[index] !== right._m[index]) {
+        return false
+      }
+    }
+    return true
+  }
+
+  /** @internal */
+  function _setValues(
+    m00: number,
+    m01: number,
+    m10: number,
+    m11: number,
+    m20: number,
+    m21: number,
+    result: MutableMatrix3x2
+  ) {
+    const m = result._m
+    m[0] = m00
+    m[1] = m01
+    m[2] = m10
+    m[3] = m11
+    m[4] = m20
+    m[5] = m21
+  }
+}
@@ -0,0 +1,313 @@
+import { Matrix } from './Matrix'
+
+/**
+ * @public
+ * MatrixArray is a namespace to operate on batches of matrices stored in a shared Float32Array.
+ * Each matrix uses 16 consecutive floats with the same layout as `Matrix._m`, so no object is created per matrix.
+ * The bulk functions take the number of items to process and default to the whole result array.
+ * ```
+ * const localMatrices = MatrixArray.create(entityCount)
+ * MatrixArray.compose(scales, rotations, positions, localMatrices)
+ * MatrixArray.multiplyByMatrix(localMatrices, parentMatrix, worldMatrices)
+ * ```
+ */
+export namespace MatrixArray {
+  /**
+   * Creates a new array able to store the given number of matrices, filled with zeros
+   * @param count - the number of matrices
+   * @returns the new array
+   */
+  export function create(count: number): Float32Array {
+    return new Float32Array(count * 16)
+  }
+
+  /**
+   * Creates a new array filled with identity matrices
+   * @param count - the number of matrices
+   * @returns the new array
+   */
+  export function Identity(count: number): Float32Array {
+    const result = create(count)
+    for (let offset = 0; offset < result.length; offset += 16) {
+      result[offset] = 1
+      result[offset + 5] = 1
+      result[offset + 10] = 1
+      result[offset + 15] = 1
+    }
+    return result
+  }
+
+  /**
+   * Gets the number of matrices stored in the array
+   * @param array - the array of matrices
+   * @returns the number of matrices
+   */
+  export function getCount(array: Float32Array): number {
+    return Math.floor(array.length / 16)
+  }
+
+  /**
+   * Copies a matrix into the array
+   * @param array - the array of matrices
+   * @param index - the index of the matrix in the array (not the offset of its first float)
+   * @param matrix - the matrix to copy
+   */
+  export function setMatrix(
+    array: Float32Array,
+    index: number,
+    matrix: Matrix.ReadonlyMatrix
+  ): void {
+    array.set(matrix._m, index * 16)
+  }
+
+  /**
+   * Copies a matrix of the array into "result"
+   * @param array - the array of matrices
+   * @param index - the index of the matrix in the array (not the offset of its first float)
+   * @param result - the target matrix
+   */
+  export function getMatrixToRef(
+    array: Float32Array,
+    index: number,
+    result: Matrix.MutableMatrix
+  ): void {
+    const offset = index * 16
+    const m = array
+    Matrix.fromValuesToRef(
+      m[offset],
+      m[offset + 1],
+      m[offset + 2],
+      m[offset + 3],
+      m[offset + 4],
+      m[offset + 5],
+      m[offset + 6],
+      m[offset + 7],
+      m[offset + 8],
+      m[offset + 9],
+      m[offset + 10],
+      m[offset + 11],
+      m[offset + 12],
+      m[offset + 13],
+      m[offset + 14],
+      m[offset + 15],
+      result
+    )
+  }
+
+  /**
+   * Composes a batch of transforms, like Matrix.composeToRef for each item
+   * @param scales - the scales, 3 floats (x, y, z) per item
+   * @param rotations - the normalized rotation quaternions, 4 floats (x, y, z, w) per item
+   * @param translations - the translations, 3 floats (x, y, z) per item
+   * @param result - the array where to store the matrices
+   * @param count - the number of items to compose (all the matrices of the result by default)
+   */
+  export function compose(
+    scales: ArrayLike<number>,
+    rotations: ArrayLike<number>,
+    translations: ArrayLike<number>,
+    result: Float32Array,
+    count: number = getCount(result)
+  ): void {
+    for (let i = 0; i < count; i++) {
+      const s = i * 3
+      const q = i * 4
+      const o = i * 16
+
+      const x = rotations[q]
+      const y = rotations[q + 1]
+      const z = rotations[q + 2]
+      const w = rotations[q + 3]
+      const xx = x * x
+      const yy = y * y
+      const zz = z * z
+      const xy = x * y
+      const zw = z * w
+      const zx = z * x
+      const yw = y * w
+      const yz = y * z
+      const xw = x * w
+
+      const sx = scales[s]
+      const sy = scales[s + 1]
+      const sz = scales[s + 2]
+
+      // same values as scaling * fromQuaternion with the translation in the last row
+      result[o] = (1.0 - 2.0 * (yy + zz)) * sx
+      result[o + 1] = 2.0 * (xy + zw) * sx
+      result[o + 2] = 2.0 * (zx - yw) * sx
+      result[o + 3] = 0
+      result[o + 4] = 2.0 * (xy - zw) * sy
+      result[o + 5] = (1.0 - 2.0 * (zz + xx)) * sy
+      result[o + 6] = 2.0 * (yz + xw) * sy
+      result[o + 7] = 0
+      result[o + 8] = 2.0 * (zx + yw) * sz
+      result[o + 9] = 2.0 * (yz - xw) * sz
+      result[o + 10] = (1.0 - 2.0 * (yy + xx)) * sz
+      result[o + 11] = 0
+      result[o + 12] = translations[s]
+      result[o + 13] = translations[s + 1]
+      result[o + 14] = translations[s + 2]
+      result[o + 15] = 1
+    }
+  }
+
+  /**
+   * Multiplies two batches of matrices item by item, like Matrix.multiplyToRef(left[i], right[i], result[i])
+   * @param left - the matrices applied first
+   * @param right - the matrices applied last
+   * @param result - the array where to store the products, it can be one of the operands
+   * @param count - the number of items to multiply (all the matrices of the result by default)
+   */
+  export function multiply(
+    left: Float32Array,
+    right: Float32Array,
+    result: Float32Array,
+    count: number = getCount(result)
+  ): void {
+    for (let i = 0; i < count; i++) {
+      const offset = i * 16
+      _multiplyAtOffsets(left, offset, right, offset, result, offset)
+    }
+  }
+
+  /**
+   * Multiplies each matrix of a batch by the same matrix, like Matrix.multiplyToRef(array[i], matrix, result[i]).
+   * With the local matrices of the children of an entity and its world matrix, the result is the world matrices of the children.
+   * @param array - the matrices applied first
+   * @param matrix - the matrix applied last
+   * @param result - the array where to store the products, it can be the source array
+   * @param count - the number of items to multiply (all the matrices of the result by default)
+   */
+  export function multiplyByMatrix(
+    array: Float32Array,
+    matrix: Matrix.ReadonlyMatrix,
+    result: Float32Array,
+    count: number = getCount(result)
+  ): void {
+    const m = matrix._m
+    for (let i = 0; i < count; i++) {
+      const offset = i * 16
+      _multiplyAtOffsets(array, offset, m, 0, result, offset)
+    }
+  }
+
+  /**
+   * Transforms a batch of points by the same matrix, like Vector3.transformCoordinatesToRef for each point
+   * @param points - the points, 3 floats (x, y, z) per item
+   * @param matrix - the transformation matrix
+   * @param result - the array where to store the transformed points, it can be the source array
+   * @param count - the number of points to transform (all the points of the result by default)
+   */
+  export function transformPoints(
+    points: ArrayLike<number>,
+    matrix: Matrix.ReadonlyMatrix,
+    result: Float32Array,
+    count: number = Math.floor(result.length / 3)
+  ): void {
+    const m = matrix._m
+    for (let i = 0; i < count; i++) {
+      const offset = i * 3
+      const x = points[offset]
+      const y = points[offset + 1]
+      const z = points[offset + 2]
+      const w = 1 / (x * m[3] + y * m[7] + z * m[11] + m[15])
+      result[offset] = (x * m[0] + y * m[4] + z * m[8] + m[12]) * w
+      result[offset + 1] = (x * m[1] + y * m[5] + z * m[9] + m[13]) * w
+      result[offset + 2] = (x * m[2] + y * m[6] + z * m[10] + m[14]) * w
+    }
+  }
+
+  /**
+   * Transforms each point of a batch by the matrix with the same index, like Vector3.transformCoordinatesToRef(points[i], matrices[i], result[i])
+   * @param points - the points, 3 floats (x, y, z) per item
+   * @param matrices - the transformation matrices
+   * @param result - the array where to store the transformed points, it can be the source array
+   * @param count - the number of points to transform (all the points of the result by default)
+   */
+  export function transformPointsByArray(
+    points: ArrayLike<number>,
+    matrices: Float32Array,
+    result: Float32Array,
+    count: number = Math.floor(result.length / 3)
+  ): void {
+    const m = matrices
+    for (let i = 0; i < count; i++) {
+      const offset = i * 3
+      const o = i * 16
+      const x = points[offset]
+      const y = points[offset + 1]
+      const z = points[offset + 2]
+      const w = 1 / (x * m[o + 3] + y * m[o + 7] + z * m[o + 11] + m[o + 15])
+      result[offset] = (x * m[o] + y * m[o + 4] + z * m[o + 8] + m[o + 12]) * w
+      result[offset + 1] =
+        (x * m[o + 1] + y * m[o + 5] + z * m[o + 9] + m[o + 13]) * w
+      result[offset + 2] =
+        (x * m[o + 2] + y * m[o + 6] + z * m[o + 10] + m[o + 14]) * w
+    }
+  }
+
+  /** @internal */
+  function _multiplyAtOffsets(
+    a: ArrayLike<number>,
+    aOffset: number,
+    b: ArrayLike<number>,
+    bOffset: number,
+    result: Float32Array,
+    offset: number
+  ) {
+    const a0 = a[aOffset]
+    const a1 = a[aOffset + 1]
+    const a2 = a[aOffset + 2]
+    const a3 = a[aOffset + 3]
+    const a4 = a[aOffset + 4]
+    const a5 = a[aOffset + 5]
+    const a6 = a[aOffset + 6]
+    const a7 = a[aOffset + 7]
+    const a8 = a[aOffset + 8]
+    const a9 = a[aOffset + 9]
+    const a10 = a[aOffset + 10]
+    const a11 = a[aOffset + 11]
+    const a12 = a[aOffset + 12]
+    const a13 = a[aOffset + 13]
+    const a14 = a[aOffset + 14]
+    const a15 = a[aOffset + 15]
+
+    const b0 = b[bOffset]
+    const b1 = b[bOffset + 1]
+    const b2 = b[bOffset + 2]
+    const b3 = b[bOffset + 3]
+    const b4 = b[bOffset + 4]
+    const b5 = b[bOffset + 5]
+    const b6 = b[bOffset + 6]
+    const b7 = b[bOffset + 7]
+    const b8 = b[bOffset + 8]
+    const b9 = b[bOffset + 9]
+    const b10 = b[bOffset + 10]
+    const b11 = b[bOffset + 11]
+    const b12 = b[bOffset + 12]
+    const b13 = b[bOffset + 13]
+    const b14 = b[bOffset + 14]
+    const b15 = b[bOffset + 15]
+
+    result[offset] = a0 * b0 + a1 * b4 + a2 * b8 + a3 * b12
+    result[offset + 1] = a0 * b1 + a1 * b5 + a2 * b9 + a3 * b13
+    result[offset + 2] = a0 * b2 + a1 * b6 + a2 * b10 + a3 * b14
+    result[offset + 3] = a0 * b3 + a1 * b7 + a2 * b11 + a3 * b15
+
+    result[offset + 4] = a4 * b0 + a5 * b4 + a6 * b8 + a7 * b12
+    result[offset + 5] = a4 * b1 + a5 * b5 + a6 * b9 + a7 * b13
+    result[offset + 6] = a4 * b2 + a5 * b6 + a6 * b10 + a7 * b14
+    result[offset + 7] = a4 * b3 + a5 * b7 + a6 * b11 + a7 * b15
+
+    result[offset + 8] = a8 * b0 + a9 * b4 + a10 * b8 + a11 * b12
+    result[offset + 9] = a8 * b1 + a9 * b5 + a10 * b9 + a11 * b13
+    result[offset + 10] = a8 * b2 + a9 * b6 + a10 * b10 + a11 * b14
+    result[offset + 11] = a8 * b3 + a9 * b7 + a10 * b11 + a11 * b15
+
+    result[offset + 12] = a12 * b0 + a13 * b4 + a14 * b8 + a15 * b12
+    result[offset + 13] = a12 * b1 + a13 * b5 + a14 * b9 + a15 * b13
+    result[offset + 14] = a12 * b2 + a13 * b6 + a14 * b10 + a15 * b14
+    result[offset + 15] = a12 * b3 + a13 * b7 + a14 * b11 + a15 * b15
+  }
+}
@@ -0,0 +1,362 @@
+import { Epsilon } from './types'
+import { Vector3 } from './Vector3'
+import { Quaternion } from './Quaternion'
+import { BoundingBox } from './BoundingBox'
+import { BoundingSphere } from './BoundingSphere'
+
+/**
+ * @public
+ * OrientedBox is a type and a namespace.
+ * - The namespace contains all types and functions to operates with oriented bounding boxes
+ * - The type OrientedBox is an alias to OrientedBox.ReadonlyOrientedBox
+ * ```
+ *
+ * // Namespace usage example
+ * const doorBounds = OrientedBox.fromTransform(position, rotation, scale)
+ * const isBlocked = OrientedBox.intersectsSphere(doorBounds, playerBounds)
+ *
+ * // Type usage example
+ * const readonlyBounds: OrientedBox = OrientedBox.fromTransform(position, rotation, scale)
+ * readonlyBounds.center = Vector3.Zero() // this FAILS
+ *
+ * // For mutable usage, use `OrientedBox.Mutable`
+ * const bounds: OrientedBox.Mutable = OrientedBox.fromTransform(position, rotation, scale)
+ * bounds.center = Vector3.Zero() // this WORKS
+ * ```
+ */
+export type OrientedBox = OrientedBox.ReadonlyOrientedBox
+
+/**
+ * @public
+ * OrientedBox is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with oriented bounding boxes
+ * const doorBounds = OrientedBox.fromTransform(position, rotation, scale)
+ * // The type OrientedBox is an alias to OrientedBox.ReadonlyOrientedBox
+ * const readonlyBounds: OrientedBox = OrientedBox.fromTransform(position, rotation, scale)
+ * readonlyBounds.center = Vector3.Zero() // this FAILS
+ *
+ * // For mutable usage, use `OrientedBox.Mutable`
+ * const bounds: OrientedBox.Mutable = OrientedBox.fromTransform(position, rotation, scale)
+ * bounds.center = Vector3.Zero() // this WORKS
+ * ```
+ */
+export namespace OrientedBox {
+  /**
+   * @public
+   * For external use, type with `OrientedBox`, e.g. `const bounds: OrientedBox = OrientedBox.fromTransform(position, rotation, scale)`.
+   * For mutable typing, use `OrientedBox.Mutable`, e.g. `const bounds: OrientedBox.Mutable = OrientedBox.fromTransform(position, rotation, scale)`.
+   */
+  export type ReadonlyOrientedBox = {
+    readonly center: Vector3.ReadonlyVector3
+    readonly halfExtents: Vector3.ReadonlyVector3
+    readonly rotation: Quaternion.ReadonlyQuaternion
+  }
+
+  /**
+   * @public
+   * For external usage, type with `OrientedBox`, e.g. `const bounds: OrientedBox = OrientedBox.fromTransform(position, rotation, scale)`.
+   * For mutable typing, use `OrientedBox.Mutable`, e.g. `const bounds: OrientedBox.Mutable = OrientedBox.fromTransform(position, rotation, scale)`.
+   */
+  export type MutableOrientedBox = {
+    center: Vector3.MutableVector3
+    halfExtents: Vector3.MutableVector3
+    rotation: Quaternion.MutableQuaternion
+  }
+
+  /**
+   * @public
+   * Type with `OrientedBox` for readonly usage, e.g. `const bounds: OrientedBox = OrientedBox.fromTransform(position, rotation, scale)`.
+   * For mutable, use `OrientedBox.Mutable`, e.g. `const bounds: OrientedBox.Mutable = OrientedBox.fromTransform(position, rotation, scale)`.
+   */
+  export type Mutable = MutableOrientedBox
+
+  /**
+   * Creates a new oriented box
+   * @param center - the center of the box
+   * @param halfExtents - the half size of the box along each of its local axes
+   * @param rotation - the rotation of the box
+   * @returns the new oriented box
+   */
+  export function create(
+    center: Vector3.ReadonlyVector3,
+    halfExtents: Vector3.ReadonlyVector3,
+    rotation: Quaternion.ReadonlyQuaternion = Quaternion.Identity()
+  ): MutableOrientedBox {
+    return {
+      center: Vector3.clone(center),
+      halfExtents: Vector3.clone(halfExtents),
+      rotation: Quaternion.create(
+        rotation.x,
+        rotation.y,
+        rotation.z,
+        rotation.w
+      )
+    }
+  }
+
+  /**
+   * Creates the oriented box of a unit cube (side of 1, centered at the origin) moved by the given transform
+   * @param position - the position of the transform
+   * @param rotation - the rotation of the transform
+   * @param scale - the scale of the transform
+   * @returns the new oriented box
+   */
+  export function fromTransform(
+    position: Vector3.ReadonlyVector3,
+    rotation: Quaternion.ReadonlyQuaternion,
+    scale: Vector3.ReadonlyVector3
+  ): MutableOrientedBox {
+    return create(
+      position,
+      Vector3.create(
+        Math.abs(scale.x) * 0.5,
+        Math.abs(scale.y) * 0.5,
+        Math.abs(scale.z) * 0.5
+      ),
+      rotation
+    )
+  }
+
+  /**
+   * Creates the oriented box matching the given axis aligned bounding box
+   * @param box - the axis aligned box
+   * @returns the new oriented box, with an identity rotation
+   */
+  export function fromBoundingBox(
+    box: BoundingBox.ReadonlyBoundingBox
+  ): MutableOrientedBox {
+    return create(
+      BoundingBox.getCenter(box),
+      BoundingBox.getExtents(box),
+      Quaternion.Identity()
+    )
+  }
+
+  /**
+   * Copies the given oriented box into a new one
+   * @param box - the box to clone
+   * @returns the new oriented box
+   */
+  export function clone(box: ReadonlyOrientedBox): MutableOrientedBox {
+    return create(box.center, box.halfExtents, box.rotation)
+  }
+
+  /**
+   * Gets the local axes of the box in world space
+   * @param box - the box
+   * @returns an array with the normalized right, up and forward axes of the box
+   */
+  export function getAxes(box: ReadonlyOrientedBox): Vector3.MutableVector3[] {
+    return [
+      Vector3.rotate(Vector3.Right(), box.rotation),
+      Vector3.rotate(Vector3.Up(), box.rotation),
+      Vector3.rotate(Vector3.Forward(), box.rotation)
+    ]
+  }
+
+  /**
+   * Gets the 8 corners of the oriented box
+   * @param box - the box
+   * @returns an array with the 8 corners, in the same order as BoundingBox.getCorners
+   */
+  export function getCorners(
+    box: ReadonlyOrientedBox
+  ): Vector3.MutableVector3[] {
+    const [axisX, axisY, axisZ] = getAxes(box)
+    const corners: Vector3.MutableVector3[] = []
+    for (const sz of [-1, 1]) {
+      for (const sy of [-1, 1]) {
+        for (const sx of [-1, 1]) {
+          const ex = sx * box.halfExtents.x
+          const ey = sy * box.halfExtents.y
+          const ez = sz * box.halfExtents.z
+          corners.push(
+            Vector3.create(
+              box.center.x + axisX.x * ex + axisY.x * ey + axisZ.x * ez,
+              box.center.y + axisX.y * ex + axisY.y * ey + axisZ.y * ez,
+              box.center.z + axisX.z * ex + axisY.z * ey + axisZ.z * ez
+            )
+          )
+        }
+      }
+    }
+    return corners
+  }
+
+  /**
+   * Gets the axis aligned bounding box enclosing the oriented box
+   * @param box - the box
+   * @returns the new bounding box
+   */
+  export function toBoundingBox(
+    box: ReadonlyOrientedBox
+  ): BoundingBox.MutableBoundingBox {
+    const [axisX, axisY, axisZ] = getAxes(box)
+    const h = box.halfExtents
+    const extents = Vector3.create(
+      Math.abs(axisX.x) * h.x +
+        Math.abs(axisY.x) * h.y +
+        Math.abs(axisZ.x) * h.z,
+      Math.abs(axisX.y) * h.x +
+        Math.abs(axisY.y) * h.y +
+        Math.abs(axisZ.y) * h.z,
+      Math.abs(axisX.z) * h.x +
+        Math.abs(axisY.z) * h.y +
+        Math.abs(axisZ.z) * h.z
+    )
+    return BoundingBox.fromCenterAndExtents(box.center, extents)
+  }
+
+  /**
+   * Checks if the point is inside the oriented box (boundaries included)
+   * @param box - the box
+   * @param point - the point to check
+   * @returns true if the point is inside the box
+   */
+  export function containsPoint(
+    box: ReadonlyOrientedBox,
+    point: Vector3.ReadonlyVector3
+  ): boolean {
+    const offset = Vector3.subtract(point, box.center)
+    const [axisX, axisY, axisZ] = getAxes(box)
+    return (
+      Math.abs(Vector3.dot(offset, axisX)) <= box.halfExtents.x + Epsilon &&
+      Math.abs(Vector3.dot(offset, axisY)) <= box.halfExtents.y + Epsilon &&
+      Math.abs(Vector3.dot(offset, axisZ)) <= box.halfExtents.z + Epsilon
+    )
+  }
+
+  /**
+   * Gets the point of the oriented box closest to the given point
+   * @param box - the box
+   * @param point - the point to clamp into the box
+   * @returns the new Vector3, equal to the point itself if it is inside the box
+   */
+  export function closestPoint(
+    box: ReadonlyOrientedBox,
+    point: Vector3.ReadonlyVector3
+  ): Vector3.MutableVector3 {
+    const offset = Vector3.subtract(point, box.center)
+    const axes = getAxes(box)
+    const halfExtents = [
+      box.halfExtents.x,
+      box.halfExtents.y,
+      box.halfExtents.z
+    ]
+    const result = Vector3.clone(box.center)
+
+    for (let i = 0; i < 3; i++) {
+      const distance = Math.min(
+        Math.max(Vector3.dot(offset, axes[i]), -halfExtents[i]),
+        halfExtents[i]
+      )
+      result.x += axes[i].x * distance
+      result.y += axes[i].y * distance
+      result.z += axes[i].z * distance
+    }
+
+    return result
+  }
+
+  /**
+   * Checks if the oriented box intersects a bounding sphere
+   * @param box - the box
+   * @param sphere - the sphere
+   * @returns true if the box and the sphere intersect
+   */
+  export function intersectsSphere(
+    box: ReadonlyOrientedBox,
+    sphere: BoundingSphere.ReadonlyBoundingSphere
+  ): boolean {
+    return BoundingSphere.containsPoint(
+      sphere,
+      closestPoint(box, sphere.center)
+    )
+  }
+
+  /**
+   * Checks if the oriented box intersects an axis aligned bounding box
+   * @param box - the oriented box
+   * @param boundingBox - the axis aligned box
+   * @returns true if the boxes intersect
+   */
+  export function intersectsBox(
+    box: ReadonlyOrientedBox,
+    boundingBox: BoundingBox.ReadonlyBoundingBox
+  ): boolean {
+    return intersectsOrientedBox(box, fromBoundingBox(boundingBox))
+  }
+
+  /**
+   * Checks if two oriented boxes intersect, using the separating axis theorem
+   * @param left - the first box
+   * @param right - the second box
+   * @returns true if the boxes intersect
+   */
+  export function intersectsOrientedBox(
+    left: ReadonlyOrientedBox,
+    right: ReadonlyOrientedBox
+  ): boolean {
+    const a = getAxes(left)
+    const b = getAxes(right)
+    const ea = [left.halfExtents.x, left.halfExtents.y, left.halfExtents.z]
+    const eb = [right.halfExtents.x, right.halfExtents.y, right.halfExtents.z]
+
+    // rotation expressing the axes of the right box in the frame of the left one
+    const r: number[][] = [[], [], []]
+    const absR: number[][] = [[], [], []]
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        r[i][j] = Vector3.dot(a[i], b[j])
+        // the epsilon avoids false negatives when two edges are almost parallel
+        absR[i][j] = Math.abs(r[i][j]) + Epsilon
+      }
+    }
+
+    const offset = Vector3.subtract(right.center, left.center)
+    const t = [
+      Vector3.dot(offset, a[0]),
+      Vector3.dot(offset, a[1]),
+      Vector3.dot(offset, a[2])
+    ]
+
+    // axes of the left box
+    for (let i = 0; i < 3; i++) {
+      const ra = ea[i]
+      const rb = eb[0] * absR[i][0] + eb[1] * absR[i][1] + eb[2] * absR[i][2]
+      if (Math.abs(t[i]) > ra + rb) {
+        return false
+      }
+    }
+
+    // axes of the right box
+    for (let j = 0; j < 3; j++) {
+      const ra = ea[0] * absR[0][j] + ea[1] * absR[1][j] + ea[2] * absR[2][j]
+      const rb = eb[j]
+      if (
+        Math.abs(t[0] * r[0][j] + t[1] * r[1][j] + t[2] * r[2][j]) >
+        ra + rb
+      ) {
+        return false
+      }
+    }
+
+    // cross products of each pair of axes
+    for (let i = 0; i < 3; i++) {
+      const i1 = (i + 1) % 3
+      const i2 = (i + 2) % 3
+      for (let j = 0; j < 3; j++) {
+        const j1 = (j + 1) % 3
+        const j2 = (j + 2) % 3
+        const ra = ea[i1] * absR[i2][j] + ea[i2] * absR[i1][j]
+        const rb = eb[j1] * absR[i][j2] + eb[j2] * absR[i][j1]
+        if (Math.abs(t[i2] * r[i1][j] - t[i1] * r[i2][j]) > ra + rb) {
+          return false
+        }
+      }
+    }
+
+    return true
+  }
+}
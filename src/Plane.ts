@@ -6,6 +6,9 @@ import { Matrix } from './Matrix'
  * @public
  */
 export namespace Plane {
+  /**
+   * Mutable plane, its normal and d component can be updated in place
+   */
   export type MutablePlane = {
     /**
      * Normal of the plane (a,b,c)
@@ -17,15 +20,18 @@ export namespace Plane {
     d: number
   }
 
+  /**
+   * Readonly plane, use it to type planes that must not be updated
+   */
   export type ReadonlyPlane = {
     /**
      * Normal of the plane (a,b,c)
      */
-    normal: Vector3.ReadonlyVector3
+    readonly normal: Vector3.ReadonlyVector3
     /**
      * d component of the plane
      */
-    d: number
+    readonly d: number
   }
 
   /**
@@ -35,7 +41,12 @@ export namespace Plane {
    * @param c - c component of the plane
    * @param d - d component of the plane
    */
-  export function create(a: number, b: number, c: number, d: number) {
+  export function create(
+    a: number,
+    b: number,
+    c: number,
+    d: number
+  ): MutablePlane {
     return {
       normal: Vector3.create(a, b, c),
       d: d
@@ -59,36 +70,43 @@ export namespace Plane {
    * @returns a new Plane defined by the three given points.
    */
   export function fromPoints(
-    _point1: Vector3.ReadonlyVector3,
-    _point2: Vector3.ReadonlyVector3,
-    _point3: Vector3.ReadonlyVector3
+    point1: Vector3.ReadonlyVector3,
+    point2: Vector3.ReadonlyVector3,
+    point3: Vector3.ReadonlyVector3
   ): MutablePlane {
-    const result = create(0.0, 0.0, 0.0, 0.0)
-    // TODO
-    // result.copyFromPoints(point1, point2, point3)
-    return result
+    return copyFromPoints(point1, point2, point3)
   }
   /**
    * Creates a plane from an origin point and a normal
    * @param origin - origin of the plane to be constructed
    * @param normal - normal of the plane to be constructed
    * @returns a new Plane the normal vector to this plane at the given origin point.
-   * Note : the vector "normal" is updated because normalized.
+   * Note : the normal of the returned plane is normalized.
    */
-  export function romPositionAndNormal(
+  export function fromPositionAndNormal(
     origin: Vector3.ReadonlyVector3,
     normal: Vector3.ReadonlyVector3
   ): MutablePlane {
     const result = create(0.0, 0.0, 0.0, 0.0)
     result.normal = Vector3.normalize(normal)
-    result.d = -(
-      normal.x * origin.x +
-      normal.y * origin.y +
-      normal.z * origin.z
-    )
+    result.d = -Vector3.dot(result.normal, origin)
     return result
   }
 
+  /**
+   * Creates a plane from an origin point and a normal
+   * This function is deprecated. Use fromPositionAndNormal instead
+   * @param origin - origin of the plane to be constructed
+   * @param normal - normal of the plane to be constructed
+   * @returns a new Plane the normal vector to this plane at the given origin point.
+   */
+  export function romPositionAndNormal(
+    origin: Vector3.ReadonlyVector3,
+    normal: Vector3.ReadonlyVector3
+  ): MutablePlane {
+    return fromPositionAndNormal(origin, normal)
+  }
+
   /**
    * Calculates the distance from a plane and a point
    * @param origin - origin of the plane to be constructed
@@ -123,19 +141,29 @@ export namespace Plane {
   /**
    * @returns the Plane hash code.
    */
-  export function getHashCode(_plane: ReadonlyPlane): number {
-    // TODO
-    // let hash = plane.normal.getHashCode()
-    // hash = (hash * 397) ^ (plane.d || 0)
-    // return hash
-    return 0
+  export function getHashCode(plane: ReadonlyPlane): number {
+    let hash = Vector3.getHashCode(plane.normal)
+    hash = (hash * 397) ^ (plane.d || 0)
+    return hash
   }
   /**
-   * Normalize the current Plane in place.
-   * @returns the updated Plane.
+   * Normalize the current Plane.
+   * @returns a new Plane with a normalized normal and a scaled d component.
    */
   export function normalize(plane: ReadonlyPlane): MutablePlane {
     const result = create(0, 0, 0, 0)
+    normalizeToRef(plane, result)
+    return result
+  }
+
+  /**
+   * Normalize the current Plane and stores the result into "result".
+   * @param result - defines the Plane where to store the result
+   */
+  export function normalizeToRef(
+    plane: ReadonlyPlane,
+    result: MutablePlane
+  ): void {
     const norm = Math.sqrt(
       plane.normal.x * plane.normal.x +
         plane.normal.y * plane.normal.y +
@@ -149,12 +177,12 @@ export namespace Plane {
     result.normal.x = plane.normal.x * magnitude
     result.normal.y = plane.normal.y * magnitude
     result.normal.z = plane.normal.z * magnitude
-    result.d *= magnitude
-    return plane
+    result.d = plane.d * magnitude
   }
   /**
    * Applies a transformation the plane and returns the result
-   * @param transformation - the transformation matrix to be applied to the plane
+   * @param transformation - the transformation matrix to be applied to the plane, it is the inverse transpose
+   * of the matrix that transforms the points, use transformByPointMatrix to pass the latter
    * @returns a new Plane as the result of the transformation of the current Plane by the given matrix.
    */
   export function transform(
@@ -177,6 +205,33 @@ export namespace Plane {
     return create(normalX, normalY, normalZ, finalD)
   }
 
+  /**
+   * Applies the transformation of the points to the plane and returns the result,
+   * the points of the plane transformed by the matrix are on the returned plane
+   * @param transformation - the matrix that transforms the points, it is inverted to transform the plane
+   * @returns a new Plane as the result of the transformation of the current Plane by the given matrix.
+   */
+  export function transformByPointMatrix(
+    plane: ReadonlyPlane,
+    transformation: Matrix.ReadonlyMatrix
+  ): MutablePlane {
+    // planes are transformed by the inverse transpose of the point transformation
+    const invertedMatrix = Matrix.create()
+    Matrix.invertToRef(transformation, invertedMatrix)
+    const m = invertedMatrix._m
+    const x = plane.normal.x
+    const y = plane.normal.y
+    const z = plane.normal.z
+    const d = plane.d
+
+    const normalX = x * m[0] + y * m[1] + z * m[2] + d * m[3]
+    const normalY = x * m[4] + y * m[5] + z * m[6] + d * m[7]
+    const normalZ = x * m[8] + y * m[9] + z * m[10] + d * m[11]
+    const finalD = x * m[12] + y * m[13] + z * m[14] + d * m[15]
+
+    return create(normalX, normalY, normalZ, finalD)
+  }
+
   /**
    * Calcualtte the dot product between the point and the plane normal
    * @param point - point to calculate the dot product with
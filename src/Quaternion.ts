@@ -1,6 +1,6 @@
 import { Vector3 } from './Vector3'
 import { Scalar } from './Scalar'
-import { DEG2RAD, RAD2DEG } from './types'
+import { AngleUnit, DEG2RAD, Epsilon, EulerOrder, RAD2DEG } from './types'
 import { Matrix } from './Matrix'
 
 /**
@@ -625,6 +625,870 @@ export namespace Quaternion {
     Quaternion.fromRotationMatrixToRef(rotMat, ref)
   }
 
+  /**
+   * Returns a new Quaternion set with the conjugate of the given one (-x, -y, -z, w)
+   * @param q - defines the source quaternion
+   * @returns the new quaternion
+   */
+  export function conjugate(q: ReadonlyQuaternion): MutableQuaternion {
+    const result = create()
+    conjugateToRef(q, result)
+    return result
+  }
+
+  /**
+   * Sets the given "result" with the conjugate of the given quaternion (-x, -y, -z, w)
+   * @param q - defines the source quaternion
+   * @param result - defines the target quaternion
+   */
+  export function conjugateToRef(
+    q: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    result.x = -q.x
+    result.y = -q.y
+    result.z = -q.z
+    result.w = q.w
+  }
+
+  /**
+   * Returns a new Quaternion set with the inverse of the given one.
+   * For unit quaternions the inverse is the conjugate, otherwise the conjugate is divided by the squared length.
+   * @param q - defines the source quaternion
+   * @returns the new quaternion, a zero quaternion if the source is zero
+   */
+  export function inverse(q: ReadonlyQuaternion): MutableQuaternion {
+    const result = create()
+    inverseToRef(q, result)
+    return result
+  }
+
+  /**
+   * Sets the given "result" with the inverse of the given quaternion
+   * @param q - defines the source quaternion
+   * @param result - defines the target quaternion, set to zero if the source is zero
+   */
+  export function inverseToRef(
+    q: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    const qLengthSquared = lengthSquared(q)
+    if (qLengthSquared === 0) {
+      result.x = 0
+      result.y = 0
+      result.z = 0
+      result.w = 0
+      return
+    }
+
+    const invLengthSquared = 1.0 / qLengthSquared
+    result.x = -q.x * invLengthSquared
+    result.y = -q.y * invLengthSquared
+    result.z = -q.z * invLengthSquared
+    result.w = q.w * invLengthSquared
+  }
+
+  /**
+   * Extracts the rotation angle and axis of the given quaternion, the inverse of fromAngleAxis
+   * @param q - defines the source quaternion, it does not need to be normalized
+   * @returns the angle in degrees (between 0 and 360) and the normalized axis, the axis is (1, 0, 0) when there is no rotation
+   */
+  export function toAngleAxis(q: ReadonlyQuaternion): {
+    angle: number
+    axis: Vector3.MutableVector3
+  } {
+    const axis = Vector3.Zero()
+    const angle = toAngleAxisToRef(q, axis)
+    return { angle, axis }
+  }
+
+  /**
+   * Extracts the rotation angle and axis of the given quaternion and stores the axis into "axisResult"
+   * @param q - defines the source quaternion, it does not need to be normalized
+   * @param axisResult - defines the Vector3 where to store the normalized axis, (1, 0, 0) when there is no rotation
+   * @returns the angle in degrees (between 0 and 360)
+   */
+  export function toAngleAxisToRef(
+    q: ReadonlyQuaternion,
+    axisResult: Vector3.MutableVector3
+  ): number {
+    const qLength = length(q)
+    if (qLength === 0) {
+      Vector3.copyFromFloats(1, 0, 0, axisResult)
+      return 0
+    }
+
+    const w = Scalar.clamp(q.w / qLength, -1, 1)
+    const sinHalfAngle = Math.sqrt(1 - w * w)
+    if (sinHalfAngle < Epsilon) {
+      Vector3.copyFromFloats(1, 0, 0, axisResult)
+      return 0
+    }
+
+    const invSin = 1.0 / (sinHalfAngle * qLength)
+    Vector3.copyFromFloats(q.x * invSin, q.y * invSin, q.z * invSin, axisResult)
+    return 2 * Math.acos(w) * RAD2DEG
+  }
+
+  /**
+   * Computes the rotation going from one rotation to another, so that multiply(difference(from, to), from) is equal to "to"
+   * @param from - defines the start rotation
+   * @param to - defines the end rotation
+   * @returns the new quaternion
+   */
+  export function difference(
+    from: ReadonlyQuaternion,
+    to: ReadonlyQuaternion
+  ): MutableQuaternion {
+    const result = create()
+    differenceToRef(from, to, result)
+    return result
+  }
+
+  /**
+   * Computes the rotation going from one rotation to another and stores it into "result"
+   * @param from - defines the start rotation
+   * @param to - defines the end rotation
+   * @param result - defines the target quaternion
+   */
+  export function differenceToRef(
+    from: ReadonlyQuaternion,
+    to: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    const inverseFrom = inverse(from)
+    multiplyToRef(to, inverseFrom, result)
+  }
+
+  /**
+   * Returns true if both quaternions represent the same rotation with strictly equal components.
+   * q and -q are considered equal as they represent the same rotation.
+   * @param left - defines the first operand
+   * @param right - defines the second operand
+   * @returns true if both quaternions are equals
+   */
+  export function equals(
+    left: ReadonlyQuaternion,
+    right: ReadonlyQuaternion
+  ): boolean {
+    return (
+      (left.x === right.x &&
+        left.y === right.y &&
+        left.z === right.z &&
+        left.w === right.w) ||
+      (left.x === -right.x &&
+        left.y === -right.y &&
+        left.z === -right.z &&
+        left.w === -right.w)
+    )
+  }
+
+  /**
+   * Returns true if both quaternions components are distant less than epsilon.
+   * q and -q are considered equal as they represent the same rotation.
+   * @param left - defines the first operand
+   * @param right - defines the second operand
+   * @param epsilon - defines the minimal distance to define values as equals
+   * @returns true if both quaternions are distant less than epsilon
+   */
+  export function equalsWithEpsilon(
+    left: ReadonlyQuaternion,
+    right: ReadonlyQuaternion,
+    epsilon: number = Epsilon
+  ): boolean {
+    const sign = dot(left, right) < 0 ? -1 : 1
+    return (
+      Scalar.withinEpsilon(left.x, sign * right.x, epsilon) &&
+      Scalar.withinEpsilon(left.y, sign * right.y, epsilon) &&
+      Scalar.withinEpsilon(left.z, sign * right.z, epsilon) &&
+      Scalar.withinEpsilon(left.w, sign * right.w, epsilon)
+    )
+  }
+
+  /**
+   * Checks if the quaternion is the identity rotation, (0, 0, 0, 1) or (0, 0, 0, -1)
+   * @param q - defines the quaternion to check
+   * @returns true if the quaternion is the identity
+   */
+  export function isIdentity(q: ReadonlyQuaternion): boolean {
+    return q.x === 0 && q.y === 0 && q.z === 0 && (q.w === 1 || q.w === -1)
+  }
+
+  /**
+   * Creates the Quaternion hash code, q and -q have the same hash code
+   * @returns a number which tends to be unique between Quaternion instances
+   */
+  export function getHashCode(q: ReadonlyQuaternion): number {
+    // the first non zero component defines the sign, so q and -q are hashed alike
+    const sign = (q.w || q.x || q.y || q.z) < 0 ? -1 : 1
+    let hash = sign * q.x || 0
+    hash = (hash * 397) ^ (sign * q.y || 0)
+    hash = (hash * 397) ^ (sign * q.z || 0)
+    hash = (hash * 397) ^ (sign * q.w || 0)
+    return hash
+  }
+
+  /**
+   * Creates a new rotation from Euler angles applied in the given order
+   * @param order - defines the order of the rotations, see EulerOrder for intrinsic and extrinsic orders
+   * @param angles - defines the rotation around each axis, x is always the angle around the X axis whatever the order
+   * @param unit - defines the unit of the angles (degrees by default)
+   * @returns the new quaternion
+   */
+  export function fromEuler(
+    order: EulerOrder,
+    angles: Vector3.ReadonlyVector3,
+    unit: AngleUnit = 'degrees'
+  ): MutableQuaternion {
+    const result = Identity()
+    fromEulerToRef(order, angles, unit, result)
+    return result
+  }
+
+  /**
+   * Creates a rotation from Euler angles applied in the given order and stores it in the target quaternion
+   * @param order - defines the order of the rotations, see EulerOrder for intrinsic and extrinsic orders
+   * @param angles - defines the rotation around each axis, x is always the angle around the X axis whatever the order
+   * @param unit - defines the unit of the angles
+   * @param result - defines the target quaternion
+   */
+  export function fromEulerToRef(
+    order: EulerOrder,
+    angles: Vector3.ReadonlyVector3,
+    unit: AngleUnit,
+    result: MutableQuaternion
+  ): void {
+    const factor = unit === 'degrees' ? DEG2RAD : 1
+    const values = [angles.x, angles.y, angles.z]
+    const axisRotation = Zero()
+    let rotation = Identity()
+
+    for (const axis of _intrinsicAxes(order)) {
+      const halfAngle = values[axis] * factor * 0.5
+      axisRotation.x = axis === 0 ? Math.sin(halfAngle) : 0
+      axisRotation.y = axis === 1 ? Math.sin(halfAngle) : 0
+      axisRotation.z = axis === 2 ? Math.sin(halfAngle) : 0
+      axisRotation.w = Math.cos(halfAngle)
+      rotation = multiply(rotation, axisRotation)
+    }
+
+    result.x = rotation.x
+    result.y = rotation.y
+    result.z = rotation.z
+    result.w = rotation.w
+  }
+
+  /**
+   * Gets the Euler angles of the rotation for the given order, the inverse of fromEuler.
+   * The middle rotation is between -90 and 90 degrees and the others between -180 and 180 degrees.
+   * In gimbal lock, when the middle rotation is -90 or 90 degrees, the last rotation is set to 0.
+   * @param q - defines the rotation, it does not need to be normalized
+   * @param order - defines the order of the rotations, see EulerOrder for intrinsic and extrinsic orders
+   * @param unit - defines the unit of the returned angles (degrees by default)
+   * @returns a new Vector3 with the angle around each axis
+   */
+  export function toEuler(
+    q: ReadonlyQuaternion,
+    order: EulerOrder,
+    unit: AngleUnit = 'degrees'
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    toEulerToRef(q, order, unit, result)
+    return result
+  }
+
+  /**
+   * Gets the Euler angles of the rotation for the given order and stores them in "result"
+   * @param q - defines the rotation, it does not need to be normalized
+   * @param order - defines the order of the rotations, see EulerOrder for intrinsic and extrinsic orders
+   * @param unit - defines the unit of the returned angles
+   * @param result - defines the Vector3 where to store the angle around each axis
+   */
+  export function toEulerToRef(
+    q: ReadonlyQuaternion,
+    order: EulerOrder,
+    unit: AngleUnit,
+    result: Vector3.MutableVector3
+  ): void {
+    const n = normalize(q)
+    const xx = n.x * n.x
+    const yy = n.y * n.y
+    const zz = n.z * n.z
+    const xy = n.x * n.y
+    const xz = n.x * n.z
+    const yz = n.y * n.z
+    const xw = n.x * n.w
+    const yw = n.y * n.w
+    const zw = n.z * n.w
+
+    // rotation matrix applied to column vectors, r[row][column]
+    const r = [
+      [1 - 2 * (yy + zz), 2 * (xy - zw), 2 * (xz + yw)],
+      [2 * (xy + zw), 1 - 2 * (xx + zz), 2 * (yz - xw)],
+      [2 * (xz - yw), 2 * (yz + xw), 1 - 2 * (xx + yy)]
+    ]
+
+    // r = R(i, a) * R(j, b) * R(k, c), the sign depends on the parity of the permutation
+    const [i, j, k] = _intrinsicAxes(order)
+    const sign = (j - i + 3) % 3 === 1 ? 1 : -1
+    const cosB = Math.sqrt(r[i][i] * r[i][i] + r[i][j] * r[i][j])
+    const b = Math.atan2(sign * r[i][k], cosB)
+    let a: number
+    let c: number
+    if (cosB > Epsilon) {
+      a = Math.atan2(-sign * r[j][k], r[k][k])
+      c = Math.atan2(-sign * r[i][j], r[i][i])
+    } else {
+      // gimbal lock, the first and last rotations are around the same axis
+      a = Math.atan2(sign * r[k][j], r[j][j])
+      c = 0
+    }
+
+    const factor = unit === 'degrees' ? RAD2DEG : 1
+    const values = [0, 0, 0]
+    values[i] = a * factor
+    values[j] = b * factor
+    values[k] = c * factor
+    Vector3.copyFromFloats(values[0], values[1], values[2], result)
+  }
+
+  /** @internal */
+  function _intrinsicAxes(order: EulerOrder): number[] {
+    const axes = order
+      .toUpperCase()
+      .split('')
+      .map(($) => $.charCodeAt(0) - 88)
+    // an extrinsic order is the reversed intrinsic one
+    return order === order.toUpperCase() ? axes : axes.reverse()
+  }
+
+  /**
+   * Interpolates between two quaternions with a spherical cubic interpolation (squad), using control points computed by computeSquadControlPoints
+   * @param q1 - defines the start rotation
+   * @param q2 - defines the end rotation
+   * @param control1 - defines the control point of the start rotation
+   * @param control2 - defines the control point of the end rotation
+   * @param amount - defines the gradient to use
+   * @returns the new interpolated quaternion
+   */
+  export function squad(
+    q1: ReadonlyQuaternion,
+    q2: ReadonlyQuaternion,
+    control1: ReadonlyQuaternion,
+    control2: ReadonlyQuaternion,
+    amount: number
+  ): MutableQuaternion {
+    const result = Identity()
+    squadToRef(q1, q2, control1, control2, amount, result)
+    return result
+  }
+
+  /**
+   * Interpolates between two quaternions with a spherical cubic interpolation (squad) and stores it into a target quaternion
+   * @param q1 - defines the start rotation
+   * @param q2 - defines the end rotation
+   * @param control1 - defines the control point of the start rotation
+   * @param control2 - defines the control point of the end rotation
+   * @param amount - defines the gradient to use
+   * @param result - defines the target quaternion
+   */
+  export function squadToRef(
+    q1: ReadonlyQuaternion,
+    q2: ReadonlyQuaternion,
+    control1: ReadonlyQuaternion,
+    control2: ReadonlyQuaternion,
+    amount: number,
+    result: MutableQuaternion
+  ): void {
+    // unlike slerp, the inner interpolations don't switch to the shortest path:
+    // the control points can be in the other hemisphere when the tangents are large
+    const rotation = create()
+    const control = create()
+    _slerpOnArcToRef(q1, q2, amount, rotation)
+    _slerpOnArcToRef(control1, control2, amount, control)
+    _slerpOnArcToRef(rotation, control, 2 * amount * (1 - amount), result)
+  }
+
+  /** @internal */
+  function _slerpOnArcToRef(
+    left: ReadonlyQuaternion,
+    right: ReadonlyQuaternion,
+    amount: number,
+    result: MutableQuaternion
+  ): void {
+    const cosAngle = Scalar.clamp(dot(left, right), -1, 1)
+    const angle = Math.acos(cosAngle)
+    const sinAngle = Math.sin(angle)
+    let leftWeight = 1 - amount
+    let rightWeight = amount
+    if (sinAngle > Epsilon) {
+      leftWeight = Math.sin((1 - amount) * angle) / sinAngle
+      rightWeight = Math.sin(amount * angle) / sinAngle
+    }
+    result.x = leftWeight * left.x + rightWeight * right.x
+    result.y = leftWeight * left.y + rightWeight * right.y
+    result.z = leftWeight * left.z + rightWeight * right.z
+    result.w = leftWeight * left.w + rightWeight * right.w
+  }
+
+  /**
+   * Computes the squad control points of a sequence of rotations, so that squad(keys[i], keys[i + 1], controls[i], controls[i + 1], amount) is C1-continuous at each key.
+   * The rotations are expected to be evenly spaced in time, the control points of the first and last keys are the keys themselves.
+   * @param keys - defines the sequence of normalized rotations
+   * @returns a new array with the control point of each key
+   */
+  export function computeSquadControlPoints(
+    keys: ReadonlyQuaternion[]
+  ): MutableQuaternion[] {
+    return keys.map((key, index) => {
+      if (index === 0 || index === keys.length - 1) {
+        return create(key.x, key.y, key.z, key.w)
+      }
+      const toPrevious = logOfDifference(key, keys[index - 1])
+      const toNext = logOfDifference(key, keys[index + 1])
+      return multiplyByExp(
+        key,
+        create(
+          -(toPrevious.x + toNext.x) * 0.25,
+          -(toPrevious.y + toNext.y) * 0.25,
+          -(toPrevious.z + toNext.z) * 0.25,
+          0
+        )
+      )
+    })
+  }
+
+  /**
+   * Returns the logarithm of the rotation going from "from" to "to" in the local frame of "from", taking the shortest path.
+   * It is the tangent used by the squad control points: multiplyByExp(from, logOfDifference(from, to)) is equal to "to" up to its sign.
+   * @param from - defines the start rotation, normalized
+   * @param to - defines the end rotation, normalized
+   * @returns the new pure quaternion (axis * halfAngle, 0), with halfAngle in radians and at most PI / 2
+   */
+  export function logOfDifference(
+    from: ReadonlyQuaternion,
+    to: ReadonlyQuaternion
+  ): MutableQuaternion {
+    const result = create()
+    logOfDifferenceToRef(from, to, result)
+    return result
+  }
+
+  /**
+   * Sets the given "result" with the logarithm of the rotation going from "from" to "to" in the local frame of "from", taking the shortest path
+   * @param from - defines the start rotation, normalized
+   * @param to - defines the end rotation, normalized
+   * @param result - defines the target quaternion
+   */
+  export function logOfDifferenceToRef(
+    from: ReadonlyQuaternion,
+    to: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    const delta = multiply(conjugate(from), to)
+    if (delta.w < 0) {
+      delta.x = -delta.x
+      delta.y = -delta.y
+      delta.z = -delta.z
+      delta.w = -delta.w
+    }
+    logToRef(delta, result)
+  }
+
+  /**
+   * Returns the rotation multiplied by the exponential of the given tangent, the inverse of logOfDifference.
+   * The tangent is applied in the local frame of the rotation.
+   * @param rotation - defines the start rotation
+   * @param tangent - defines the pure quaternion (axis * halfAngle, 0) to apply, like the result of log
+   * @returns the new quaternion
+   */
+  export function multiplyByExp(
+    rotation: ReadonlyQuaternion,
+    tangent: ReadonlyQuaternion
+  ): MutableQuaternion {
+    const result = create()
+    multiplyByExpToRef(rotation, tangent, result)
+    return result
+  }
+
+  /**
+   * Sets the given "result" with the rotation multiplied by the exponential of the given tangent
+   * @param rotation - defines the start rotation
+   * @param tangent - defines the pure quaternion (axis * halfAngle, 0) to apply, like the result of log
+   * @param result - defines the target quaternion
+   */
+  export function multiplyByExpToRef(
+    rotation: ReadonlyQuaternion,
+    tangent: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    const product = multiply(rotation, exp(tangent))
+    result.x = product.x
+    result.y = product.y
+    result.z = product.z
+    result.w = product.w
+  }
+
+  /**
+   * Returns the natural logarithm of the given quaternion.
+   * For a unit quaternion the result is the pure quaternion (axis * halfAngle, 0), with halfAngle in radians.
+   * @param q - defines the source quaternion
+   * @returns the new quaternion
+   */
+  export function log(q: ReadonlyQuaternion): MutableQuaternion {
+    const result = create()
+    logToRef(q, result)
+    return result
+  }
+
+  /**
+   * Sets the given "result" with the natural logarithm of the given quaternion
+   * @param q - defines the source quaternion
+   * @param result - defines the target quaternion
+   */
+  export function logToRef(
+    q: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    const { x, y, z, w } = q
+    const vectorLength = Math.sqrt(x * x + y * y + z * z)
+    result.w = Math.log(Math.sqrt(vectorLength * vectorLength + w * w))
+    if (vectorLength === 0) {
+      // a negative real quaternion is a full turn around any axis
+      result.x = w < 0 ? Math.PI : 0
+      result.y = 0
+      result.z = 0
+      return
+    }
+
+    const scale = Math.atan2(vectorLength, w) / vectorLength
+    result.x = x * scale
+    result.y = y * scale
+    result.z = z * scale
+  }
+
+  /**
+   * Returns the exponential of the given quaternion, the inverse of log
+   * @param q - defines the source quaternion
+   * @returns the new quaternion
+   */
+  export function exp(q: ReadonlyQuaternion): MutableQuaternion {
+    const result = create()
+    expToRef(q, result)
+    return result
+  }
+
+  /**
+   * Sets the given "result" with the exponential of the given quaternion
+   * @param q - defines the source quaternion
+   * @param result - defines the target quaternion
+   */
+  export function expToRef(
+    q: ReadonlyQuaternion,
+    result: MutableQuaternion
+  ): void {
+    const vectorLength = Math.sqrt(q.x * q.x + q.y * q.y + q.z * q.z)
+    const expW = Math.exp(q.w)
+    const scale =
+      vectorLength < Epsilon
+        ? expW
+        : (expW * Math.sin(vectorLength)) / vectorLength
+
+    result.x = q.x * scale
+    result.y = q.y * scale
+    result.z = q.z * scale
+    result.w = expW * Math.cos(vectorLength)
+  }
+
+  /**
+   * Raises the given quaternion to the given power, exp(exponent * log(q)).
+   * For a unit quaternion the result is the same rotation axis with the angle multiplied by the exponent,
+   * note that q and -q give different results as they go around the axis in opposite directions.
+   * @param q - defines the source quaternion
+   * @param exponent - defines the power
+   * @returns the new quaternion
+   */
+  export function pow(
+    q: ReadonlyQuaternion,
+    exponent: number
+  ): MutableQuaternion {
+    const result = create()
+    powToRef(q, exponent, result)
+    return result
+  }
+
+  /**
+   * Sets the given "result" with the given quaternion raised to the given power
+   * @param q - defines the source quaternion
+   * @param exponent - defines the power
+   * @param result - defines the target quaternion
+   */
+  export function powToRef(
+    q: ReadonlyQuaternion,
+    exponent: number,
+    result: MutableQuaternion
+  ): void {
+    logToRef(q, result)
+    result.x *= exponent
+    result.y *= exponent
+    result.z *= exponent
+    result.w *= exponent
+    expToRef(result, result)
+  }
+
+  /**
+   * Creates the rotation done when rotating at the given angular velocity during the given time
+   * @param angularVelocity - defines the rotation axis scaled by the speed, in radians per second
+   * @param deltaTime - defines the duration, in seconds
+   * @returns the new quaternion
+   */
+  export function fromAngularVelocity(
+    angularVelocity: Vector3.ReadonlyVector3,
+    deltaTime: number
+  ): MutableQuaternion {
+    const result = create()
+    fromAngularVelocityToRef(angularVelocity, deltaTime, result)
+    return result
+  }
+
+  /**
+   * Creates the rotation done when rotating at the given angular velocity during the given time and stores it into "result"
+   * @param angularVelocity - defines the rotation axis scaled by the speed, in radians per second
+   * @param deltaTime - defines the duration, in seconds
+   * @param result - defines the target quaternion
+   */
+  export function fromAngularVelocityToRef(
+    angularVelocity: Vector3.ReadonlyVector3,
+    deltaTime: number,
+    result: MutableQuaternion
+  ): void {
+    const halfTime = deltaTime * 0.5
+    result.x = angularVelocity.x * halfTime
+    result.y = angularVelocity.y * halfTime
+    result.z = angularVelocity.z * halfTime
+    result.w = 0
+    expToRef(result, result)
+  }
+
+  /**
+   * Computes the angular velocity going from one rotation to another in the given time, taking the shortest path.
+   * Integrating it, multiply(fromAngularVelocity(velocity, deltaTime), from) is equal to "to".
+   * @param from - defines the start rotation
+   * @param to - defines the end rotation
+   * @param deltaTime - defines the duration, in seconds
+   * @returns a new Vector3 with the rotation axis scaled by the speed, in radians per second
+   */
+  export function toAngularVelocity(
+    from: ReadonlyQuaternion,
+    to: ReadonlyQuaternion,
+    deltaTime: number
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    toAngularVelocityToRef(from, to, deltaTime, result)
+    return result
+  }
+
+  /**
+   * Computes the angular velocity going from one rotation to another in the given time and stores it into "result"
+   * @param from - defines the start rotation
+   * @param to - defines the end rotation
+   * @param deltaTime - defines the duration, in seconds
+   * @param result - defines the Vector3 where to store the rotation axis scaled by the speed, in radians per second
+   */
+  export function toAngularVelocityToRef(
+    from: ReadonlyQuaternion,
+    to: ReadonlyQuaternion,
+    deltaTime: number,
+    result: Vector3.MutableVector3
+  ): void {
+    if (deltaTime === 0) {
+      Vector3.copyFromFloats(0, 0, 0, result)
+      return
+    }
+
+    const delta = difference(normalize(from), normalize(to))
+    if (delta.w < 0) {
+      delta.x = -delta.x
+      delta.y = -delta.y
+      delta.z = -delta.z
+      delta.w = -delta.w
+    }
+    logToRef(delta, delta)
+    const scale = 2 / deltaTime
+    Vector3.copyFromFloats(
+      delta.x * scale,
+      delta.y * scale,
+      delta.z * scale,
+      result
+    )
+  }
+
+  /**
+   * Splits a rotation into a twist around the given axis and the remaining swing, so that multiply(swing, twist) is equal to the normalized rotation.
+   * The swing rotates the axis to its final direction and has no component around it.
+   * @param q - defines the rotation to split
+   * @param axis - defines the twist axis, it does not need to be normalized
+   * @returns the normalized swing and twist rotations, the twist is the identity when the axis is zero
+   */
+  export function swingTwistDecomposition(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3
+  ): { swing: MutableQuaternion; twist: MutableQuaternion } {
+    const swing = Identity()
+    const twist = Identity()
+    swingTwistDecompositionToRef(q, axis, swing, twist)
+    return { swing, twist }
+  }
+
+  /**
+   * Splits a rotation into a twist around the given axis and the remaining swing, and stores them into "swingResult" and "twistResult"
+   * @param q - defines the rotation to split
+   * @param axis - defines the twist axis, it does not need to be normalized
+   * @param swingResult - defines the quaternion where to store the swing
+   * @param twistResult - defines the quaternion where to store the twist
+   */
+  export function swingTwistDecompositionToRef(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3,
+    swingResult: MutableQuaternion,
+    twistResult: MutableQuaternion
+  ): void {
+    const rotation = normalize(q)
+    const twist = Identity()
+    if (Vector3.lengthSquared(axis) !== 0) {
+      const direction = Vector3.normalize(axis)
+      const projection =
+        rotation.x * direction.x +
+        rotation.y * direction.y +
+        rotation.z * direction.z
+      const twistLength = Math.sqrt(
+        projection * projection + rotation.w * rotation.w
+      )
+      // a half turn swing leaves the twist undefined, keep the identity
+      if (twistLength >= Epsilon) {
+        twist.x = (direction.x * projection) / twistLength
+        twist.y = (direction.y * projection) / twistLength
+        twist.z = (direction.z * projection) / twistLength
+        twist.w = rotation.w / twistLength
+      }
+    }
+
+    multiplyToRef(rotation, conjugate(twist), swingResult)
+    twistResult.x = twist.x
+    twistResult.y = twist.y
+    twistResult.z = twist.z
+    twistResult.w = twist.w
+  }
+
+  /**
+   * Limits the twist of a rotation around the given axis, keeping its swing
+   * @param q - defines the rotation to clamp
+   * @param axis - defines the twist axis, it does not need to be normalized
+   * @param minAngle - defines the minimum twist angle in degrees, between -180 and 180
+   * @param maxAngle - defines the maximum twist angle in degrees, between -180 and 180
+   * @returns the new normalized quaternion
+   */
+  export function clampTwist(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3,
+    minAngle: number,
+    maxAngle: number
+  ): MutableQuaternion {
+    const result = Identity()
+    clampTwistToRef(q, axis, minAngle, maxAngle, result)
+    return result
+  }
+
+  /**
+   * Limits the twist of a rotation around the given axis, keeping its swing, and stores it into "result"
+   * @param q - defines the rotation to clamp
+   * @param axis - defines the twist axis, it does not need to be normalized
+   * @param minAngle - defines the minimum twist angle in degrees, between -180 and 180
+   * @param maxAngle - defines the maximum twist angle in degrees, between -180 and 180
+   * @param result - defines the target quaternion
+   */
+  export function clampTwistToRef(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3,
+    minAngle: number,
+    maxAngle: number,
+    result: MutableQuaternion
+  ): void {
+    const swing = Identity()
+    const twist = Identity()
+    swingTwistDecompositionToRef(q, axis, swing, twist)
+
+    // the twist angle is positive when its vector part goes along the axis
+    const sign =
+      twist.x * axis.x + twist.y * axis.y + twist.z * axis.z < 0 ? -1 : 1
+    let twistAngle = sign * angle(twist, Identity())
+    if (twist.w < 0) {
+      twistAngle = sign * 360 - twistAngle
+    }
+    if (twistAngle > 180) {
+      twistAngle -= 360
+    } else if (twistAngle <= -180) {
+      twistAngle += 360
+    }
+
+    const clampedTwist = fromAngleAxis(
+      Scalar.clamp(twistAngle, minAngle, maxAngle),
+      axis
+    )
+    multiplyToRef(swing, clampedTwist, result)
+  }
+
+  /**
+   * Limits the swing of a rotation to a cone around the given axis, keeping its twist
+   * @param q - defines the rotation to clamp
+   * @param axis - defines the axis of the cone, it does not need to be normalized
+   * @param maxAngle - defines the half aperture of the cone in degrees
+   * @returns the new normalized quaternion
+   */
+  export function clampSwingCone(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3,
+    maxAngle: number
+  ): MutableQuaternion {
+    const result = Identity()
+    clampSwingConeToRef(q, axis, maxAngle, result)
+    return result
+  }
+
+  /**
+   * Limits the swing of a rotation to a cone around the given axis, keeping its twist, and stores it into "result"
+   * @param q - defines the rotation to clamp
+   * @param axis - defines the axis of the cone, it does not need to be normalized
+   * @param maxAngle - defines the half aperture of the cone in degrees
+   * @param result - defines the target quaternion
+   */
+  export function clampSwingConeToRef(
+    q: ReadonlyQuaternion,
+    axis: Vector3.ReadonlyVector3,
+    maxAngle: number,
+    result: MutableQuaternion
+  ): void {
+    const swing = Identity()
+    const twist = Identity()
+    swingTwistDecompositionToRef(q, axis, swing, twist)
+
+    if (angle(swing, Identity()) > maxAngle) {
+      // take the shortest path so that the extracted axis matches the swing angle
+      if (swing.w < 0) {
+        swing.x = -swing.x
+        swing.y = -swing.y
+        swing.z = -swing.z
+        swing.w = -swing.w
+      }
+      const swingAxis = Vector3.Zero()
+      toAngleAxisToRef(swing, swingAxis)
+      const clampedSwing = fromAngleAxis(maxAngle, swingAxis)
+      multiplyToRef(clampedSwing, twist, result)
+    } else {
+      multiplyToRef(swing, twist, result)
+    }
+  }
+
   /**
    * Returns a zero filled quaternion
    */
@@ -0,0 +1,410 @@
+import { Epsilon } from './types'
+import { Vector3 } from './Vector3'
+import { Matrix } from './Matrix'
+import { Plane } from './Plane'
+
+/**
+ * @public
+ * Ray is a type and a namespace.
+ * - The namespace contains all types and functions to operates with Ray
+ * - The type Ray is an alias to Ray.ReadonlyRay
+ * ```
+ *
+ * // Namespace usage example
+ * const ray = Ray.fromPoints(cameraPosition, pointerWorldPosition)
+ * const distance = Ray.intersectsPlane(ray, groundPlane)
+ *
+ * // Type usage example
+ * const readonlyRay: Ray = Ray.create(Vector3.Zero(), Vector3.Forward())
+ * readonlyRay.length = 10 // this FAILS
+ *
+ * // For mutable usage, use `Ray.Mutable`
+ * const ray: Ray.Mutable = Ray.create(Vector3.Zero(), Vector3.Forward())
+ * ray.length = 10 // this WORKS
+ * ```
+ */
+export type Ray = Ray.ReadonlyRay
+
+/**
+ * @public
+ * Ray is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with Ray
+ * const ray = Ray.fromPoints(cameraPosition, pointerWorldPosition)
+ * // The type Ray is an alias to Ray.ReadonlyRay
+ * const readonlyRay: Ray = Ray.create(Vector3.Zero(), Vector3.Forward())
+ * readonlyRay.length = 10 // this FAILS
+ *
+ * // For mutable usage, use `Ray.Mutable`
+ * const ray: Ray.Mutable = Ray.create(Vector3.Zero(), Vector3.Forward())
+ * ray.length = 10 // this WORKS
+ * ```
+ */
+export namespace Ray {
+  /**
+   * @public
+   * For external use, type with `Ray`, e.g. `const ray: Ray = Ray.create(origin, direction)`.
+   * For mutable typing, use `Ray.Mutable`, e.g. `const ray: Ray.Mutable = Ray.create(origin, direction)`.
+   */
+  export type ReadonlyRay = {
+    readonly origin: Vector3.ReadonlyVector3
+    readonly direction: Vector3.ReadonlyVector3
+    readonly length: number
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Ray`, e.g. `const ray: Ray = Ray.create(origin, direction)`.
+   * For mutable typing, use `Ray.Mutable`, e.g. `const ray: Ray.Mutable = Ray.create(origin, direction)`.
+   */
+  export type MutableRay = {
+    origin: Vector3.MutableVector3
+    direction: Vector3.MutableVector3
+    length: number
+  }
+
+  /**
+   * @public
+   * Type with `Ray` for readonly usage, e.g. `const ray: Ray = Ray.create(origin, direction)`.
+   * For mutable, use `Ray.Mutable`, e.g. `const ray: Ray.Mutable = Ray.create(origin, direction)`.
+   */
+  export type Mutable = MutableRay
+
+  /**
+   * @public
+   * Result of a ray-triangle intersection
+   * - bu and bv are the barycentric coordinates of the hit point relative to the second and third vertices
+   * - distance is the distance from the ray origin to the hit point
+   */
+  export type IntersectionInfo = {
+    bu: number
+    bv: number
+    distance: number
+  }
+
+  /**
+   * Creates a new ray
+   * @param origin - origin point
+   * @param direction - direction, it is expected to be normalized
+   * @param length - length of the ray
+   * @returns the new ray
+   */
+  export function create(
+    origin: Vector3.ReadonlyVector3,
+    direction: Vector3.ReadonlyVector3,
+    length: number = Number.MAX_VALUE
+  ): MutableRay {
+    return {
+      origin: Vector3.clone(origin),
+      direction: Vector3.clone(direction),
+      length
+    }
+  }
+
+  /**
+   * Creates a new ray going from the start point to the end point, its length is the distance between both points
+   * @param start - the point where the ray starts
+   * @param end - the point where the ray ends
+   * @returns the new ray
+   */
+  export function fromPoints(
+    start: Vector3.ReadonlyVector3,
+    end: Vector3.ReadonlyVector3
+  ): MutableRay {
+    const result = create(Vector3.Zero(), Vector3.Zero())
+    fromPointsToRef(start, end, result)
+    return result
+  }
+
+  /**
+   * Updates the given ray to go from the start point to the end point
+   * @param start - the point where the ray starts
+   * @param end - the point where the ray ends
+   * @param result - the ray where to store the result
+   */
+  export function fromPointsToRef(
+    start: Vector3.ReadonlyVector3,
+    end: Vector3.ReadonlyVector3,
+    result: MutableRay
+  ): void {
+    Vector3.copyFrom(start, result.origin)
+    Vector3.subtractToRef(end, start, result.direction)
+    result.length = Vector3.length(result.direction)
+    Vector3.normalizeFromLengthToRef(
+      result.direction,
+      result.length,
+      result.direction
+    )
+  }
+
+  /**
+   * Copies the given ray into a new one
+   * @param ray - the ray to clone
+   * @returns the new ray
+   */
+  export function clone(ray: ReadonlyRay): MutableRay {
+    return create(ray.origin, ray.direction, ray.length)
+  }
+
+  /**
+   * Transforms a ray by a matrix
+   * @param ray - the ray to transform
+   * @param matrix - the transformation matrix to apply
+   * @returns a new ray transformed by the given matrix
+   */
+  export function transform(
+    ray: ReadonlyRay,
+    matrix: Matrix.ReadonlyMatrix
+  ): MutableRay {
+    const result = create(Vector3.Zero(), Vector3.Zero())
+    transformToRef(ray, matrix, result)
+    return result
+  }
+
+  /**
+   * Transforms a ray by a matrix and stores the result in "result".
+   * The direction is normalized again and the length is scaled to keep the end point of the ray in place.
+   * @param ray - the ray to transform
+   * @param matrix - the transformation matrix to apply
+   * @param result - the ray where to store the result
+   */
+  export function transformToRef(
+    ray: ReadonlyRay,
+    matrix: Matrix.ReadonlyMatrix,
+    result: MutableRay
+  ): void {
+    const length = ray.length
+    Vector3.transformCoordinatesToRef(ray.origin, matrix, result.origin)
+    Vector3.transformNormalToRef(ray.direction, matrix, result.direction)
+
+    const directionLength = Vector3.length(result.direction)
+    result.length = length * directionLength
+    Vector3.normalizeFromLengthToRef(
+      result.direction,
+      directionLength,
+      result.direction
+    )
+  }
+
+  /**
+   * Gets the point along the ray at the given distance from its origin
+   * @param ray - the ray
+   * @param distance - distance from the origin of the ray
+   * @returns the new Vector3
+   */
+  export function getPoint(
+    ray: ReadonlyRay,
+    distance: number
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    getPointToRef(ray, distance, result)
+    return result
+  }
+
+  /**
+   * Gets the point along the ray at the given distance from its origin and stores it in "result"
+   * @param ray - the ray
+   * @param distance - distance from the origin of the ray
+   * @param result - the vector where to store the point
+   */
+  export function getPointToRef(
+    ray: ReadonlyRay,
+    distance: number,
+    result: Vector3.MutableVector3
+  ): void {
+    result.x = ray.origin.x + ray.direction.x * distance
+    result.y = ray.origin.y + ray.direction.y * distance
+    result.z = ray.origin.z + ray.direction.z * distance
+  }
+
+  /**
+   * Gets the point of the ray segment (from origin to origin + direction * length) closest to the given point
+   * @param ray - the ray
+   * @param point - the point to project on the ray
+   * @returns the new Vector3
+   */
+  export function closestPointTo(
+    ray: ReadonlyRay,
+    point: Vector3.ReadonlyVector3
+  ): Vector3.MutableVector3 {
+    const result = Vector3.Zero()
+    closestPointToToRef(ray, point, result)
+    return result
+  }
+
+  /**
+   * Gets the point of the ray segment (from origin to origin + direction * length) closest to the given point and stores it in "result"
+   * @param ray - the ray
+   * @param point - the point to project on the ray
+   * @param result - the vector where to store the closest point
+   */
+  export function closestPointToToRef(
+    ray: ReadonlyRay,
+    point: Vector3.ReadonlyVector3,
+    result: Vector3.MutableVector3
+  ): void {
+    const distance =
+      (point.x - ray.origin.x) * ray.direction.x +
+      (point.y - ray.origin.y) * ray.direction.y +
+      (point.z - ray.origin.z) * ray.direction.z
+    getPointToRef(ray, Math.min(Math.max(distance, 0), ray.length), result)
+  }
+
+  /**
+   * Checks if the ray intersects a plane
+   * @param ray - the ray
+   * @param plane - the plane to check
+   * @returns the distance from the ray origin to the intersection point, or null if there is no intersection
+   */
+  export function intersectsPlane(
+    ray: ReadonlyRay,
+    plane: Plane.ReadonlyPlane
+  ): number | null {
+    const vdot = Vector3.dot(plane.normal, ray.direction)
+    if (Math.abs(vdot) < Epsilon) {
+      return null
+    }
+
+    const pdot = Vector3.dot(plane.normal, ray.origin)
+    const distance = (-plane.d - pdot) / vdot
+    if (distance < 0) {
+      return distance < -Epsilon ? null : 0
+    }
+
+    return distance > ray.length ? null : distance
+  }
+
+  /**
+   * Checks if the ray intersects an axis aligned box defined by its minimum and maximum points
+   * @param ray - the ray
+   * @param minimum - the minimum point of the box
+   * @param maximum - the maximum point of the box
+   * @returns the distance from the ray origin to the entry point (0 if the origin is inside the box), or null if there is no intersection
+   */
+  export function intersectsBox(
+    ray: ReadonlyRay,
+    minimum: Vector3.ReadonlyVector3,
+    maximum: Vector3.ReadonlyVector3
+  ): number | null {
+    let near = 0
+    let far = ray.length
+
+    const origin = [ray.origin.x, ray.origin.y, ray.origin.z]
+    const direction = [ray.direction.x, ray.direction.y, ray.direction.z]
+    const min = [minimum.x, minimum.y, minimum.z]
+    const max = [maximum.x, maximum.y, maximum.z]
+
+    for (let axis = 0; axis < 3; axis++) {
+      if (Math.abs(direction[axis]) < Epsilon) {
+        // parallel to the slab, the origin must lie between both planes
+        if (origin[axis] < min[axis] || origin[axis] > max[axis]) {
+          return null
+        }
+        continue
+      }
+
+      const inv = 1.0 / direction[axis]
+      let t1 = (min[axis] - origin[axis]) * inv
+      let t2 = (max[axis] - origin[axis]) * inv
+      if (t1 > t2) {
+        const temp = t1
+        t1 = t2
+        t2 = temp
+      }
+
+      near = Math.max(near, t1)
+      far = Math.min(far, t2)
+      if (near > far) {
+        return null
+      }
+    }
+
+    return near
+  }
+
+  /**
+   * Checks if the ray intersects a sphere
+   * @param ray - the ray
+   * @param center - the center of the sphere
+   * @param radius - the radius of the sphere
+   * @returns the distance from the ray origin to the entry point (0 if the origin is inside the sphere), or null if there is no intersection
+   */
+  export function intersectsSphere(
+    ray: ReadonlyRay,
+    center: Vector3.ReadonlyVector3,
+    radius: number
+  ): number | null {
+    const x = center.x - ray.origin.x
+    const y = center.y - ray.origin.y
+    const z = center.z - ray.origin.z
+    const pyth = x * x + y * y + z * z
+    const radiusSquared = radius * radius
+
+    if (pyth <= radiusSquared) {
+      return 0
+    }
+
+    const dot = x * ray.direction.x + y * ray.direction.y + z * ray.direction.z
+    if (dot < 0.0) {
+      return null
+    }
+
+    const discriminant = radiusSquared - (pyth - dot * dot)
+    if (discriminant < 0) {
+      return null
+    }
+
+    const distance = dot - Math.sqrt(discriminant)
+    return distance > ray.length ? null : distance
+  }
+
+  /**
+   * Checks if the ray intersects a triangle, using the Möller–Trumbore algorithm.
+   * Both faces of the triangle are considered.
+   * @param ray - the ray
+   * @param vertex0 - the first vertex of the triangle
+   * @param vertex1 - the second vertex of the triangle
+   * @param vertex2 - the third vertex of the triangle
+   * @returns the barycentric coordinates and distance of the hit point, or null if there is no intersection
+   */
+  export function intersectsTriangle(
+    ray: ReadonlyRay,
+    vertex0: Vector3.ReadonlyVector3,
+    vertex1: Vector3.ReadonlyVector3,
+    vertex2: Vector3.ReadonlyVector3
+  ): IntersectionInfo | null {
+    const edge1 = Vector3.subtract(vertex1, vertex0)
+    const edge2 = Vector3.subtract(vertex2, vertex0)
+    const pvec = Vector3.cross(ray.direction, edge2)
+    const det = Vector3.dot(edge1, pvec)
+
+    // the determinant grows with the edges, the tolerance is scaled to keep small triangles
+    if (
+      Math.abs(det) <
+      Epsilon * Vector3.length(edge1) * Vector3.length(edge2)
+    ) {
+      return null
+    }
+
+    const invdet = 1 / det
+    const tvec = Vector3.subtract(ray.origin, vertex0)
+
+    const bu = Vector3.dot(tvec, pvec) * invdet
+    if (bu < 0 || bu > 1.0) {
+      return null
+    }
+
+    const qvec = Vector3.cross(tvec, edge1)
+    const bv = Vector3.dot(ray.direction, qvec) * invdet
+    if (bv < 0 || bu + bv > 1.0) {
+      return null
+    }
+
+    const distance = Vector3.dot(edge2, qvec) * invdet
+    if (distance < 0 || distance > ray.length) {
+      return null
+    }
+
+    return { bu, bv, distance }
+  }
+}
@@ -0,0 +1,256 @@
+import { Quaternion } from './Quaternion'
+
+/**
+ * @public
+ * RotationSpline is a type and a namespace.
+ * - The namespace contains all types and functions to create and evaluate rotation splines
+ * - The type RotationSpline is an alias to RotationSpline.ReadonlyRotationSpline
+ * ```
+ *
+ * // Namespace usage example
+ * const spline = RotationSpline.create([
+ *   { time: 0, rotation: Quaternion.Identity() },
+ *   { time: 2, rotation: Quaternion.fromEulerDegrees(0, 90, 0) },
+ *   { time: 3, rotation: Quaternion.fromEulerDegrees(45, 90, 0) }
+ * ])
+ * const cameraRotation = RotationSpline.evaluate(spline, elapsedTime)
+ * ```
+ */
+export type RotationSpline = RotationSpline.ReadonlyRotationSpline
+
+/**
+ * @public
+ * RotationSpline is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to create and evaluate rotation splines
+ * const spline = RotationSpline.create(keys)
+ * const cameraRotation = RotationSpline.evaluate(spline, elapsedTime)
+ * ```
+ */
+export namespace RotationSpline {
+  /**
+   * @public
+   * A rotation of the spline at a given time
+   */
+  export type Key = {
+    readonly time: number
+    readonly rotation: Quaternion.ReadonlyQuaternion
+  }
+
+  /**
+   * @public
+   * A spline built by RotationSpline.create, it must not be modified once created
+   */
+  export type ReadonlyRotationSpline = {
+    /** The times of the keys, sorted in ascending order */
+    readonly times: readonly number[]
+    /** The normalized rotations of the keys, in the same hemisphere as the previous one */
+    readonly rotations: readonly Quaternion.ReadonlyQuaternion[]
+    /** The squad control points used when leaving each key */
+    readonly outgoing: readonly Quaternion.ReadonlyQuaternion[]
+    /** The squad control points used when reaching each key */
+    readonly incoming: readonly Quaternion.ReadonlyQuaternion[]
+  }
+
+  /**
+   * Creates a spline going through all the given keys.
+   * The orientation is C1-continuous: the angular velocity is preserved at each key, even when the keys are not evenly spaced in time.
+   * When the durations of the segments around a key are very different, the angular velocity at this key is reduced
+   * so that the control points stay less than a half turn away from it.
+   * @param keys - the rotations of the spline with their times, they do not need to be sorted
+   * @returns the new spline
+   */
+  export function create(keys: Key[]): ReadonlyRotationSpline {
+    const sorted = keys.slice().sort((a, b) => a.time - b.time)
+    const times = sorted.map(($) => $.time)
+    const rotations: Quaternion.MutableQuaternion[] = []
+    for (const key of sorted) {
+      const rotation = Quaternion.normalize(key.rotation)
+      // keep consecutive rotations in the same hemisphere to take the shortest path
+      const previous = rotations[rotations.length - 1]
+      if (previous && Quaternion.dot(previous, rotation) < 0) {
+        rotation.x = -rotation.x
+        rotation.y = -rotation.y
+        rotation.z = -rotation.z
+        rotation.w = -rotation.w
+      }
+      rotations.push(rotation)
+    }
+
+    const outgoing: Quaternion.MutableQuaternion[] = []
+    const incoming: Quaternion.MutableQuaternion[] = []
+    for (let i = 0; i < rotations.length; i++) {
+      const rotation = rotations[i]
+      const durationIn = i > 0 ? times[i] - times[i - 1] : 0
+      const durationOut = i < rotations.length - 1 ? times[i + 1] - times[i] : 0
+      if (durationIn <= 0 || durationOut <= 0) {
+        // first and last keys, or keys sharing the same time
+        outgoing.push(Quaternion.normalize(rotation))
+        incoming.push(Quaternion.normalize(rotation))
+        continue
+      }
+
+      const toPrevious = Quaternion.logOfDifference(rotation, rotations[i - 1])
+      const toNext = Quaternion.logOfDifference(rotation, rotations[i + 1])
+      const total = durationIn + durationOut
+
+      // tangent per unit of time, the weighted average of the velocities of both segments
+      const weightNext = durationIn / (durationOut * total)
+      const weightPrevious = durationOut / (durationIn * total)
+      let tangentX = toNext.x * weightNext - toPrevious.x * weightPrevious
+      let tangentY = toNext.y * weightNext - toPrevious.y * weightPrevious
+      let tangentZ = toNext.z * weightNext - toPrevious.z * weightPrevious
+
+      // with very uneven durations the control points can be more than a half turn away from the key,
+      // where log can't give back their offset: the tangent is shortened, the same on both sides of the key
+      const tangentScale = Math.min(
+        1,
+        _maxTangentScale(
+          tangentX * durationOut,
+          tangentY * durationOut,
+          tangentZ * durationOut,
+          toNext
+        ),
+        _maxTangentScale(
+          -tangentX * durationIn,
+          -tangentY * durationIn,
+          -tangentZ * durationIn,
+          toPrevious
+        )
+      )
+      tangentX *= tangentScale
+      tangentY *= tangentScale
+      tangentZ *= tangentScale
+
+      // the squad velocity at a key is the log to the neighbour plus twice the log to the control point
+      outgoing.push(
+        Quaternion.multiplyByExp(
+          rotation,
+          Quaternion.create(
+            (tangentX * durationOut - toNext.x) * 0.5,
+            (tangentY * durationOut - toNext.y) * 0.5,
+            (tangentZ * durationOut - toNext.z) * 0.5,
+            0
+          )
+        )
+      )
+      incoming.push(
+        Quaternion.multiplyByExp(
+          rotation,
+          Quaternion.create(
+            (-tangentX * durationIn - toPrevious.x) * 0.5,
+            (-tangentY * durationIn - toPrevious.y) * 0.5,
+            (-tangentZ * durationIn - toPrevious.z) * 0.5,
+            0
+          )
+        )
+      )
+    }
+
+    return { times, rotations, outgoing, incoming }
+  }
+
+  /**
+   * Gets the rotation of the spline at the given time
+   * @param spline - the spline to evaluate
+   * @param time - the time, it is clamped to the times of the first and last keys
+   * @returns the new quaternion, the identity if the spline has no key
+   */
+  export function evaluate(
+    spline: ReadonlyRotationSpline,
+    time: number
+  ): Quaternion.MutableQuaternion {
+    const result = Quaternion.Identity()
+    evaluateToRef(spline, time, result)
+    return result
+  }
+
+  /**
+   * Gets the rotation of the spline at the given time and stores it into "result"
+   * @param spline - the spline to evaluate
+   * @param time - the time, it is clamped to the times of the first and last keys
+   * @param result - the target quaternion, set to the identity if the spline has no key
+   */
+  export function evaluateToRef(
+    spline: ReadonlyRotationSpline,
+    time: number,
+    result: Quaternion.MutableQuaternion
+  ): void {
+    const { times, rotations } = spline
+    const count = times.length
+    if (count === 0) {
+      result.x = 0
+      result.y = 0
+      result.z = 0
+      result.w = 1
+      return
+    }
+
+    if (time <= times[0] || count === 1) {
+      _copy(rotations[0], result)
+      return
+    }
+    if (time >= times[count - 1]) {
+      _copy(rotations[count - 1], result)
+      return
+    }
+
+    let index = 0
+    while (time >= times[index + 1]) {
+      index++
+    }
+
+    const duration = times[index + 1] - times[index]
+    const amount = duration > 0 ? (time - times[index]) / duration : 0
+    Quaternion.squadToRef(
+      rotations[index],
+      rotations[index + 1],
+      spline.outgoing[index],
+      spline.incoming[index + 1],
+      amount,
+      result
+    )
+  }
+
+  /**
+   * Gets the largest factor s so that the control point offset |s * tangent - toNeighbour| / 2 stays below the limit
+   * @internal
+   */
+  function _maxTangentScale(
+    x: number,
+    y: number,
+    z: number,
+    toNeighbour: Quaternion.ReadonlyQuaternion
+  ): number {
+    const limit = 2 * _maxControlOffset
+    const tangentSquared = x * x + y * y + z * z
+    if (tangentSquared === 0) {
+      return 1
+    }
+    const along = x * toNeighbour.x + y * toNeighbour.y + z * toNeighbour.z
+    const neighbourSquared =
+      toNeighbour.x * toNeighbour.x +
+      toNeighbour.y * toNeighbour.y +
+      toNeighbour.z * toNeighbour.z
+    const discriminant =
+      along * along - tangentSquared * (neighbourSquared - limit * limit)
+    return (along + Math.sqrt(Math.max(discriminant, 0))) / tangentSquared
+  }
+
+  /**
+   * The largest log of the offset of a control point from its key, a rotation of half a turn
+   * @internal
+   */
+  const _maxControlOffset = Math.PI / 2
+
+  /** @internal */
+  function _copy(
+    source: Quaternion.ReadonlyQuaternion,
+    result: Quaternion.MutableQuaternion
+  ) {
+    result.x = source.x
+    result.y = source.y
+    result.z = source.z
+    result.w = source.w
+  }
+}
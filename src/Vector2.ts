@@ -1,3 +1,6 @@
+import { Epsilon, FloatArray } from './types'
+import { Scalar } from './Scalar'
+
 /**
  * @public
  * Vector2 is a type and a namespace.
@@ -6,7 +9,7 @@
  * ```
  *
  * // Namespace usage example
- * const next = Vector2.add(pointA, velocityA) // add function not implemented yet
+ * const next = Vector2.add(pointA, velocityA)
  *
  * // Type usage example
  * const readonlyPosition: Vector2 = Vector2.Zero()
@@ -24,7 +27,7 @@ export type Vector2 = Vector2.ReadonlyVector2
  * Vector2 is a type and a namespace.
  * ```
  * // The namespace contains all types and functions to operates with Vector2
- * const next = Vector2.add(pointA, velocityA) // add function not implemented yet
+ * const next = Vector2.add(pointA, velocityA)
  * // The type Vector2 is an alias to Vector2.ReadonlyVector2
  * const readonlyPosition: Vector2 = Vector2.Zero()
  * readonlyPosition.x = 0.1 // this FAILS
@@ -80,6 +83,585 @@ export namespace Vector2 {
     return { x, y }
   }
 
+  /**
+   * Returns a new Vector2 as the result of the addition of the two given vectors.
+   * @param vector1 - the first vector
+   * @param vector2 - the second vector
+   * @returns the resulting vector
+   */
+  export function add(
+    vector1: ReadonlyVector2,
+    vector2: ReadonlyVector2
+  ): MutableVector2 {
+    return {
+      x: vector1.x + vector2.x,
+      y: vector1.y + vector2.y
+    }
+  }
+
+  /**
+   * Performs addition between vectorA and vectorB and stores the result into result
+   * @param vectorA - the first vector for the addition operation
+   * @param vectorB - the second vector for the addition operation
+   * @param result - the vector where the result of the addition is stored
+   */
+  export function addToRef(
+    vectorA: ReadonlyVector2,
+    vectorB: ReadonlyVector2,
+    result: MutableVector2
+  ): void {
+    result.x = vectorA.x + vectorB.x
+    result.y = vectorA.y + vectorB.y
+  }
+
+  /**
+   * Returns a new Vector2 as the result of the substraction of the two given vectors.
+   * @returns the resulting vector
+   */
+  export function subtract(
+    vector1: ReadonlyVector2,
+    vector2: ReadonlyVector2
+  ): MutableVector2 {
+    return {
+      x: vector1.x - vector2.x,
+      y: vector1.y - vector2.y
+    }
+  }
+
+  /**
+   * Performs substraction between vectorA and vectorB and stores the result into result
+   * @param vectorA - the first vector for the substraction operation
+   * @param vectorB - the second vector for the substraction operation
+   * @param result - the vector where the result of the substraction is stored
+   */
+  export function subtractToRef(
+    vectorA: ReadonlyVector2,
+    vectorB: ReadonlyVector2,
+    result: MutableVector2
+  ): void {
+    result.x = vectorA.x - vectorB.x
+    result.y = vectorA.y - vectorB.y
+  }
+
+  /**
+   * Returns a new Vector2 with the other sign
+   * @returns the resulting vector
+   */
+  export function negate(value: ReadonlyVector2): MutableVector2 {
+    return { x: -value.x, y: -value.y }
+  }
+
+  /**
+   * Sets the given vector "result" with the other sign of the given vector
+   * @param value - defines the source vector
+   * @param result - defines the Vector2 where to store the result
+   */
+  export function negateToRef(
+    value: ReadonlyVector2,
+    result: MutableVector2
+  ): void {
+    result.x = -value.x
+    result.y = -value.y
+  }
+
+  /**
+   * Copy source into dest
+   *
+   */
+  export function copyFrom(
+    source: ReadonlyVector2,
+    dest: MutableVector2
+  ): void {
+    dest.x = source.x
+    dest.y = source.y
+  }
+
+  /**
+   * Sets the given vector "dest" with the given floats.
+   * @param x - defines the x coordinate of the source
+   * @param y - defines the y coordinate of the source
+   * @param dest - defines the Vector2 where to store the result
+   */
+  export function copyFromFloats(
+    x: number,
+    y: number,
+    dest: MutableVector2
+  ): void {
+    dest.x = x
+    dest.y = y
+  }
+
+  /**
+   * Returns a new Vector2 with the same value
+   * @returns the resulting vector
+   */
+  export function clone(source: ReadonlyVector2): MutableVector2 {
+    return create(source.x, source.y)
+  }
+
+  /**
+   * Returns a new Vector2 set from the index "offset" of the given array
+   * @param array - defines the source array
+   * @param offset - defines the offset in the source array
+   * @returns the new Vector2
+   */
+  export function fromArray(
+    array: FloatArray,
+    offset: number = 0
+  ): MutableVector2 {
+    return create(array[offset], array[offset + 1])
+  }
+
+  /**
+   * Sets the given vector "result" with the element values from the index "offset" of the given array
+   * @param array - defines the source array
+   * @param offset - defines the offset in the source array
+   * @param result - defines the Vector2 where to store the result
+   */
+  export function fromArrayToRef(
+    array: FloatArray,
+    offset: number,
+    result: MutableVector2
+  ): void {
+    result.x = array[offset]
+    result.y = array[offset + 1]
+  }
+
+  /**
+   * Stores in the given array from the given starting index the x and y values as successive elements
+   * @param vector - defines the source vector
+   * @param array - defines the array where to store the x and y components
+   * @param index - defines an optional index in the target array to define where to start storing values
+   */
+  export function toArray(
+    vector: ReadonlyVector2,
+    array: FloatArray,
+    index: number = 0
+  ): void {
+    array[index] = vector.x
+    array[index + 1] = vector.y
+  }
+
+  /**
+   * Returns a new array populated with 2 numeric elements : x and y values
+   * @returns the new array
+   */
+  export function asArray(vector: ReadonlyVector2): number[] {
+    const result = new Array<number>()
+    toArray(vector, result, 0)
+    return result
+  }
+
+  // Properties
+  /**
+   * Gets the length of the Vector2
+   * @returns the length of the Vector2
+   */
+  export function length(vector: ReadonlyVector2): number {
+    return Math.sqrt(vector.x * vector.x + vector.y * vector.y)
+  }
+
+  /**
+   * Gets the squared length of the Vector2
+   * @returns squared length of the Vector2
+   */
+  export function lengthSquared(vector: ReadonlyVector2): number {
+    return vector.x * vector.x + vector.y * vector.y
+  }
+
+  /**
+   * Returns a new Vector2 set with the current Vector2 coordinates multiplied by the float "scale"
+   * @param scale - defines the multiplier factor
+   * @returns a new Vector2
+   */
+  export function scaleToRef(
+    vector: ReadonlyVector2,
+    scale: number,
+    result: MutableVector2
+  ): void {
+    result.x = vector.x * scale
+    result.y = vector.y * scale
+  }
+
+  /**
+   * Returns a new Vector2 set with the current Vector2 coordinates multiplied by the float "scale"
+   * @param scale - defines the multiplier factor
+   * @returns a new Vector2
+   */
+  export function scale(
+    vector: ReadonlyVector2,
+    scale: number
+  ): MutableVector2 {
+    return create(vector.x * scale, vector.y * scale)
+  }
+
+  /**
+   * Normalize the current Vector2 with the given input length.
+   * @param len - the length of the vector
+   * @returns the normalized Vector2
+   */
+  export function normalizeFromLength(
+    vector: ReadonlyVector2,
+    len: number
+  ): MutableVector2 {
+    const result = create(0, 0)
+    normalizeFromLengthToRef(vector, len, result)
+    return result
+  }
+
+  /**
+   * Normalize the current Vector2 with the given input length and stores the result into "result".
+   * @param len - the length of the vector
+   * @param result - defines the Vector2 where to store the result
+   */
+  export function normalizeFromLengthToRef(
+    vector: ReadonlyVector2,
+    len: number,
+    result: MutableVector2
+  ): void {
+    if (len === 0 || len === 1.0) {
+      copyFrom(vector, result)
+      return
+    }
+    scaleToRef(vector, 1.0 / len, result)
+  }
+
+  /**
+   * Normalize the current Vector2.
+   * @returns the normalized Vector2
+   */
+  export function normalize(vector: ReadonlyVector2): MutableVector2 {
+    return normalizeFromLength(vector, length(vector))
+  }
+
+  /**
+   * Normalize the current Vector2 and stores the result into "result".
+   * @param result - defines the Vector2 where to store the result
+   */
+  export function normalizeToRef(
+    vector: ReadonlyVector2,
+    result: MutableVector2
+  ): void {
+    normalizeFromLengthToRef(vector, length(vector), result)
+  }
+
+  /**
+   * Returns the dot product (float) between the vectors "left" and "right"
+   * @param left - defines the left operand
+   * @param right - defines the right operand
+   * @returns the dot product
+   */
+  export function dot(left: ReadonlyVector2, right: ReadonlyVector2): number {
+    return left.x * right.x + left.y * right.y
+  }
+
+  /**
+   * Returns a new Vector2, result of the multiplication of vector1 by the vector2
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @returns the new Vector2
+   */
+  export function multiply(
+    vector1: ReadonlyVector2,
+    vector2: ReadonlyVector2
+  ): MutableVector2 {
+    const result = create()
+    multiplyToRef(vector1, vector2, result)
+    return result
+  }
+
+  /**
+   * Multiplies the current Vector2 by the given one and stores the result in the given vector "result"
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @param result - defines the Vector2 object where to store the result
+   */
+  export function multiplyToRef(
+    vector1: ReadonlyVector2,
+    vector2: ReadonlyVector2,
+    result: MutableVector2
+  ): void {
+    result.x = vector1.x * vector2.x
+    result.y = vector1.y * vector2.y
+  }
+
+  /**
+   * Returns a new Vector2 set with the result of the division of the current Vector2 coordinates by the given ones
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @returns the new Vector2
+   */
+  export function divide(
+    vector1: ReadonlyVector2,
+    vector2: ReadonlyVector2
+  ): MutableVector2 {
+    return {
+      x: vector1.x / vector2.x,
+      y: vector1.y / vector2.y
+    }
+  }
+
+  /**
+   * Divides the current Vector2 coordinates by the given ones and stores the result in the given vector "result"
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @param result - defines the Vector2 object where to store the result
+   */
+  export function divideToRef(
+    vector1: ReadonlyVector2,
+    vector2: ReadonlyVector2,
+    result: MutableVector2
+  ): void {
+    result.x = vector1.x / vector2.x
+    result.y = vector1.y / vector2.y
+  }
+
+  /**
+   * Returns a new Vector2 located for "amount" (float) on the linear interpolation between the vectors "start" and "end"
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - max defines amount between both (between 0 and 1)
+   * @returns the new Vector2
+   */
+  export function lerp(
+    start: ReadonlyVector2,
+    end: ReadonlyVector2,
+    amount: number
+  ): MutableVector2 {
+    const result = create(0, 0)
+    lerpToRef(start, end, amount, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the result of the linear interpolation from the vector "start" for "amount" to the vector "end"
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - max defines amount between both (between 0 and 1)
+   * @param result - defines the Vector2 where to store the result
+   */
+  export function lerpToRef(
+    start: ReadonlyVector2,
+    end: ReadonlyVector2,
+    amount: number,
+    result: MutableVector2
+  ): void {
+    result.x = start.x + (end.x - start.x) * amount
+    result.y = start.y + (end.y - start.y) * amount
+  }
+
+  /**
+   * Returns a new Vector2 set with the coordinates of "value", if the vector "value" is in the square defined by the vectors "min" and "max"
+   * If a coordinate value of "value" is lower than one of the "min" coordinate, then this "value" coordinate is set with the "min" one
+   * If a coordinate value of "value" is greater than one of the "max" coordinate, then this "value" coordinate is set with the "max" one
+   * @param value - defines the current value
+   * @param min - defines the lower range value
+   * @param max - defines the upper range value
+   * @returns the new Vector2
+   */
+  export function clamp(
+    value: ReadonlyVector2,
+    min: ReadonlyVector2,
+    max: ReadonlyVector2
+  ): MutableVector2 {
+    const v = create()
+    clampToRef(value, min, max, v)
+    return v
+  }
+
+  /**
+   * Sets the given vector "result" with the coordinates of "value", if the vector "value" is in the square defined by the vectors "min" and "max"
+   * If a coordinate value of "value" is lower than one of the "min" coordinate, then this "value" coordinate is set with the "min" one
+   * If a coordinate value of "value" is greater than one of the "max" coordinate, then this "value" coordinate is set with the "max" one
+   * @param value - defines the current value
+   * @param min - defines the lower range value
+   * @param max - defines the upper range value
+   * @param result - defines the Vector2 where to store the result
+   */
+  export function clampToRef(
+    value: ReadonlyVector2,
+    min: ReadonlyVector2,
+    max: ReadonlyVector2,
+    result: MutableVector2
+  ): void {
+    let x = value.x
+    x = x > max.x ? max.x : x
+    x = x < min.x ? min.x : x
+
+    let y = value.y
+    y = y > max.y ? max.y : y
+    y = y < min.y ? min.y : y
+
+    copyFromFloats(x, y, result)
+  }
+
+  /**
+   * Gets the minimal coordinate values between two Vector2
+   * @param left - defines the first operand
+   * @param right - defines the second operand
+   * @returns the new Vector2
+   */
+  export function minimize(
+    left: ReadonlyVector2,
+    right: ReadonlyVector2
+  ): MutableVector2 {
+    const min = create()
+    minimizeToRef(left, right, min)
+    return min
+  }
+
+  /**
+   * Sets the given vector "result" with the minimal coordinate values between two Vector2
+   * @param left - defines the first operand
+   * @param right - defines the second operand
+   * @param result - defines the Vector2 where to store the result
+   */
+  export function minimizeToRef(
+    left: ReadonlyVector2,
+    right: ReadonlyVector2,
+    result: MutableVector2
+  ): void {
+    result.x = left.x < right.x ? left.x : right.x
+    result.y = left.y < right.y ? left.y : right.y
+  }
+
+  /**
+   * Gets the maximal coordinate values between two Vector2
+   * @param left - defines the first operand
+   * @param right - defines the second operand
+   * @returns the new Vector2
+   */
+  export function maximize(
+    left: ReadonlyVector2,
+    right: ReadonlyVector2
+  ): MutableVector2 {
+    const max = create()
+    maximizeToRef(left, right, max)
+    return max
+  }
+
+  /**
+   * Sets the given vector "result" with the maximal coordinate values between two Vector2
+   * @param left - defines the first operand
+   * @param right - defines the second operand
+   * @param result - defines the Vector2 where to store the result
+   */
+  export function maximizeToRef(
+    left: ReadonlyVector2,
+    right: ReadonlyVector2,
+    result: MutableVector2
+  ): void {
+    result.x = left.x > right.x ? left.x : right.x
+    result.y = left.y > right.y ? left.y : right.y
+  }
+
+  /**
+   * Returns the distance between the vectors "value1" and "value2"
+   * @param value1 - defines the first operand
+   * @param value2 - defines the second operand
+   * @returns the distance
+   */
+  export function distance(
+    value1: ReadonlyVector2,
+    value2: ReadonlyVector2
+  ): number {
+    return Math.sqrt(distanceSquared(value1, value2))
+  }
+
+  /**
+   * Returns the squared distance between the vectors "value1" and "value2"
+   * @param value1 - defines the first operand
+   * @param value2 - defines the second operand
+   * @returns the squared distance
+   */
+  export function distanceSquared(
+    value1: ReadonlyVector2,
+    value2: ReadonlyVector2
+  ): number {
+    const x = value1.x - value2.x
+    const y = value1.y - value2.y
+
+    return x * x + y * y
+  }
+
+  /**
+   * Returns a new Vector2 located at the center between "value1" and "value2"
+   * @param value1 - defines the first operand
+   * @param value2 - defines the second operand
+   * @returns the new Vector2
+   */
+  export function center(
+    value1: ReadonlyVector2,
+    value2: ReadonlyVector2
+  ): MutableVector2 {
+    const center = add(value1, value2)
+    scaleToRef(center, 0.5, center)
+    return center
+  }
+
+  /**
+   * Creates a string representation of the Vector2
+   * @returns a string with the Vector2 coordinates.
+   */
+  export function toString(vector: ReadonlyVector2): string {
+    return `(${vector.x}, ${vector.y})`
+  }
+
+  /**
+   * Creates the Vector2 hash code
+   * @returns a number which tends to be unique between Vector2 instances
+   */
+  export function getHashCode(vector: ReadonlyVector2): number {
+    let hash = vector.x || 0
+    hash = (hash * 397) ^ (vector.y || 0)
+    return hash
+  }
+
+  /**
+   * Returns true if the vector1 and the vector2 coordinates are strictly equal
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @returns true if both vectors are equals
+   */
+  export function equals(
+    vector1: ReadonlyVector2,
+    vector2: ReadonlyVector2
+  ): boolean {
+    return vector1.x === vector2.x && vector1.y === vector2.y
+  }
+
+  /**
+   * Returns true if the current Vector2 and the given vector coordinates are distant less than epsilon
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @param epsilon - defines the minimal distance to define values as equals
+   * @returns true if both vectors are distant less than epsilon
+   */
+  export function equalsWithEpsilon(
+    vector1: ReadonlyVector2,
+    vector2: ReadonlyVector2,
+    epsilon: number = Epsilon
+  ): boolean {
+    return (
+      Scalar.withinEpsilon(vector1.x, vector2.x, epsilon) &&
+      Scalar.withinEpsilon(vector1.y, vector2.y, epsilon)
+    )
+  }
+
+  /**
+   * Returns true if the current Vector2 coordinates equals the given floats
+   * @param x - defines the x coordinate of the operand
+   * @param y - defines the y coordinate of the operand
+   * @returns true if both vectors are equals
+   */
+  export function equalsToFloats(
+    vector: ReadonlyVector2,
+    x: number,
+    y: number
+  ): boolean {
+    return vector.x === x && vector.y === y
+  }
+
   /**
    * Returns a new Vector2 set to (0.0, 0.0)
    * @returns a new empty Vector2
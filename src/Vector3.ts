@@ -2,6 +2,7 @@ import { Epsilon, FloatArray } from './types'
 import { Quaternion } from './Quaternion'
 import { Matrix } from './Matrix'
 import { Scalar } from './Scalar'
+import { Viewport } from './Viewport'
 
 /**
  * @public
@@ -720,6 +721,103 @@ export namespace Vector3 {
     result.z = x * m[2] + y * m[6] + z * m[10]
   }
 
+  /**
+   * Projects a point from its local space to the screen
+   * @param vector - defines the point to project
+   * @param world - defines the world matrix of the point (identity for a point already in world space)
+   * @param viewProjection - defines the view projection matrix of the camera
+   * @param viewport - defines the area of the screen where the camera renders
+   * @returns a new Vector3 with the screen coordinates in pixels and the depth between 0 (near plane) and 1 (far plane)
+   */
+  export function project(
+    vector: ReadonlyVector3,
+    world: Matrix.ReadonlyMatrix,
+    viewProjection: Matrix.ReadonlyMatrix,
+    viewport: Viewport.ReadonlyViewport
+  ): MutableVector3 {
+    const result = Zero()
+    projectToRef(vector, world, viewProjection, viewport, result)
+    return result
+  }
+
+  /**
+   * Projects a point from its local space to the screen and stores it into "result"
+   * @param vector - defines the point to project
+   * @param world - defines the world matrix of the point (identity for a point already in world space)
+   * @param viewProjection - defines the view projection matrix of the camera
+   * @param viewport - defines the area of the screen where the camera renders
+   * @param result - defines the Vector3 where to store the screen coordinates in pixels and the depth between 0 and 1
+   */
+  export function projectToRef(
+    vector: ReadonlyVector3,
+    world: Matrix.ReadonlyMatrix,
+    viewProjection: Matrix.ReadonlyMatrix,
+    viewport: Viewport.ReadonlyViewport,
+    result: MutableVector3
+  ): void {
+    const transform = Matrix.create()
+    Matrix.multiplyToRef(world, viewProjection, transform)
+    transformCoordinatesToRef(vector, transform, result)
+
+    // from normalized device coordinates (-1 to 1, y up) to pixels (y down)
+    result.x = viewport.x + (result.x + 1) * 0.5 * viewport.width
+    result.y = viewport.y + (1 - result.y) * 0.5 * viewport.height
+    result.z = (result.z + 1) * 0.5
+  }
+
+  /**
+   * Unprojects a point from the screen to the local space of the world matrix
+   * @param source - defines the screen coordinates in pixels and the depth between 0 (near plane) and 1 (far plane)
+   * @param viewport - defines the area of the screen where the camera renders
+   * @param world - defines the world matrix of the target space (identity to get the point in world space)
+   * @param view - defines the view matrix of the camera
+   * @param projection - defines the projection matrix of the camera
+   * @returns a new Vector3 with the unprojected point
+   */
+  export function unproject(
+    source: ReadonlyVector3,
+    viewport: Viewport.ReadonlyViewport,
+    world: Matrix.ReadonlyMatrix,
+    view: Matrix.ReadonlyMatrix,
+    projection: Matrix.ReadonlyMatrix
+  ): MutableVector3 {
+    const result = Zero()
+    unprojectToRef(source, viewport, world, view, projection, result)
+    return result
+  }
+
+  /**
+   * Unprojects a point from the screen to the local space of the world matrix and stores it into "result".
+   * Unprojecting the same screen point at the depths 0 and 1 gives the picking ray going through it.
+   * @param source - defines the screen coordinates in pixels and the depth between 0 (near plane) and 1 (far plane)
+   * @param viewport - defines the area of the screen where the camera renders
+   * @param world - defines the world matrix of the target space (identity to get the point in world space)
+   * @param view - defines the view matrix of the camera
+   * @param projection - defines the projection matrix of the camera
+   * @param result - defines the Vector3 where to store the unprojected point
+   */
+  export function unprojectToRef(
+    source: ReadonlyVector3,
+    viewport: Viewport.ReadonlyViewport,
+    world: Matrix.ReadonlyMatrix,
+    view: Matrix.ReadonlyMatrix,
+    projection: Matrix.ReadonlyMatrix,
+    result: MutableVector3
+  ): void {
+    const transform = Matrix.create()
+    Matrix.multiplyToRef(world, view, transform)
+    Matrix.multiplyToRef(transform, projection, transform)
+    const inverse = Matrix.invert(transform)
+
+    transformCoordinatesFromFloatsToRef(
+      ((source.x - viewport.x) / viewport.width) * 2 - 1,
+      1 - ((source.y - viewport.y) / viewport.height) * 2,
+      source.z * 2 - 1,
+      inverse,
+      result
+    )
+  }
+
   /**
    * Returns a new Vector3 located for "amount" on the CatmullRom interpolation spline defined by the vectors "value1", "value2", "value3", "value4"
    * @param value1 - defines the first control point
@@ -0,0 +1,627 @@
+import { Epsilon, FloatArray } from './types'
+import { Vector3 } from './Vector3'
+import { Matrix } from './Matrix'
+import { Scalar } from './Scalar'
+
+/**
+ * @public
+ * Vector4 is a type and a namespace.
+ * - The namespace contains all types and functions to operates with Vector4
+ * - The type Vector4 is an alias to Vector4.ReadonlyVector4
+ * ```
+ *
+ * // Namespace usage example
+ * const clipPosition = Vector4.transform(homogeneousPosition, viewProjection)
+ *
+ * // Type usage example
+ * const readonlyPosition: Vector4 = Vector4.Zero()
+ * readonlyPosition.x = 0.1 // this FAILS
+ *
+ * // For mutable usage, use `Vector4.Mutable`
+ * const position: Vector4.Mutable = Vector4.One()
+ * position.x = 3.0 // this WORKS
+ * ```
+ */
+export type Vector4 = Vector4.ReadonlyVector4
+
+/**
+ * @public
+ * Vector4 is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to operates with Vector4
+ * const clipPosition = Vector4.transform(homogeneousPosition, viewProjection)
+ * // The type Vector4 is an alias to Vector4.ReadonlyVector4
+ * const readonlyPosition: Vector4 = Vector4.Zero()
+ * readonlyPosition.x = 0.1 // this FAILS
+ *
+ * // For mutable usage, use `Vector4.Mutable`
+ * const position: Vector4.Mutable = Vector4.One()
+ * position.x = 3.0 // this WORKS
+ * ```
+ */
+export namespace Vector4 {
+  /**
+   * @public
+   * For external use, type with `Vector4`, e.g. `const zeroPosition: Vector4 = Vector4.Zero()`.
+   * For mutable typing, use `Vector4.Mutable`, e.g. `const oneVector: Vector4.Mutable = Vector4.One()`.
+   */
+  export type ReadonlyVector4 = {
+    readonly x: number
+    readonly y: number
+    readonly z: number
+    readonly w: number
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Vector4`, e.g. `const zeroPosition: Vector4 = Vector4.Zero()`.
+   * For mutable typing, use `Vector4.Mutable`, e.g. `const oneVector: Vector4.Mutable = Vector4.One()`.
+   */
+  export type MutableVector4 = {
+    x: number
+    y: number
+    z: number
+    w: number
+  }
+
+  /**
+   * @public
+   * Type with `Vector4` for readonly usage, e.g. `const zeroPosition: Vector4 = Vector4.Zero()`.
+   * For mutable, use `Vector4.Mutable`, e.g. `const oneVector: Vector4.Mutable = Vector4.One()`.
+   */
+  export type Mutable = MutableVector4
+
+  /**
+   * Creates a new Vector4 object from the given x, y, z, w (floats) coordinates.
+   * @param x - defines the first coordinates (on X axis)
+   * @param y - defines the second coordinates (on Y axis)
+   * @param z - defines the third coordinates (on Z axis)
+   * @param w - defines the fourth coordinates (on W axis)
+   */
+  export function create(
+    /**
+     * Defines the first coordinates (on X axis)
+     */
+    x: number = 0,
+    /**
+     * Defines the second coordinates (on Y axis)
+     */
+    y: number = 0,
+    /**
+     * Defines the third coordinates (on Z axis)
+     */
+    z: number = 0,
+    /**
+     * Defines the fourth coordinates (on W axis)
+     */
+    w: number = 0
+  ): MutableVector4 {
+    return { x, y, z, w }
+  }
+
+  /**
+   * Creates a new Vector4 from a Vector3 and the given w coordinate
+   * @param vector - defines the x, y and z coordinates
+   * @param w - defines the w coordinate (1.0 by default, meaning a point)
+   * @returns the new Vector4
+   */
+  export function fromVector3(
+    vector: Vector3.ReadonlyVector3,
+    w: number = 1.0
+  ): MutableVector4 {
+    return create(vector.x, vector.y, vector.z, w)
+  }
+
+  /**
+   * Returns a new Vector4 as the result of the addition of the two given vectors.
+   * @param vector1 - the first vector
+   * @param vector2 - the second vector
+   * @returns the resulting vector
+   */
+  export function add(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4
+  ): MutableVector4 {
+    return {
+      x: vector1.x + vector2.x,
+      y: vector1.y + vector2.y,
+      z: vector1.z + vector2.z,
+      w: vector1.w + vector2.w
+    }
+  }
+
+  /**
+   * Performs addition between vectorA and vectorB and stores the result into result
+   * @param vectorA - the first vector for the addition operation
+   * @param vectorB - the second vector for the addition operation
+   * @param result - the vector where the result of the addition is stored
+   */
+  export function addToRef(
+    vectorA: ReadonlyVector4,
+    vectorB: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    result.x = vectorA.x + vectorB.x
+    result.y = vectorA.y + vectorB.y
+    result.z = vectorA.z + vectorB.z
+    result.w = vectorA.w + vectorB.w
+  }
+
+  /**
+   * Returns a new Vector4 as the result of the substraction of the two given vectors.
+   * @returns the resulting vector
+   */
+  export function subtract(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4
+  ): MutableVector4 {
+    return {
+      x: vector1.x - vector2.x,
+      y: vector1.y - vector2.y,
+      z: vector1.z - vector2.z,
+      w: vector1.w - vector2.w
+    }
+  }
+
+  /**
+   * Performs substraction between vectorA and vectorB and stores the result into result
+   * @param vectorA - the first vector for the substraction operation
+   * @param vectorB - the second vector for the substraction operation
+   * @param result - the vector where the result of the substraction is stored
+   */
+  export function subtractToRef(
+    vectorA: ReadonlyVector4,
+    vectorB: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    result.x = vectorA.x - vectorB.x
+    result.y = vectorA.y - vectorB.y
+    result.z = vectorA.z - vectorB.z
+    result.w = vectorA.w - vectorB.w
+  }
+
+  /**
+   * Returns a new Vector4 with the other sign
+   * @returns the resulting vector
+   */
+  export function negate(value: ReadonlyVector4): MutableVector4 {
+    return { x: -value.x, y: -value.y, z: -value.z, w: -value.w }
+  }
+
+  /**
+   * Copy source into dest
+   *
+   */
+  export function copyFrom(
+    source: ReadonlyVector4,
+    dest: MutableVector4
+  ): void {
+    dest.x = source.x
+    dest.y = source.y
+    dest.z = source.z
+    dest.w = source.w
+  }
+
+  /**
+   * Sets the given vector "dest" with the given floats.
+   * @param x - defines the x coordinate of the source
+   * @param y - defines the y coordinate of the source
+   * @param z - defines the z coordinate of the source
+   * @param w - defines the w coordinate of the source
+   * @param dest - defines the Vector4 where to store the result
+   */
+  export function copyFromFloats(
+    x: number,
+    y: number,
+    z: number,
+    w: number,
+    dest: MutableVector4
+  ): void {
+    dest.x = x
+    dest.y = y
+    dest.z = z
+    dest.w = w
+  }
+
+  /**
+   * Returns a new Vector4 with the same value
+   * @returns the resulting vector
+   */
+  export function clone(source: ReadonlyVector4): MutableVector4 {
+    return create(source.x, source.y, source.z, source.w)
+  }
+
+  /**
+   * Returns a new Vector4 set from the index "offset" of the given array
+   * @param array - defines the source array
+   * @param offset - defines the offset in the source array
+   * @returns the new Vector4
+   */
+  export function fromArray(
+    array: FloatArray,
+    offset: number = 0
+  ): MutableVector4 {
+    return create(
+      array[offset],
+      array[offset + 1],
+      array[offset + 2],
+      array[offset + 3]
+    )
+  }
+
+  /**
+   * Sets the given vector "result" with the element values from the index "offset" of the given array
+   * @param array - defines the source array
+   * @param offset - defines the offset in the source array
+   * @param result - defines the Vector4 where to store the result
+   */
+  export function fromArrayToRef(
+    array: FloatArray,
+    offset: number,
+    result: MutableVector4
+  ): void {
+    result.x = array[offset]
+    result.y = array[offset + 1]
+    result.z = array[offset + 2]
+    result.w = array[offset + 3]
+  }
+
+  /**
+   * Stores in the given array from the given starting index the x, y, z and w values as successive elements
+   * @param vector - defines the source vector
+   * @param array - defines the array where to store the components
+   * @param index - defines an optional index in the target array to define where to start storing values
+   */
+  export function toArray(
+    vector: ReadonlyVector4,
+    array: FloatArray,
+    index: number = 0
+  ): void {
+    array[index] = vector.x
+    array[index + 1] = vector.y
+    array[index + 2] = vector.z
+    array[index + 3] = vector.w
+  }
+
+  /**
+   * Returns a new array populated with 4 numeric elements : x, y, z and w values
+   * @returns the new array
+   */
+  export function asArray(vector: ReadonlyVector4): number[] {
+    const result = new Array<number>()
+    toArray(vector, result, 0)
+    return result
+  }
+
+  // Properties
+  /**
+   * Gets the length of the Vector4
+   * @returns the length of the Vector4
+   */
+  export function length(vector: ReadonlyVector4): number {
+    return Math.sqrt(lengthSquared(vector))
+  }
+
+  /**
+   * Gets the squared length of the Vector4
+   * @returns squared length of the Vector4
+   */
+  export function lengthSquared(vector: ReadonlyVector4): number {
+    return (
+      vector.x * vector.x +
+      vector.y * vector.y +
+      vector.z * vector.z +
+      vector.w * vector.w
+    )
+  }
+
+  /**
+   * Returns a new Vector4 set with the current Vector4 coordinates multiplied by the float "scale"
+   * @param scale - defines the multiplier factor
+   * @returns a new Vector4
+   */
+  export function scaleToRef(
+    vector: ReadonlyVector4,
+    scale: number,
+    result: MutableVector4
+  ): void {
+    result.x = vector.x * scale
+    result.y = vector.y * scale
+    result.z = vector.z * scale
+    result.w = vector.w * scale
+  }
+
+  /**
+   * Returns a new Vector4 set with the current Vector4 coordinates multiplied by the float "scale"
+   * @param scale - defines the multiplier factor
+   * @returns a new Vector4
+   */
+  export function scale(
+    vector: ReadonlyVector4,
+    scale: number
+  ): MutableVector4 {
+    return create(
+      vector.x * scale,
+      vector.y * scale,
+      vector.z * scale,
+      vector.w * scale
+    )
+  }
+
+  /**
+   * Normalize the current Vector4.
+   * @returns the normalized Vector4
+   */
+  export function normalize(vector: ReadonlyVector4): MutableVector4 {
+    const result = create()
+    normalizeToRef(vector, result)
+    return result
+  }
+
+  /**
+   * Normalize the current Vector4 and stores the result into "result".
+   * @param result - defines the Vector4 where to store the result
+   */
+  export function normalizeToRef(
+    vector: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    const len = length(vector)
+    if (len === 0 || len === 1.0) {
+      copyFrom(vector, result)
+      return
+    }
+    scaleToRef(vector, 1.0 / len, result)
+  }
+
+  /**
+   * Returns the dot product (float) between the vectors "left" and "right"
+   * @param left - defines the left operand
+   * @param right - defines the right operand
+   * @returns the dot product
+   */
+  export function dot(left: ReadonlyVector4, right: ReadonlyVector4): number {
+    return (
+      left.x * right.x + left.y * right.y + left.z * right.z + left.w * right.w
+    )
+  }
+
+  /**
+   * Returns a new Vector4, result of the multiplication of vector1 by the vector2
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @returns the new Vector4
+   */
+  export function multiply(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4
+  ): MutableVector4 {
+    const result = create()
+    multiplyToRef(vector1, vector2, result)
+    return result
+  }
+
+  /**
+   * Multiplies the current Vector4 by the given one and stores the result in the given vector "result"
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @param result - defines the Vector4 object where to store the result
+   */
+  export function multiplyToRef(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    result.x = vector1.x * vector2.x
+    result.y = vector1.y * vector2.y
+    result.z = vector1.z * vector2.z
+    result.w = vector1.w * vector2.w
+  }
+
+  /**
+   * Returns a new Vector4 set with the result of the division of the current Vector4 coordinates by the given ones
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @returns the new Vector4
+   */
+  export function divide(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4
+  ): MutableVector4 {
+    const result = create()
+    divideToRef(vector1, vector2, result)
+    return result
+  }
+
+  /**
+   * Divides the current Vector4 coordinates by the given ones and stores the result in the given vector "result"
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @param result - defines the Vector4 object where to store the result
+   */
+  export function divideToRef(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4,
+    result: MutableVector4
+  ): void {
+    result.x = vector1.x / vector2.x
+    result.y = vector1.y / vector2.y
+    result.z = vector1.z / vector2.z
+    result.w = vector1.w / vector2.w
+  }
+
+  /**
+   * Returns a new Vector4 located for "amount" (float) on the linear interpolation between the vectors "start" and "end"
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - max defines amount between both (between 0 and 1)
+   * @returns the new Vector4
+   */
+  export function lerp(
+    start: ReadonlyVector4,
+    end: ReadonlyVector4,
+    amount: number
+  ): MutableVector4 {
+    const result = create()
+    lerpToRef(start, end, amount, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the result of the linear interpolation from the vector "start" for "amount" to the vector "end"
+   * @param start - defines the start value
+   * @param end - defines the end value
+   * @param amount - max defines amount between both (between 0 and 1)
+   * @param result - defines the Vector4 where to store the result
+   */
+  export function lerpToRef(
+    start: ReadonlyVector4,
+    end: ReadonlyVector4,
+    amount: number,
+    result: MutableVector4
+  ): void {
+    result.x = start.x + (end.x - start.x) * amount
+    result.y = start.y + (end.y - start.y) * amount
+    result.z = start.z + (end.z - start.z) * amount
+    result.w = start.w + (end.w - start.w) * amount
+  }
+
+  /**
+   * Returns a new Vector4 set with the result of the transformation by the given matrix of the given vector.
+   * All four coordinates are transformed, no perspective divide is applied.
+   * @param vector - defines the Vector4 to transform
+   * @param transformation - defines the transformation matrix
+   * @returns the transformed Vector4
+   */
+  export function transform(
+    vector: ReadonlyVector4,
+    transformation: Matrix.ReadonlyMatrix
+  ): MutableVector4 {
+    const result = create()
+    transformToRef(vector, transformation, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the result of the transformation by the given matrix of the given vector.
+   * All four coordinates are transformed, no perspective divide is applied.
+   * @param vector - defines the Vector4 to transform
+   * @param transformation - defines the transformation matrix
+   * @param result - defines the Vector4 where to store the result
+   */
+  export function transformToRef(
+    vector: ReadonlyVector4,
+    transformation: Matrix.ReadonlyMatrix,
+    result: MutableVector4
+  ): void {
+    const { x, y, z, w } = vector
+    const m = transformation._m
+
+    result.x = x * m[0] + y * m[4] + z * m[8] + w * m[12]
+    result.y = x * m[1] + y * m[5] + z * m[9] + w * m[13]
+    result.z = x * m[2] + y * m[6] + z * m[10] + w * m[14]
+    result.w = x * m[3] + y * m[7] + z * m[11] + w * m[15]
+  }
+
+  /**
+   * Returns a new Vector3 with the x, y and z coordinates divided by w (perspective divide)
+   * If w is zero, the x, y and z coordinates are returned unchanged.
+   * @param vector - defines the homogeneous vector
+   * @returns the new Vector3
+   */
+  export function toVector3(vector: ReadonlyVector4): Vector3.MutableVector3 {
+    const result = Vector3.create()
+    toVector3ToRef(vector, result)
+    return result
+  }
+
+  /**
+   * Sets the given vector "result" with the x, y and z coordinates divided by w (perspective divide)
+   * If w is zero, the x, y and z coordinates are copied unchanged.
+   * @param vector - defines the homogeneous vector
+   * @param result - defines the Vector3 where to store the result
+   */
+  export function toVector3ToRef(
+    vector: ReadonlyVector4,
+    result: Vector3.MutableVector3
+  ): void {
+    const invW = vector.w === 0 ? 1.0 : 1.0 / vector.w
+    result.x = vector.x * invW
+    result.y = vector.y * invW
+    result.z = vector.z * invW
+  }
+
+  /**
+   * Creates a string representation of the Vector4
+   * @returns a string with the Vector4 coordinates.
+   */
+  export function toString(vector: ReadonlyVector4): string {
+    return `(${vector.x}, ${vector.y}, ${vector.z}, ${vector.w})`
+  }
+
+  /**
+   * Creates the Vector4 hash code
+   * @returns a number which tends to be unique between Vector4 instances
+   */
+  export function getHashCode(vector: ReadonlyVector4): number {
+    let hash = vector.x || 0
+    hash = (hash * 397) ^ (vector.y || 0)
+    hash = (hash * 397) ^ (vector.z || 0)
+    hash = (hash * 397) ^ (vector.w || 0)
+    return hash
+  }
+
+  /**
+   * Returns true if the vector1 and the vector2 coordinates are strictly equal
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @returns true if both vectors are equals
+   */
+  export function equals(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4
+  ): boolean {
+    return (
+      vector1.x === vector2.x &&
+      vector1.y === vector2.y &&
+      vector1.z === vector2.z &&
+      vector1.w === vector2.w
+    )
+  }
+
+  /**
+   * Returns true if the current Vector4 and the given vector coordinates are distant less than epsilon
+   * @param vector1 - defines the first operand
+   * @param vector2 - defines the second operand
+   * @param epsilon - defines the minimal distance to define values as equals
+   * @returns true if both vectors are distant less than epsilon
+   */
+  export function equalsWithEpsilon(
+    vector1: ReadonlyVector4,
+    vector2: ReadonlyVector4,
+    epsilon: number = Epsilon
+  ): boolean {
+    return (
+      Scalar.withinEpsilon(vector1.x, vector2.x, epsilon) &&
+      Scalar.withinEpsilon(vector1.y, vector2.y, epsilon) &&
+      Scalar.withinEpsilon(vector1.z, vector2.z, epsilon) &&
+      Scalar.withinEpsilon(vector1.w, vector2.w, epsilon)
+    )
+  }
+
+  /**
+   * Returns a new Vector4 set to (0.0, 0.0, 0.0, 0.0)
+   * @returns a new empty Vector4
+   */
+  export function Zero(): MutableVector4 {
+    return create(0.0, 0.0, 0.0, 0.0)
+  }
+
+  /**
+   * Returns a new Vector4 set to (1.0, 1.0, 1.0, 1.0)
+   * @returns a new unit Vector4
+   */
+  export function One(): MutableVector4 {
+    return create(1.0, 1.0, 1.0, 1.0)
+  }
+}
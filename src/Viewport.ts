@@ -0,0 +1,97 @@
+/**
+ * @public
+ * Viewport is a type and a namespace.
+ * - The namespace contains all types and functions to describe the area of the screen where a camera renders
+ * - The type Viewport is an alias to Viewport.ReadonlyViewport
+ * ```
+ *
+ * // Namespace usage example
+ * const viewport = Viewport.create(0, 0, screenWidth, screenHeight)
+ * const labelPosition = Vector3.project(entityPosition, Matrix.Identity(), viewProjection, viewport)
+ *
+ * // Type usage example
+ * const readonlyViewport: Viewport = Viewport.create(0, 0, 1920, 1080)
+ * readonlyViewport.width = 1280 // this FAILS
+ *
+ * // For mutable usage, use `Viewport.Mutable`
+ * const viewport: Viewport.Mutable = Viewport.create(0, 0, 1920, 1080)
+ * viewport.width = 1280 // this WORKS
+ * ```
+ */
+export type Viewport = Viewport.ReadonlyViewport
+
+/**
+ * @public
+ * Viewport is a type and a namespace.
+ * ```
+ * // The namespace contains all types and functions to describe the area of the screen where a camera renders
+ * const viewport = Viewport.create(0, 0, screenWidth, screenHeight)
+ * // The type Viewport is an alias to Viewport.ReadonlyViewport
+ * const readonlyViewport: Viewport = Viewport.create(0, 0, 1920, 1080)
+ * readonlyViewport.width = 1280 // this FAILS
+ *
+ * // For mutable usage, use `Viewport.Mutable`
+ * const viewport: Viewport.Mutable = Viewport.create(0, 0, 1920, 1080)
+ * viewport.width = 1280 // this WORKS
+ * ```
+ */
+export namespace Viewport {
+  /**
+   * @public
+   * For external use, type with `Viewport`, e.g. `const viewport: Viewport = Viewport.create(0, 0, 1920, 1080)`.
+   * For mutable typing, use `Viewport.Mutable`, e.g. `const viewport: Viewport.Mutable = Viewport.create(0, 0, 1920, 1080)`.
+   * The values are in pixels, from the top left corner of the screen.
+   */
+  export type ReadonlyViewport = {
+    readonly x: number
+    readonly y: number
+    readonly width: number
+    readonly height: number
+  }
+
+  /**
+   * @public
+   * For external usage, type with `Viewport`, e.g. `const viewport: Viewport = Viewport.create(0, 0, 1920, 1080)`.
+   * For mutable typing, use `Viewport.Mutable`, e.g. `const viewport: Viewport.Mutable = Viewport.create(0, 0, 1920, 1080)`.
+   * The values are in pixels, from the top left corner of the screen.
+   */
+  export type MutableViewport = {
+    x: number
+    y: number
+    width: number
+    height: number
+  }
+
+  /**
+   * @public
+   * Type with `Viewport` for readonly usage, e.g. `const viewport: Viewport = Viewport.create(0, 0, 1920, 1080)`.
+   * For mutable, use `Viewport.Mutable`, e.g. `const viewport: Viewport.Mutable = Viewport.create(0, 0, 1920, 1080)`.
+   */
+  export type Mutable = MutableViewport
+
+  /**
+   * Creates a new viewport
+   * @param x - the left of the viewport in pixels
+   * @param y - the top of the viewport in pixels
+   * @param width - the width of the viewport in pixels
+   * @param height - the height of the viewport in pixels
+   * @returns the new viewport
+   */
+  export function create(
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): MutableViewport {
+    return { x, y, width, height }
+  }
+
+  /**
+   * Copies the given viewport into a new one
+   * @param source - the viewport to clone
+   * @returns the new viewport
+   */
+  export function clone(source: ReadonlyViewport): MutableViewport {
+    return create(source.x, source.y, source.width, source.height)
+  }
+}
@@ -1,8 +1,23 @@
 export * from './Quaternion'
 export * from './Vector2'
 export * from './Vector3'
+export * from './Vector4'
+export * from './Matrix'
+export * from './Matrix3'
+export * from './Matrix3x2'
+export * from './MatrixArray'
+export * from './Plane'
+export * from './Ray'
+export * from './BoundingBox'
+export * from './BoundingSphere'
+export * from './Frustum'
+export * from './Viewport'
+export * from './OrientedBox'
+export * from './RotationSpline'
+export * from './DualQuaternion'
 export * from './Color3'
 export * from './Color4'
+export * from './ColorGradient'
 export * from './Scalar'
 export * from './types'
 export * from './index'
@@ -30,3 +30,29 @@ export const DEG2RAD = Math.PI / 180
  * @public
  */
 export const RAD2DEG = 360 / (Math.PI * 2)
+
+/**
+ * Order of the rotations described by Euler angles.
+ * Uppercase orders are intrinsic: each rotation is around the axis already rotated by the previous ones (e.g. 'YXZ' rotates around Y, then around the new X, then around the new Z).
+ * Lowercase orders are extrinsic: each rotation is around the fixed world axis (e.g. 'zxy' rotates around the world Z, then X, then Y), an extrinsic order is the same rotation as the reversed intrinsic one.
+ * @public
+ */
+export type EulerOrder =
+  | 'XYZ'
+  | 'XZY'
+  | 'YXZ'
+  | 'YZX'
+  | 'ZXY'
+  | 'ZYX'
+  | 'xyz'
+  | 'xzy'
+  | 'yxz'
+  | 'yzx'
+  | 'zxy'
+  | 'zyx'
+
+/**
+ * Unit of an angle
+ * @public
+ */
+export type AngleUnit = 'degrees' | 'radians'
@@ -0,0 +1,134 @@
+import { BoundingBox, Matrix, Quaternion, Vector3 } from '../src'
+
+describe('ECS BoundingBox - Next tests', () => {
+  it('BoundingBox.fromPoints & fromCenterAndExtents', () => {
+    const box = BoundingBox.fromPoints([
+      Vector3.create(1, -2, 3),
+      Vector3.create(-1, 4, 0),
+      Vector3.create(0, 0, -5)
+    ])
+    expect(box.minimum).toStrictEqual(Vector3.create(-1, -2, -5))
+    expect(box.maximum).toStrictEqual(Vector3.create(1, 4, 3))
+    expect(BoundingBox.getCenter(box)).toStrictEqual(Vector3.create(0, 1, -1))
+    expect(BoundingBox.getExtents(box)).toStrictEqual(Vector3.create(1, 3, 4))
+
+    const fromCenter = BoundingBox.fromCenterAndExtents(
+      Vector3.create(0, 1, -1),
+      Vector3.create(1, 3, 4)
+    )
+    expect(BoundingBox.equals(fromCenter, box)).toBe(true)
+    expect(BoundingBox.clone(box)).toStrictEqual(box)
+  })
+
+  it('BoundingBox empty', () => {
+    const empty = BoundingBox.fromPoints([])
+    expect(BoundingBox.isEmpty(empty)).toBe(true)
+    expect(BoundingBox.getVolume(empty)).toBe(0)
+    expect(BoundingBox.containsPoint(empty, Vector3.Zero())).toBe(false)
+
+    const expanded = BoundingBox.expandByPoint(empty, Vector3.One())
+    expect(expanded).toStrictEqual(
+      BoundingBox.create(Vector3.One(), Vector3.One())
+    )
+    expect(BoundingBox.isEmpty(expanded)).toBe(false)
+  })
+
+  it('BoundingBox.union & intersection', () => {
+    const a = BoundingBox.create(Vector3.Zero(), Vector3.create(2, 2, 2))
+    const b = BoundingBox.create(Vector3.One(), Vector3.create(3, 3, 3))
+    const c = BoundingBox.create(
+      Vector3.create(5, 5, 5),
+      Vector3.create(6, 6, 6)
+    )
+
+    expect(BoundingBox.union(a, b)).toStrictEqual(
+      BoundingBox.create(Vector3.Zero(), Vector3.create(3, 3, 3))
+    )
+    expect(BoundingBox.intersection(a, b)).toStrictEqual(
+      BoundingBox.create(Vector3.One(), Vector3.create(2, 2, 2))
+    )
+    expect(BoundingBox.intersection(a, c)).toBeNull()
+    expect(BoundingBox.intersectsBox(a, b)).toBe(true)
+    expect(BoundingBox.intersectsBox(a, c)).toBe(false)
+  })
+
+  it('BoundingBox.containsPoint & closestPoint', () => {
+    const box = BoundingBox.create(Vector3.Zero(), Vector3.create(2, 2, 2))
+    expect(BoundingBox.containsPoint(box, Vector3.One())).toBe(true)
+    expect(BoundingBox.containsPoint(box, Vector3.create(2, 2, 2))).toBe(true)
+    expect(BoundingBox.containsPoint(box, Vector3.create(2, 3, 2))).toBe(false)
+    expect(
+      BoundingBox.closestPoint(box, Vector3.create(5, 1, -1))
+    ).toStrictEqual(Vector3.create(2, 1, 0))
+    expect(BoundingBox.closestPoint(box, Vector3.One())).toStrictEqual(
+      Vector3.One()
+    )
+  })
+
+  it('BoundingBox.getCorners & getVolume', () => {
+    const box = BoundingBox.create(Vector3.Zero(), Vector3.create(1, 2, 3))
+    const corners = BoundingBox.getCorners(box)
+    expect(corners.length).toBe(8)
+    expect(corners[0]).toStrictEqual(box.minimum)
+    expect(corners[7]).toStrictEqual(box.maximum)
+    expect(BoundingBox.fromPoints(corners)).toStrictEqual(box)
+    expect(BoundingBox.getVolume(box)).toBe(6)
+  })
+
+  it('BoundingBox.transform', () => {
+    const box = BoundingBox.create(
+      Vector3.create(-1, -1, -1),
+      Vector3.create(1, 1, 1)
+    )
+    const translated = BoundingBox.transform(box, Matrix.translation(1, 2, 3))
+    expect(translated).toStrictEqual(
+      BoundingBox.create(Vector3.create(0, 1, 2), Vector3.create(2, 3, 4))
+    )
+
+    const matrix = Matrix.compose(
+      Vector3.create(1, 2, 3),
+      Quaternion.fromEulerDegrees(30, 45, 60),
+      Vector3.create(4, 5, 6)
+    )
+    const transformed = BoundingBox.transform(box, matrix)
+    for (const corner of BoundingBox.getCorners(box)) {
+      const point = Vector3.transformCoordinates(corner, matrix)
+      expect(
+        BoundingBox.containsPoint(
+          BoundingBox.expandByPoint(transformed, point),
+          point
+        )
+      ).toBe(true)
+      expect(
+        Vector3.equalsWithEpsilon(
+          BoundingBox.closestPoint(transformed, point),
+          point
+        )
+      ).toBe(true)
+    }
+
+    const enclosing = BoundingBox.fromPoints(
+      BoundingBox.getCorners(box).map(($) =>
+        Vector3.transformCoordinates($, matrix)
+      )
+    )
+    expect(
+      Vector3.equalsWithEpsilon(enclosing.minimum, transformed.minimum)
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(enclosing.maximum, transformed.maximum)
+    ).toBe(true)
+
+    // an empty box stays empty instead of getting NaN components
+    expect(BoundingBox.transform(BoundingBox.Empty(), matrix)).toStrictEqual(
+      BoundingBox.Empty()
+    )
+    const result = BoundingBox.clone(box)
+    BoundingBox.transformToRef(
+      BoundingBox.Empty(),
+      Matrix.translation(1, 2, 3),
+      result
+    )
+    expect(BoundingBox.isEmpty(result)).toBe(true)
+  })
+})
@@ -0,0 +1,119 @@
+import {
+  BoundingBox,
+  BoundingSphere,
+  Matrix,
+  Quaternion,
+  Vector3
+} from '../src'
+
+describe('ECS BoundingSphere - Next tests', () => {
+  it('BoundingSphere.fromPoints', () => {
+    const points = [
+      Vector3.create(-2, 0, 0),
+      Vector3.create(2, 0, 0),
+      Vector3.create(0, 1, 0),
+      Vector3.create(0, 0, -1.5),
+      Vector3.create(0.5, -0.5, 0.5)
+    ]
+    const sphere = BoundingSphere.fromPoints(points)
+    expect(Vector3.equalsWithEpsilon(sphere.center, Vector3.Zero())).toBe(true)
+    expect(sphere.radius).toBeCloseTo(2)
+
+    const cloud = [
+      Vector3.create(1, 5, 2),
+      Vector3.create(-3, 2, 7),
+      Vector3.create(4, -6, 1),
+      Vector3.create(0, 0, -8),
+      Vector3.create(9, 3, 3),
+      Vector3.create(-2, -2, -2)
+    ]
+    const fitted = BoundingSphere.fromPoints(cloud)
+    for (const point of cloud) {
+      expect(BoundingSphere.distanceToPoint(fitted, point)).toBeLessThan(1e-9)
+    }
+
+    expect(BoundingSphere.fromPoints([])).toStrictEqual(
+      BoundingSphere.create(Vector3.Zero(), 0)
+    )
+  })
+
+  it('BoundingSphere.fromBoundingBox', () => {
+    const sphere = BoundingSphere.fromBoundingBox(
+      BoundingBox.create(Vector3.create(-1, -2, -2), Vector3.create(1, 2, 2))
+    )
+    expect(sphere).toStrictEqual(BoundingSphere.create(Vector3.Zero(), 3))
+  })
+
+  it('BoundingSphere.merge', () => {
+    const a = BoundingSphere.create(Vector3.Zero(), 1)
+    const b = BoundingSphere.create(Vector3.create(4, 0, 0), 1)
+    expect(BoundingSphere.merge(a, b)).toStrictEqual(
+      BoundingSphere.create(Vector3.create(2, 0, 0), 3)
+    )
+
+    const inner = BoundingSphere.create(Vector3.create(0.5, 0, 0), 0.25)
+    expect(BoundingSphere.merge(a, inner)).toStrictEqual(a)
+    expect(BoundingSphere.merge(inner, a)).toStrictEqual(a)
+  })
+
+  it('BoundingSphere containment & intersection', () => {
+    const sphere = BoundingSphere.create(Vector3.Zero(), 2)
+    expect(BoundingSphere.containsPoint(sphere, Vector3.One())).toBe(true)
+    expect(BoundingSphere.containsPoint(sphere, Vector3.create(0, 3, 0))).toBe(
+      false
+    )
+    expect(
+      BoundingSphere.distanceToPoint(sphere, Vector3.create(0, 5, 0))
+    ).toBe(3)
+    expect(BoundingSphere.distanceToPoint(sphere, Vector3.Zero())).toBe(-2)
+
+    expect(
+      BoundingSphere.intersectsSphere(
+        sphere,
+        BoundingSphere.create(Vector3.create(3, 0, 0), 1)
+      )
+    ).toBe(true)
+    expect(
+      BoundingSphere.intersectsSphere(
+        sphere,
+        BoundingSphere.create(Vector3.create(3.5, 0, 0), 1)
+      )
+    ).toBe(false)
+
+    expect(
+      BoundingSphere.intersectsBox(
+        sphere,
+        BoundingBox.create(Vector3.create(1, 1, 1), Vector3.create(3, 3, 3))
+      )
+    ).toBe(true)
+    expect(
+      BoundingSphere.intersectsBox(
+        sphere,
+        BoundingBox.create(Vector3.create(2, 2, 2), Vector3.create(3, 3, 3))
+      )
+    ).toBe(false)
+  })
+
+  it('BoundingSphere.transform', () => {
+    const sphere = BoundingSphere.create(Vector3.create(1, 0, 0), 1)
+    const uniform = BoundingSphere.transform(
+      sphere,
+      Matrix.compose(
+        Vector3.create(2, 2, 2),
+        Quaternion.fromEulerDegrees(0, 90, 0),
+        Vector3.create(0, 5, 0)
+      )
+    )
+    expect(
+      Vector3.equalsWithEpsilon(uniform.center, Vector3.create(0, 5, -2))
+    ).toBe(true)
+    expect(uniform.radius).toBeCloseTo(2)
+
+    const nonUniform = BoundingSphere.transform(
+      sphere,
+      Matrix.scaling(1, 3, 0.5)
+    )
+    expect(nonUniform.center).toStrictEqual(Vector3.create(1, 0, 0))
+    expect(nonUniform.radius).toBe(3)
+  })
+})
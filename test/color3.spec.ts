@@ -0,0 +1,172 @@
+import { Color3 } from '../src/Color3'
+import { expectColorClose } from './helpers'
+
+describe('ECS Color 3', () => {
+  it('converts from and to HSV', () => {
+    expectColorClose(Color3.fromHSV(0, 1, 1), Color3.Red())
+    expectColorClose(Color3.fromHSV(120, 1, 1), Color3.Green())
+    expectColorClose(Color3.fromHSV(-120, 1, 1), Color3.Blue())
+    expectColorClose(Color3.fromHSV(300, 1, 1), Color3.Magenta())
+    expectColorClose(Color3.fromHSV(42, 0, 0.5), Color3.create(0.5, 0.5, 0.5))
+
+    expect(Color3.toHSV(Color3.Yellow())).toStrictEqual({ h: 60, s: 1, v: 1 })
+    expect(Color3.toHSV(Color3.Black())).toStrictEqual({ h: 0, s: 0, v: 0 })
+
+    const color = Color3.create(0.2, 0.7, 0.4)
+    const hsv = Color3.toHSV(color)
+    expect(hsv.h).toBeCloseTo(144)
+    expect(hsv.s).toBeCloseTo(0.5 / 0.7)
+    expect(hsv.v).toBeCloseTo(0.7)
+    expectColorClose(Color3.fromHSV(hsv.h, hsv.s, hsv.v), color)
+  })
+
+  it('converts from and to HSL', () => {
+    expectColorClose(Color3.fromHSL(240, 1, 0.5), Color3.Blue())
+    expectColorClose(Color3.fromHSL(0, 1, 1), Color3.White())
+    expectColorClose(Color3.fromHSL(180, 1, 0.25), Color3.create(0, 0.5, 0.5))
+
+    expect(Color3.toHSL(Color3.White())).toStrictEqual({ h: 0, s: 0, l: 1 })
+
+    const color = Color3.create(0.9, 0.3, 0.6)
+    const hsl = Color3.toHSL(color)
+    expect(hsl.h).toBeCloseTo(330)
+    expect(hsl.s).toBeCloseTo(0.6 / 0.8)
+    expect(hsl.l).toBeCloseTo(0.6)
+    const result = Color3.create()
+    Color3.fromHSLToRef(hsl.h, hsl.s, hsl.l, result)
+    expectColorClose(result, color)
+  })
+
+  it('interpolates along the shortest hue arc', () => {
+    // from red to magenta the hue goes backwards through 330 instead of through green
+    expectColorClose(
+      Color3.lerpHSV(Color3.Red(), Color3.Magenta(), 0.5),
+      Color3.fromHSV(330, 1, 1)
+    )
+    expectColorClose(
+      Color3.lerpHSV(Color3.Red(), Color3.Blue(), 0.25),
+      Color3.fromHSV(330, 1, 1)
+    )
+
+    // grays take the hue of the other color
+    expectColorClose(
+      Color3.lerpHSV(Color3.Black(), Color3.Green(), 0.5),
+      Color3.create(0.25, 0.5, 0.25)
+    )
+
+    const result = Color3.Yellow()
+    Color3.lerpHSVToRef(result, Color3.Teal(), 1, result)
+    expectColorClose(result, Color3.Teal())
+  })
+})
+
+describe('ECS Color 3 - Perceptual spaces', () => {
+  const color = Color3.create(0.8, 0.35, 0.1)
+
+  it('converts from and to XYZ & Lab & LCh', () => {
+    const white = Color3.toXYZ(Color3.White())
+    expect(white.x).toBeCloseTo(0.95047, 4)
+    expect(white.y).toBeCloseTo(1, 4)
+    expect(white.z).toBeCloseTo(1.08883, 4)
+
+    const red = Color3.toLab(Color3.Red())
+    expect(red.l).toBeCloseTo(53.24, 1)
+    expect(red.a).toBeCloseTo(80.09, 1)
+    expect(red.b).toBeCloseTo(67.2, 1)
+    const whiteLab = Color3.toLab(Color3.White())
+    expect(whiteLab.l).toBeCloseTo(100, 3)
+    expect(whiteLab.a).toBeCloseTo(0, 3)
+
+    const xyz = Color3.toXYZ(color)
+    expectColorClose(Color3.fromXYZ(xyz.x, xyz.y, xyz.z), color)
+    const lab = Color3.toLab(color)
+    expectColorClose(Color3.fromLab(lab.l, lab.a, lab.b), color)
+    const lch = Color3.toLCh(color)
+    expect(lch.l).toBeCloseTo(lab.l)
+    expect(lch.c).toBeCloseTo(Math.hypot(lab.a, lab.b))
+    expectColorClose(Color3.fromLCh(lch.l, lch.c, lch.h), color)
+    expect(Color3.toLCh(Color3.Gray()).h).toBe(0)
+
+    // out of gamut colors are clamped instead of giving NaN
+    expect(Color3.fromLab(50, -200, 0).r).toBe(0)
+  })
+
+  it('converts from and to OKLab & OKLCh', () => {
+    const white = Color3.toOKLab(Color3.White())
+    expect(white.l).toBeCloseTo(1, 4)
+    expect(white.a).toBeCloseTo(0, 4)
+    expect(white.b).toBeCloseTo(0, 4)
+
+    const blue = Color3.toOKLCh(Color3.Blue())
+    expect(blue.l).toBeCloseTo(0.452, 3)
+    expect(blue.c).toBeCloseTo(0.313, 3)
+    expect(blue.h).toBeCloseTo(264.05, 1)
+
+    const lab = Color3.toOKLab(color)
+    expectColorClose(Color3.fromOKLab(lab.l, lab.a, lab.b), color)
+    const lch = Color3.toOKLCh(color)
+    const result = Color3.create()
+    Color3.fromOKLChToRef(lch.l, lch.c, lch.h, result)
+    expectColorClose(result, color)
+  })
+
+  it('interpolates in OKLab', () => {
+    const start = Color3.Blue()
+    const end = Color3.Yellow()
+    expectColorClose(Color3.lerpOKLab(start, end, 0), start)
+    expectColorClose(Color3.lerpOKLab(start, end, 1), end)
+
+    // the midpoint lightness is halfway, while the sRGB midpoint is a dark gray
+    const middle = Color3.toOKLab(Color3.lerpOKLab(start, end, 0.5))
+    const expected = (Color3.toOKLab(start).l + Color3.toOKLab(end).l) / 2
+    expect(middle.l).toBeCloseTo(expected, 3)
+    expect(Color3.toOKLab(Color3.lerp(start, end, 0.5)).l).toBeLessThan(
+      expected - 0.1
+    )
+  })
+
+  it('computes deltaE', () => {
+    // reference pairs from Sharma, Wu and Dalal, "The CIEDE2000 color-difference formula"
+    const pairs: [Color3.Lab, Color3.Lab, number][] = [
+      [{ l: 50, a: 2.6772, b: -79.7751 }, { l: 50, a: 0, b: -82.7485 }, 2.0425],
+      [{ l: 50, a: 0, b: 0 }, { l: 50, a: -1, b: 2 }, 2.3669],
+      [{ l: 50, a: 2.5, b: 0 }, { l: 73, a: 25, b: -18 }, 27.1492],
+      [
+        { l: 60.2574, a: -34.0099, b: 36.2677 },
+        { l: 60.4626, a: -34.1751, b: 39.4387 },
+        1.2644
+      ],
+      [
+        { l: 2.0776, a: 0.0795, b: -1.135 },
+        { l: 0.9033, a: -0.0636, b: -0.5514 },
+        0.9082
+      ]
+    ]
+    for (const [left, right, expected] of pairs) {
+      expect(Color3.deltaELab(left, right)).toBeCloseTo(expected, 4)
+      expect(Color3.deltaELab(right, left)).toBeCloseTo(expected, 4)
+    }
+
+    expect(
+      Color3.deltaELab({ l: 50, a: 0, b: 0 }, { l: 53, a: 4, b: 0 }, 'CIE76')
+    ).toBe(5)
+    expect(Color3.deltaE(color, color)).toBe(0)
+    expect(Color3.deltaE(Color3.Black(), Color3.White(), 'CIE76')).toBeCloseTo(
+      100,
+      3
+    )
+  })
+})
+
+describe('ECS Color 3 - CSS', () => {
+  it('parses and formats css strings', () => {
+    expect(Color3.parseColor('rgba(255, 0, 0, 0.5)')).toStrictEqual(
+      Color3.Red()
+    )
+    expect(Color3.parseColor('navy')).toStrictEqual(Color3.fromInts(0, 0, 128))
+    expect(Color3.parseColor('#1234567')).toBeUndefined()
+    expect(Color3.toCssString(Color3.create(0.2, 2, 0.5))).toBe(
+      'rgb(51, 255, 128)'
+    )
+  })
+})
@@ -1,4 +1,5 @@
 import { Color4 } from '../src/Color4'
+import { expectColorClose } from './helpers'
 
 describe('ECS Color 4', () => {
   it('creates color4 without alpha', () => {
@@ -19,3 +20,196 @@ describe('ECS Color 4', () => {
     expect(color4Hex).toBe('#000000FF')
   })
 })
+
+describe('ECS Color 4 - HSV & HSL', () => {
+  it('preserves alpha in conversions', () => {
+    const color = Color4.fromHSV(120, 1, 1, 0.25)
+    expect(color).toStrictEqual(Color4.create(0, 1, 0, 0.25))
+    expect(Color4.fromHSL(0, 0, 1).a).toBe(1)
+    expect(Color4.toHSV(color)).toStrictEqual({ h: 120, s: 1, v: 1, a: 0.25 })
+    expect(Color4.toHSL(color)).toStrictEqual({ h: 120, s: 1, l: 0.5, a: 0.25 })
+  })
+
+  it('interpolates alpha linearly in lerpHSV', () => {
+    const result = Color4.lerpHSV(
+      Color4.create(1, 0, 0, 0),
+      Color4.create(1, 0, 1, 1),
+      0.5
+    )
+    expect(result.r).toBeCloseTo(1)
+    expect(result.g).toBeCloseTo(0)
+    expect(result.b).toBeCloseTo(0.5)
+    expect(result.a).toBeCloseTo(0.5)
+  })
+})
+
+describe('ECS Color 4 - OKLab', () => {
+  it('interpolates alpha linearly in lerpOKLab', () => {
+    const result = Color4.create()
+    Color4.lerpOKLabToRef(
+      Color4.create(1, 1, 1, 1),
+      Color4.create(0, 0, 0, 0),
+      0.25,
+      result
+    )
+    expect(result.r).toBeCloseTo(result.b)
+    expect(result.a).toBeCloseTo(0.75)
+  })
+})
+
+describe('ECS Color 4 - CSS', () => {
+  it('parses hexadecimal and named colors', () => {
+    expect(Color4.parseColor('#f80')).toStrictEqual(
+      Color4.fromInts(255, 136, 0, 255)
+    )
+    expect(Color4.parseColor('#F808')).toStrictEqual(
+      Color4.fromInts(255, 136, 0, 136)
+    )
+    expect(Color4.parseColor(' #12345678 ')).toStrictEqual(
+      Color4.fromInts(0x12, 0x34, 0x56, 0x78)
+    )
+    expect(Color4.parseColor('RebeccaPurple')).toStrictEqual(
+      Color4.fromInts(0x66, 0x33, 0x99, 255)
+    )
+    expect(Color4.parseColor('transparent')).toStrictEqual(Color4.Clear())
+  })
+
+  it('parses rgb() and hsl() colors', () => {
+    expect(Color4.parseColor('rgb(255, 0, 51)')).toStrictEqual(
+      Color4.create(1, 0, 0.2, 1)
+    )
+    expect(Color4.parseColor('rgba(100%, 50%, 0%, 0.5)')).toStrictEqual(
+      Color4.create(1, 0.5, 0, 0.5)
+    )
+    expect(Color4.parseColor('rgb(0 510 0 / 25%)')).toStrictEqual(
+      Color4.create(0, 1, 0, 0.25)
+    )
+
+    const hsl = Color4.parseColor('hsla(0.5turn, 100%, 25%, .8)')!
+    expect(hsl.r).toBeCloseTo(0)
+    expect(hsl.g).toBeCloseTo(0.5)
+    expect(hsl.b).toBeCloseTo(0.5)
+    expect(hsl.a).toBeCloseTo(0.8)
+    expect(Color4.parseColor('hsl(240deg 100% 50%)')).toStrictEqual(
+      Color4.fromHSL(240, 1, 0.5)
+    )
+  })
+
+  it('returns undefined for invalid colors', () => {
+    for (const text of [
+      '',
+      '#fc',
+      '#12345',
+      '#ggg',
+      'constructor',
+      'notacolor',
+      'rgb(1, 2)',
+      'rgb(1 2 3 4)',
+      'rgb(1, 2, x)',
+      'rgb(1 2 3 / 4 / 5)',
+      'hsl(10px, 50%, 50%)',
+      'cmyk(1, 2, 3, 4)'
+    ]) {
+      expect(Color4.parseColor(text)).toBeUndefined()
+    }
+  })
+
+  it('formats css strings', () => {
+    expect(Color4.toCssString(Color4.create(1, 0.5, -1, 0.33333))).toBe(
+      'rgba(255, 128, 0, 0.333)'
+    )
+    const text = Color4.toCssString(Color4.fromInts(12, 34, 56, 255))
+    expect(Color4.parseColor(text)).toStrictEqual(
+      Color4.fromInts(12, 34, 56, 255)
+    )
+  })
+})
+
+describe('ECS Color 4 - Compositing', () => {
+  const halfRed = Color4.create(1, 0, 0, 0.5)
+  const blue = Color4.create(0, 0, 1, 0.8)
+
+  it('premultiplies and unpremultiplies', () => {
+    const premultiplied = Color4.premultiply(Color4.create(0.5, 1, 0.2, 0.5))
+    expect(premultiplied).toStrictEqual(Color4.create(0.25, 0.5, 0.1, 0.5))
+    expectColorClose(
+      Color4.unpremultiply(premultiplied),
+      Color4.create(0.5, 1, 0.2, 0.5)
+    )
+    expect(Color4.unpremultiply(Color4.create(1, 1, 1, 0))).toStrictEqual(
+      Color4.Clear()
+    )
+  })
+
+  it('composites with the Porter-Duff operators', () => {
+    // the alpha of over is 0.5 + 0.8 * 0.5, and the colors are weighted by their coverage
+    expectColorClose(
+      Color4.composite(halfRed, blue),
+      Color4.create(0.5 / 0.9, 0, 0.4 / 0.9, 0.9)
+    )
+    expectColorClose(
+      Color4.composite(halfRed, blue, 'in'),
+      Color4.create(1, 0, 0, 0.4)
+    )
+    expectColorClose(
+      Color4.composite(halfRed, blue, 'out'),
+      Color4.create(1, 0, 0, 0.1)
+    )
+    expectColorClose(
+      Color4.composite(halfRed, blue, 'atop'),
+      Color4.create(0.5, 0, 0.5, 0.8)
+    )
+    expectColorClose(
+      Color4.composite(halfRed, blue, 'xor'),
+      Color4.create(0.1 / 0.5, 0, 0.4 / 0.5, 0.5)
+    )
+    expect(
+      Color4.composite(Color4.Clear(), Color4.Clear(), 'xor')
+    ).toStrictEqual(Color4.Clear())
+
+    // with premultiplied colors the result stays premultiplied
+    const result = Color4.premultiply(blue)
+    Color4.compositeToRef(
+      Color4.premultiply(halfRed),
+      result,
+      'over',
+      true,
+      result
+    )
+    expectColorClose(result, Color4.create(0.5, 0, 0.4, 0.9))
+  })
+
+  it('blends with the blend modes', () => {
+    const source = Color4.create(0.2, 0.6, 1, 1)
+    const destination = Color4.create(0.5, 0.1, 0.8, 1)
+    const blendTo = (mode: Color4.BlendMode) =>
+      Color4.blend(source, destination, mode)
+
+    expectColorClose(blendTo('normal'), source)
+    expectColorClose(blendTo('multiply'), Color4.create(0.1, 0.06, 0.8, 1))
+    expectColorClose(blendTo('screen'), Color4.create(0.6, 0.64, 1, 1))
+    expectColorClose(blendTo('overlay'), Color4.create(0.2, 0.12, 1, 1))
+    expectColorClose(
+      blendTo('softLight'),
+      Color4.create(
+        0.35,
+        0.1 + 0.2 * (0.296 - 0.1),
+        0.8 + Math.sqrt(0.8) - 0.8,
+        1
+      )
+    )
+    expectColorClose(blendTo('darken'), Color4.create(0.2, 0.1, 0.8, 1))
+    expectColorClose(blendTo('lighten'), Color4.create(0.5, 0.6, 1, 1))
+    expectColorClose(blendTo('difference'), Color4.create(0.3, 0.5, 0.2, 1))
+    expectColorClose(blendTo('colorDodge'), Color4.create(0.625, 0.25, 1, 1))
+    expectColorClose(blendTo('colorBurn'), Color4.create(0, 0, 0.8, 1))
+
+    // a transparent source leaves the destination unchanged
+    expectColorClose(
+      Color4.blend(Color4.create(1, 1, 1, 0), destination, 'difference'),
+      destination
+    )
+    // over a transparent destination the source is drawn as it is
+    expectColorClose(Color4.blend(halfRed, Color4.Clear(), 'multiply'), halfRed)
+  })
+})
@@ -0,0 +1,136 @@
+import { Color4, ColorGradient } from '../src'
+import { expectColorClose } from './helpers'
+
+describe('ECS ColorGradient - Next tests', () => {
+  const healthBar = () =>
+    ColorGradient.create([
+      { position: 1, color: Color4.Green() },
+      { position: 0, color: Color4.Red() },
+      { position: 0.5, color: Color4.Yellow() }
+    ])
+
+  it('ColorGradient.create & addStop & removeStop', () => {
+    const gradient = healthBar()
+    expect(gradient.stops.map(($) => $.position)).toStrictEqual([0, 0.5, 1])
+    expect(gradient.mode).toBe('linear')
+    expect(gradient.space).toBe('rgb')
+
+    const source = Color4.Blue()
+    ColorGradient.addStop(gradient, 0.5, source)
+    source.b = 0
+    expect(gradient.stops[2].color).toStrictEqual(Color4.Blue())
+
+    ColorGradient.removeStop(gradient, 1)
+    ColorGradient.removeStop(gradient, 10)
+    expect(gradient.stops.map(($) => $.color)).toStrictEqual([
+      Color4.Red(),
+      Color4.Blue(),
+      Color4.Green()
+    ])
+
+    const copy = ColorGradient.clone(gradient)
+    ColorGradient.removeStop(copy, 0)
+    expect(gradient.stops.length).toBe(3)
+  })
+
+  it('ColorGradient.sample with each mode', () => {
+    const gradient = healthBar()
+    expectColorClose(ColorGradient.sample(gradient, -1), Color4.Red())
+    expectColorClose(ColorGradient.sample(gradient, 2), Color4.Green())
+    expectColorClose(
+      ColorGradient.sample(gradient, 0.25),
+      Color4.create(1, 0.5, 0, 1)
+    )
+    expect(ColorGradient.sample(ColorGradient.create(), 0.5)).toStrictEqual(
+      Color4.Clear()
+    )
+
+    gradient.mode = 'step'
+    expectColorClose(ColorGradient.sample(gradient, 0.49), Color4.Red())
+    expectColorClose(ColorGradient.sample(gradient, 0.5), Color4.Yellow())
+
+    gradient.mode = 'smooth'
+    const result = Color4.create()
+    ColorGradient.sampleToRef(gradient, 0.125, result)
+    expect(result.g).toBeCloseTo(0.15625)
+    ColorGradient.sampleToRef(gradient, 0.25, result)
+    expect(result.g).toBeCloseTo(0.5)
+  })
+
+  it('ColorGradient.sample in each color space', () => {
+    const stops = [
+      { position: 0, color: Color4.Red() },
+      { position: 1, color: Color4.create(0, 0, 1, 0) }
+    ]
+    const sampleAt = (space: ColorGradient.ColorSpace) =>
+      ColorGradient.sample(ColorGradient.create(stops, 'linear', space), 0.5)
+
+    expectColorClose(sampleAt('rgb'), Color4.create(0.5, 0, 0.5, 0.5))
+    const half = Math.pow(0.5, 1 / 2.2)
+    expectColorClose(sampleAt('linear'), Color4.create(half, 0, half, 0.5))
+    expectColorClose(sampleAt('hsv'), Color4.fromHSV(300, 1, 1, 0.5))
+    expectColorClose(
+      sampleAt('oklab'),
+      Color4.lerpOKLab(stops[0].color, stops[1].color, 0.5)
+    )
+  })
+
+  it('ColorGradient.bake & sampleBakedToRef', () => {
+    const gradient = healthBar()
+    const lookup = ColorGradient.bake(gradient, 5)
+    expect(lookup.length).toBe(20)
+    const result = Color4.create()
+    ColorGradient.sampleBakedToRef(lookup, 0.3, result)
+    expectColorClose(result, ColorGradient.sample(gradient, 0.25))
+    ColorGradient.sampleBakedToRef(lookup, 7, result)
+    expectColorClose(result, Color4.Green())
+    ColorGradient.sampleBakedToRef(new Float32Array(0), 0.5, result)
+    expect(result).toStrictEqual(Color4.Clear())
+  })
+
+  it('ColorGradient.reverse & resample', () => {
+    const gradient = healthBar()
+    gradient.mode = 'step'
+    const reversed = ColorGradient.reverse(gradient)
+    expect(reversed.mode).toBe('step')
+    expect(reversed.stops.map(($) => $.position)).toStrictEqual([0, 0, 0.5, 1])
+    expect(reversed.stops[0].color).toStrictEqual(Color4.Green())
+    for (const position of [-0.5, 0.1, 0.4, 0.6, 0.9, 1.5]) {
+      expectColorClose(
+        ColorGradient.sample(reversed, position),
+        ColorGradient.sample(gradient, 1 - position)
+      )
+    }
+
+    const twoStops = ColorGradient.create(
+      [
+        { position: 0, color: Color4.Red() },
+        { position: 0.5, color: Color4.Blue() }
+      ],
+      'step'
+    )
+    const reversedTwoStops = ColorGradient.reverse(twoStops)
+    expectColorClose(ColorGradient.sample(reversedTwoStops, 0.2), Color4.Blue())
+    expectColorClose(ColorGradient.sample(reversedTwoStops, 0.7), Color4.Red())
+
+    const linear = healthBar()
+    const reversedLinear = ColorGradient.reverse(linear)
+    for (const position of [0, 0.3, 0.5, 0.8, 1]) {
+      expectColorClose(
+        ColorGradient.sample(reversedLinear, position),
+        ColorGradient.sample(linear, 1 - position)
+      )
+    }
+
+    const resampled = ColorGradient.resample(healthBar(), 5)
+    expect(resampled.stops.length).toBe(5)
+    expect(resampled.stops[3].position).toBe(0.75)
+    expectColorClose(
+      resampled.stops[1].color,
+      ColorGradient.sample(healthBar(), 0.25)
+    )
+    expect(ColorGradient.resample(healthBar(), 1).stops).toStrictEqual([
+      { position: 0, color: Color4.Red() }
+    ])
+  })
+})
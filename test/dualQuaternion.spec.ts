@@ -0,0 +1,158 @@
+import { DualQuaternion, Matrix, Quaternion, Vector3 } from '../src'
+import { expectVectorClose } from './helpers'
+
+describe('ECS DualQuaternion - Next tests', () => {
+  it('DualQuaternion.fromRotationTranslation & transformPoint & toMatrix', () => {
+    const rotation = Quaternion.fromEulerDegrees(10, 70, -30)
+    const translation = Vector3.create(1, -2, 3)
+    const pose = DualQuaternion.fromRotationTranslation(rotation, translation)
+    expectVectorClose(DualQuaternion.getTranslation(pose), translation)
+    expect(DualQuaternion.getRotation(pose)).toStrictEqual(rotation)
+
+    const matrix = Matrix.compose(Vector3.One(), rotation, translation)
+    const point = Vector3.create(4, 5, -6)
+    expectVectorClose(
+      DualQuaternion.transformPoint(pose, point),
+      Vector3.transformCoordinates(point, matrix)
+    )
+
+    const poseMatrix = DualQuaternion.toMatrix(pose)
+    for (let i = 0; i < 16; i++) {
+      expect(poseMatrix._m[i]).toBeCloseTo(matrix._m[i])
+    }
+  })
+
+  it('DualQuaternion.multiply & conjugate & normalize', () => {
+    const first = DualQuaternion.fromRotationTranslation(
+      Quaternion.fromAngleAxis(90, Vector3.Up()),
+      Vector3.create(1, 0, 0)
+    )
+    const second = DualQuaternion.fromRotationTranslation(
+      Quaternion.fromAngleAxis(45, Vector3.Right()),
+      Vector3.create(0, 2, 0)
+    )
+    const point = Vector3.create(1, 2, 3)
+
+    // like quaternions, the right transform is applied first
+    const combined = DualQuaternion.multiply(second, first)
+    expectVectorClose(
+      DualQuaternion.transformPoint(combined, point),
+      DualQuaternion.transformPoint(
+        second,
+        DualQuaternion.transformPoint(first, point)
+      )
+    )
+
+    const inverse = DualQuaternion.conjugate(combined)
+    expectVectorClose(
+      DualQuaternion.transformPoint(
+        inverse,
+        DualQuaternion.transformPoint(combined, point)
+      ),
+      point
+    )
+
+    const scaled = DualQuaternion.create(
+      Quaternion.create(0, 0, 0, 2),
+      Quaternion.create(1, 0, 0, 0.5)
+    )
+    const normalized = DualQuaternion.normalize(scaled)
+    expect(Quaternion.length(normalized.real)).toBeCloseTo(1)
+    expect(Quaternion.dot(normalized.real, normalized.dual)).toBeCloseTo(0)
+    expectVectorClose(
+      DualQuaternion.getTranslation(normalized),
+      Vector3.create(1, 0, 0)
+    )
+    expect(
+      DualQuaternion.normalize(
+        DualQuaternion.create(Quaternion.Zero(), Quaternion.Zero())
+      )
+    ).toStrictEqual(DualQuaternion.Identity())
+  })
+
+  it('DualQuaternion.sclerp', () => {
+    const start = DualQuaternion.fromRotationTranslation(
+      Quaternion.Identity(),
+      Vector3.create(2, 0, 0)
+    )
+    const end = DualQuaternion.fromRotationTranslation(
+      Quaternion.fromAngleAxis(90, Vector3.Up()),
+      Vector3.create(0, 4, 0)
+    )
+
+    const atStart = DualQuaternion.sclerp(start, end, 0)
+    expectVectorClose(
+      DualQuaternion.getTranslation(atStart),
+      DualQuaternion.getTranslation(start)
+    )
+    const atEnd = DualQuaternion.sclerp(start, end, 1)
+    expect(Quaternion.equalsWithEpsilon(atEnd.real, end.real)).toBe(true)
+    expectVectorClose(
+      DualQuaternion.getTranslation(atEnd),
+      DualQuaternion.getTranslation(end)
+    )
+
+    // the screw motion rotates at constant speed and moves along its axis at constant speed
+    const middle = DualQuaternion.sclerp(start, end, 0.5)
+    expect(Quaternion.angle(middle.real, start.real)).toBeCloseTo(45)
+    expect(DualQuaternion.getTranslation(middle).y).toBeCloseTo(2)
+
+    // pure translations are interpolated linearly
+    const translated = DualQuaternion.sclerp(
+      start,
+      DualQuaternion.fromRotationTranslation(
+        Quaternion.Identity(),
+        Vector3.create(2, 6, 0)
+      ),
+      0.25
+    )
+    expectVectorClose(
+      DualQuaternion.getTranslation(translated),
+      Vector3.create(2, 1.5, 0)
+    )
+  })
+
+  it('DualQuaternion.dlb', () => {
+    const first = DualQuaternion.fromRotationTranslation(
+      Quaternion.fromAngleAxis(20, Vector3.Forward()),
+      Vector3.create(1, 0, 0)
+    )
+    const second = DualQuaternion.fromRotationTranslation(
+      Quaternion.fromAngleAxis(60, Vector3.Forward()),
+      Vector3.create(1, 0, 0)
+    )
+    // the second rotation with the opposite sign is the same transform
+    const negated = DualQuaternion.create(
+      Quaternion.create(
+        -second.real.x,
+        -second.real.y,
+        -second.real.z,
+        -second.real.w
+      ),
+      Quaternion.create(
+        -second.dual.x,
+        -second.dual.y,
+        -second.dual.z,
+        -second.dual.w
+      )
+    )
+
+    const blended = DualQuaternion.dlb([first, negated], [0.5, 0.5])
+    expect(Quaternion.length(blended.real)).toBeCloseTo(1)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        blended.real,
+        Quaternion.fromAngleAxis(40, Vector3.Forward())
+      )
+    ).toBe(true)
+    expectVectorClose(
+      DualQuaternion.getTranslation(blended),
+      Vector3.create(1, 0, 0)
+    )
+
+    const onlyFirst = DualQuaternion.dlb([first, second], [1])
+    expect(Quaternion.equalsWithEpsilon(onlyFirst.real, first.real)).toBe(true)
+    expect(Quaternion.equalsWithEpsilon(onlyFirst.dual, first.dual)).toBe(true)
+    expect(DualQuaternion.dlb([], [])).toStrictEqual(DualQuaternion.Identity())
+  })
+})
@@ -0,0 +1,94 @@
+import {
+  BoundingBox,
+  BoundingSphere,
+  Frustum,
+  Matrix,
+  Plane,
+  Vector3
+} from '../src'
+
+const projection = Matrix.perspectiveFovLH(Math.PI / 2, 1, 1, 100)
+
+describe('ECS Frustum - Next tests', () => {
+  it('Frustum.fromMatrix', () => {
+    const frustum = Frustum.fromMatrix(projection)
+    expect(Frustum.getPlanes(frustum).length).toBe(6)
+    for (const plane of Frustum.getPlanes(frustum)) {
+      expect(Vector3.length(plane.normal)).toBeCloseTo(1)
+    }
+    expect(
+      Vector3.equalsWithEpsilon(frustum.near.normal, Vector3.Forward())
+    ).toBe(true)
+    expect(frustum.near.d).toBeCloseTo(-1)
+    expect(
+      Vector3.equalsWithEpsilon(frustum.far.normal, Vector3.Backward())
+    ).toBe(true)
+    expect(frustum.far.d).toBeCloseTo(100)
+    expect(
+      Plane.signedDistanceTo(frustum.left, Vector3.create(-10, 0, 10))
+    ).toBeCloseTo(0)
+    expect(
+      Plane.signedDistanceTo(frustum.top, Vector3.create(0, 10, 10))
+    ).toBeCloseTo(0)
+  })
+
+  it('Frustum.containsPoint', () => {
+    const frustum = Frustum.fromMatrix(projection)
+    expect(Frustum.containsPoint(frustum, Vector3.create(0, 0, 10))).toBe(true)
+    expect(Frustum.containsPoint(frustum, Vector3.create(0, 0, 0.5))).toBe(
+      false
+    )
+    expect(Frustum.containsPoint(frustum, Vector3.create(0, 0, 101))).toBe(
+      false
+    )
+    expect(Frustum.containsPoint(frustum, Vector3.create(11, 0, 10))).toBe(
+      false
+    )
+    expect(Frustum.containsPoint(frustum, Vector3.create(0, -11, 10))).toBe(
+      false
+    )
+  })
+
+  it('Frustum with view matrix', () => {
+    const view = Matrix.LookAtLH(
+      Vector3.create(0, 0, -10),
+      Vector3.Zero(),
+      Vector3.Up()
+    )
+    const frustum = Frustum.fromMatrix(Matrix.multiply(view, projection))
+    expect(Frustum.containsPoint(frustum, Vector3.Zero())).toBe(true)
+    expect(Frustum.containsPoint(frustum, Vector3.create(0, 0, -10))).toBe(
+      false
+    )
+  })
+
+  it('Frustum spheres', () => {
+    const frustum = Frustum.fromMatrix(projection)
+    const sphere = (x: number, y: number, z: number, radius: number) =>
+      BoundingSphere.create(Vector3.create(x, y, z), radius)
+
+    expect(Frustum.classifySphere(frustum, sphere(0, 0, 10, 1))).toBe('inside')
+    expect(Frustum.classifySphere(frustum, sphere(10, 0, 10, 1))).toBe(
+      'intersecting'
+    )
+    expect(Frustum.classifySphere(frustum, sphere(0, 0, -5, 1))).toBe('outside')
+    expect(Frustum.intersectsSphere(frustum, sphere(10, 0, 10, 1))).toBe(true)
+    expect(Frustum.intersectsSphere(frustum, sphere(30, 0, 10, 1))).toBe(false)
+  })
+
+  it('Frustum boxes', () => {
+    const frustum = Frustum.fromMatrix(projection)
+    const box = (x: number, y: number, z: number, extent: number) =>
+      BoundingBox.fromCenterAndExtents(
+        Vector3.create(x, y, z),
+        Vector3.create(extent, extent, extent)
+      )
+
+    expect(Frustum.classifyBox(frustum, box(0, 0, 10, 1))).toBe('inside')
+    expect(Frustum.classifyBox(frustum, box(0, 10, 10, 1))).toBe('intersecting')
+    expect(Frustum.classifyBox(frustum, box(0, 0, 100, 1))).toBe('intersecting')
+    expect(Frustum.classifyBox(frustum, box(0, 0, 200, 1))).toBe('outside')
+    expect(Frustum.intersectsBox(frustum, box(-20, 0, 10, 1))).toBe(false)
+    expect(Frustum.intersectsBox(frustum, box(0, 0, 1, 1))).toBe(true)
+  })
+})
@@ -0,0 +1,40 @@
+/**
+ * Expects each component of a Vector2 or a Vector3 to be close to the expected one
+ */
+export function expectVectorClose<
+  T extends { x: number; y: number; z?: number }
+>(actual: T, expected: T) {
+  expect(actual.x).toBeCloseTo(expected.x)
+  expect(actual.y).toBeCloseTo(expected.y)
+  if (expected.z !== undefined) {
+    expect(actual.z).toBeCloseTo(expected.z)
+  }
+}
+
+/**
+ * Expects each component of a Color3 or a Color4 to be close to the expected one
+ */
+export function expectColorClose<
+  T extends { r: number; g: number; b: number; a?: number }
+>(actual: T, expected: T) {
+  expect(actual.r).toBeCloseTo(expected.r)
+  expect(actual.g).toBeCloseTo(expected.g)
+  expect(actual.b).toBeCloseTo(expected.b)
+  if (expected.a !== undefined) {
+    expect(actual.a).toBeCloseTo(expected.a)
+  }
+}
+
+/**
+ * Expects each value of a Matrix or a Matrix3 to be close to the expected one
+ */
+export function expectMatrixClose(
+  actual: { _m: ArrayLike<number> },
+  expected: { _m: ArrayLike<number> },
+  numDigits?: number
+) {
+  expect(actual._m.length).toBe(expected._m.length)
+  for (let i = 0; i < expected._m.length; i++) {
+    expect(actual._m[i]).toBeCloseTo(expected._m[i], numDigits)
+  }
+}
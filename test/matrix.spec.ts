@@ -1,5 +1,6 @@
-import { Epsilon, Quaternion, Vector3 } from '../src'
+import { Epsilon, Matrix3, Quaternion, Vector3, Vector4 } from '../src'
 import { Matrix } from '../src/Matrix'
+import { expectMatrixClose } from './helpers'
 
 const results = {
   identity:
@@ -54,4 +55,238 @@ describe('ECS Matrix - Next tests', () => {
         Epsilon
     ).toBe(true)
   })
+
+  it('Matrix.getRow, setRow & getColumn', () => {
+    const m = Matrix.translation(1, 2, 3)
+    expect(Matrix.getRow(m, 3)).toStrictEqual(Vector4.create(1, 2, 3, 1))
+    expect(Matrix.getColumn(m, 0)).toStrictEqual(Vector4.create(1, 0, 0, 1))
+    expect(Matrix.getRow(m, 4)).toBeNull()
+    expect(Matrix.getColumn(m, -1)).toBeNull()
+
+    Matrix.setRow(m, 0, Vector4.create(5, 6, 7, 8))
+    expect(Matrix.getRow(m, 0)).toStrictEqual(Vector4.create(5, 6, 7, 8))
+  })
+  it('Matrix.invert & multiply', () => {
+    const m = Matrix.compose(
+      Vector3.create(1, 2, 3),
+      Quaternion.fromEulerDegrees(30, 45, 60),
+      Vector3.create(4, -5, 6)
+    )
+    const inverse = Matrix.invert(m)
+    expect(
+      matrixToString(Matrix.multiply(m, inverse)) === results.identity
+    ).toBe(true)
+    expect(Matrix.determinant(m)).toBeCloseTo(6)
+    expect(Matrix.determinant(inverse)).toBeCloseTo(1 / 6)
+  })
+
+  it('Matrix.transpose', () => {
+    const m = Matrix.translation(1, 2, 3)
+    const transposed = Matrix.transpose(m)
+    expect(Matrix.getColumn(transposed, 3)).toStrictEqual(
+      Vector4.create(1, 2, 3, 1)
+    )
+    expect(Matrix.equals(Matrix.transpose(transposed), m)).toBe(true)
+  })
+
+  it('Matrix.IdentityReadonly & isIdentityUpdate', () => {
+    expect(matrixToString(Matrix.IdentityReadonly())).toEqual(results.identity)
+    expect(
+      Matrix.isIdentityUpdate(Matrix.clone(Matrix.IdentityReadonly()))
+    ).toBe(true)
+    expect(Matrix.isIdentityUpdate(Matrix.translation(1, 0, 0))).toBe(false)
+  })
+
+  it('Matrix.getRotationMatrix', () => {
+    const r = Quaternion.fromEulerDegrees(10, 20, 30)
+    const m = Matrix.compose(
+      Vector3.create(2, 2, 2),
+      r,
+      Vector3.create(1, 2, 3)
+    )
+    const rotation = Matrix.getRotationMatrix(m)
+    expect(Matrix.getRow(rotation, 3)).toStrictEqual(Vector4.create(0, 0, 0, 1))
+    expect(Matrix.decompose(rotation, sOut, rOut, tOut)).toBe(true)
+    expect(Vector3.equalsWithEpsilon(sOut, Vector3.One())).toBe(true)
+    expect(Math.abs(Quaternion.angle(r, rOut)) < Epsilon).toBe(true)
+  })
+
+  it('Matrix.LookAtLH', () => {
+    const eye = Vector3.create(0, 0, -10)
+    const view = Matrix.LookAtLH(eye, Vector3.Zero(), Vector3.Up())
+    expect(
+      Vector3.equalsWithEpsilon(
+        Vector3.transformCoordinates(Vector3.Zero(), view),
+        Vector3.create(0, 0, 10)
+      )
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Vector3.transformCoordinates(eye, view),
+        Vector3.Zero()
+      )
+    ).toBe(true)
+  })
+
+  it('Matrix.perspectiveFovLH', () => {
+    const projection = Matrix.perspectiveFovLH(Math.PI / 2, 1, 1, 100)
+    expect(
+      Vector3.transformCoordinates(Vector3.create(0, 0, 1), projection).z
+    ).toBeCloseTo(-1)
+    expect(
+      Vector3.transformCoordinates(Vector3.create(0, 0, 100), projection).z
+    ).toBeCloseTo(1)
+  })
+
+  it('Matrix.fromEuler & toEuler', () => {
+    const angles = Vector3.create(15, -25, 35)
+    const m = Matrix.fromEuler('YXZ', angles)
+    const point = Vector3.create(1, 2, 3)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Vector3.transformCoordinates(point, m),
+        Vector3.rotate(point, Quaternion.fromEuler('YXZ', angles))
+      )
+    ).toBe(true)
+
+    const scaled = Matrix.compose(
+      Vector3.create(2, 3, 4),
+      Quaternion.fromEuler('YXZ', angles),
+      Vector3.create(5, 6, 7)
+    )
+    expect(
+      Vector3.equalsWithEpsilon(Matrix.toEuler(scaled, 'YXZ'), angles)
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Matrix.toEuler(m, 'YXZ', 'radians'),
+        Vector3.scale(angles, Math.PI / 180)
+      )
+    ).toBe(true)
+  })
+
+  // scale, then shear, then rotation, then translation
+  const rebuildFull = (parts: Matrix.FullDecomposition) => {
+    const { scale, shear, rotation, translation } = parts
+    const shearMatrix = Matrix.fromValues(
+      1,
+      0,
+      0,
+      0,
+      shear.x,
+      1,
+      0,
+      0,
+      shear.y,
+      shear.z,
+      1,
+      0,
+      0,
+      0,
+      0,
+      1
+    )
+    const rotationMatrix = Matrix.create()
+    Matrix.fromQuaternionToRef(rotation, rotationMatrix)
+    const result = Matrix.multiply(
+      Matrix.multiply(Matrix.scaling(scale.x, scale.y, scale.z), shearMatrix),
+      rotationMatrix
+    )
+    Matrix.setTranslation(result, translation)
+    return result
+  }
+
+  it('Matrix.decomposeFull', () => {
+    const rotation = Quaternion.fromEulerDegrees(20, 40, 60)
+    const trs = Matrix.compose(
+      Vector3.create(1, 2, 3),
+      rotation,
+      Vector3.create(4, 5, 6)
+    )
+    const parts = Matrix.decomposeFull(trs)
+    expect(
+      Vector3.equalsWithEpsilon(parts.scale, Vector3.create(1, 2, 3))
+    ).toBe(true)
+    expect(Vector3.equalsWithEpsilon(parts.shear, Vector3.Zero())).toBe(true)
+    expect(Quaternion.equalsWithEpsilon(parts.rotation, rotation)).toBe(true)
+    expect(parts.translation).toStrictEqual(Vector3.create(4, 5, 6))
+    expect(parts.mirrored).toBe(false)
+    expect(parts.lossy).toBe(false)
+
+    // a rotated child of a parent with a non uniform scale is sheared
+    const child = Matrix.compose(
+      Vector3.One(),
+      Quaternion.fromAngleAxis(45, Vector3.Forward()),
+      Vector3.create(1, 0, 0)
+    )
+    const sheared = Matrix.multiply(
+      child,
+      Matrix.compose(Vector3.create(1, 3, 1), rotation, Vector3.Zero())
+    )
+    const shearedParts = Matrix.decomposeFull(sheared)
+    expect(Vector3.length(shearedParts.shear)).toBeGreaterThan(0.1)
+    expect(shearedParts.lossy).toBe(false)
+    expectMatrixClose(rebuildFull(shearedParts), sheared)
+
+    const mirrored = Matrix.compose(
+      Vector3.create(-1, 2, 3),
+      rotation,
+      Vector3.Zero()
+    )
+    const mirroredParts = Matrix.decomposeFull(mirrored)
+    expect(mirroredParts.mirrored).toBe(true)
+    expect(mirroredParts.scale.y).toBeLessThan(0)
+    expectMatrixClose(rebuildFull(mirroredParts), mirrored)
+    const mirroredSheared = Matrix.multiply(mirrored, sheared)
+    expectMatrixClose(
+      rebuildFull(Matrix.decomposeFull(mirroredSheared)),
+      mirroredSheared
+    )
+
+    expect(Matrix.decomposeFull(Matrix.scaling(1, 0, 1)).lossy).toBe(true)
+    expect(
+      Matrix.decomposeFull(Matrix.perspectiveFovLH(1, 1, 1, 10)).lossy
+    ).toBe(true)
+  })
+
+  it('Matrix.polarDecompose', () => {
+    const rotation = Quaternion.fromEulerDegrees(-30, 10, 80)
+    const rotated = Matrix.compose(
+      Vector3.create(2, 2, 2),
+      rotation,
+      Vector3.create(1, 1, 1)
+    )
+    const parts = Matrix.polarDecompose(rotated)
+    expect(Quaternion.equalsWithEpsilon(parts.rotation, rotation)).toBe(true)
+    expect(parts.mirrored).toBe(false)
+    for (let i = 0; i < 9; i++) {
+      expect(parts.stretch._m[i]).toBeCloseTo(i % 4 === 0 ? 2 : 0)
+    }
+
+    const sheared = Matrix.multiply(
+      Matrix.compose(
+        Vector3.One(),
+        Quaternion.fromAngleAxis(30, Vector3.Up()),
+        Vector3.Zero()
+      ),
+      Matrix.compose(Vector3.create(-1, 4, 2), rotation, Vector3.Zero())
+    )
+    const polar = Matrix.polarDecompose(sheared)
+    expect(polar.mirrored).toBe(true)
+    const transposed = Matrix3.transpose(polar.stretch)
+    for (let i = 0; i < 9; i++) {
+      expect(transposed._m[i]).toBeCloseTo(polar.stretch._m[i])
+    }
+    const rebuilt = Matrix3.multiply(
+      polar.stretch,
+      Matrix3.fromQuaternion(polar.rotation)
+    )
+    const expected = Matrix3.fromMatrix4(sheared)
+    for (let i = 0; i < 9; i++) {
+      expect(rebuilt._m[i]).toBeCloseTo(expected._m[i])
+    }
+
+    const singular = Matrix.polarDecompose(Matrix.scaling(1, 0, 1))
+    expect(singular.rotation).toStrictEqual(Quaternion.Identity())
+  })
 })
@@ -0,0 +1,188 @@
+import { Matrix, Matrix3, Quaternion, Vector3 } from '../src'
+import { expectMatrixClose } from './helpers'
+
+describe('ECS Matrix3 - Next tests', () => {
+  it('Matrix3.multiply & transpose & determinant & invert', () => {
+    const a = Matrix3.fromValues(2, 0, 1, 1, 3, 0, 0, 1, 4)
+    const b = Matrix3.fromValues(1, 2, 0, 0, 1, 1, 3, 0, 1)
+    expect(Matrix3.multiply(a, b)).toStrictEqual(
+      Matrix3.fromValues(5, 4, 1, 1, 5, 3, 12, 1, 5)
+    )
+    expect(Matrix3.multiply(a, Matrix3.Identity())).toStrictEqual(a)
+
+    expect(Matrix3.transpose(a)).toStrictEqual(
+      Matrix3.fromValues(2, 1, 0, 0, 3, 1, 1, 0, 4)
+    )
+    expect(Matrix3.determinant(a)).toBe(25)
+    expect(Matrix3.determinant(Matrix3.transpose(a))).toBe(25)
+
+    expectMatrixClose(
+      Matrix3.multiply(a, Matrix3.invert(a)),
+      Matrix3.Identity()
+    )
+    expectMatrixClose(
+      Matrix3.multiply(Matrix3.invert(a), a),
+      Matrix3.Identity()
+    )
+
+    const singular = Matrix3.fromValues(1, 2, 3, 2, 4, 6, 0, 1, 1)
+    expect(Matrix3.determinant(singular)).toBe(0)
+    expect(Matrix3.invert(singular)).toStrictEqual(singular)
+
+    // the operations can store the result in one of their operands
+    const inPlace = Matrix3.clone(a)
+    Matrix3.multiplyToRef(inPlace, b, inPlace)
+    expect(inPlace).toStrictEqual(Matrix3.multiply(a, b))
+    Matrix3.transposeToRef(inPlace, inPlace)
+    expect(inPlace).toStrictEqual(Matrix3.transpose(Matrix3.multiply(a, b)))
+  })
+
+  it('Matrix3.fromQuaternion & fromMatrix4 & transformVector3', () => {
+    const rotation = Quaternion.fromEulerDegrees(30, -45, 60)
+    const matrix3 = Matrix3.fromQuaternion(rotation)
+    const matrix4 = Matrix.create()
+    Matrix.fromQuaternionToRef(rotation, matrix4)
+    expectMatrixClose(matrix3, Matrix3.fromMatrix4(matrix4))
+    expect(Matrix3.determinant(matrix3)).toBeCloseTo(1)
+
+    const vector = Vector3.create(1, -2, 3)
+    const transformed = Matrix3.transformVector3(vector, matrix3)
+    const expected = Vector3.rotate(vector, rotation)
+    expect(transformed.x).toBeCloseTo(expected.x)
+    expect(transformed.y).toBeCloseTo(expected.y)
+    expect(transformed.z).toBeCloseTo(expected.z)
+
+    const world = Matrix.compose(
+      Vector3.create(2, 3, 4),
+      rotation,
+      Vector3.create(10, 20, 30)
+    )
+    const upperLeft = Matrix3.fromMatrix4(world)
+    const withoutTranslation = Vector3.transformNormal(vector, world)
+    const result = Matrix3.transformVector3(vector, upperLeft)
+    expect(result.x).toBeCloseTo(withoutTranslation.x)
+    expect(result.y).toBeCloseTo(withoutTranslation.y)
+    expect(result.z).toBeCloseTo(withoutTranslation.z)
+  })
+
+  it('Matrix3.normalMatrix', () => {
+    const world = Matrix.compose(
+      Vector3.create(1, 4, 1),
+      Quaternion.fromAngleAxis(30, Vector3.Forward()),
+      Vector3.create(5, 0, 0)
+    )
+    const normalMatrix = Matrix3.normalMatrix(world)
+
+    // the normal of a slanted plane stays perpendicular to it once transformed
+    const tangent = Vector3.normalize(Vector3.create(1, 1, 0))
+    const normal = Vector3.normalize(Vector3.create(1, -1, 0))
+    const worldTangent = Vector3.transformNormal(tangent, world)
+    const worldNormal = Matrix3.transformVector3(normal, normalMatrix)
+    expect(Vector3.dot(worldTangent, worldNormal)).toBeCloseTo(0)
+
+    const legacy = Matrix.create()
+    Matrix.normalMatrixToRef(world, legacy)
+    expectMatrixClose(normalMatrix, Matrix3.fromMatrix4(legacy))
+  })
+
+  it('Matrix3.eigenSymmetric3', () => {
+    const axes = Matrix3.fromQuaternion(
+      Quaternion.fromEulerDegrees(20, -35, 50)
+    )
+    const symmetric = Matrix3.multiply(
+      Matrix3.multiply(
+        Matrix3.transpose(axes),
+        Matrix3.fromValues(3, 0, 0, 0, 5, 0, 0, 0, 1)
+      ),
+      axes
+    )
+    const eigen = Matrix3.eigenSymmetric3(symmetric)
+    expect(eigen.values.x).toBeCloseTo(5)
+    expect(eigen.values.y).toBeCloseTo(3)
+    expect(eigen.values.z).toBeCloseTo(1)
+
+    const values = [eigen.values.x, eigen.values.y, eigen.values.z]
+    eigen.vectors.forEach((vector, i) => {
+      expect(Vector3.length(vector)).toBeCloseTo(1)
+      const image = Matrix3.transformVector3(vector, symmetric)
+      expect(image.x).toBeCloseTo(vector.x * values[i])
+      expect(image.y).toBeCloseTo(vector.y * values[i])
+      expect(image.z).toBeCloseTo(vector.z * values[i])
+    })
+
+    const rotatedAxes = [Vector3.Right(), Vector3.Up(), Vector3.Forward()].map(
+      ($) => Vector3.rotate($, eigen.rotation)
+    )
+    rotatedAxes.forEach((axis, i) => {
+      expect(Vector3.equalsWithEpsilon(axis, eigen.vectors[i], 1e-5)).toBe(true)
+    })
+
+    const diagonal = Matrix3.eigenSymmetric3(
+      Matrix3.fromValues(1, 0, 0, 0, 2, 0, 0, 0, 3)
+    )
+    expect(diagonal.values).toStrictEqual(Vector3.create(3, 2, 1))
+  })
+
+  it('Matrix3.svd', () => {
+    const rebuild = (parts: Matrix3.SingularValueDecomposition) =>
+      Matrix3.multiply(
+        Matrix3.multiply(
+          Matrix3.fromQuaternion(Quaternion.conjugate(parts.v)),
+          Matrix3.fromValues(
+            parts.singularValues.x,
+            0,
+            0,
+            0,
+            parts.singularValues.y,
+            0,
+            0,
+            0,
+            parts.singularValues.z
+          )
+        ),
+        Matrix3.fromQuaternion(parts.u)
+      )
+
+    const general = Matrix3.fromValues(2, -1, 0.5, 0.3, 1.5, 2, -1, 0.2, 0.7)
+    const parts = Matrix3.svd(general)
+    expectMatrixClose(rebuild(parts), general)
+    expect(parts.singularValues.x).toBeGreaterThanOrEqual(
+      parts.singularValues.y
+    )
+    expect(parts.singularValues.y).toBeGreaterThanOrEqual(
+      Math.abs(parts.singularValues.z)
+    )
+    expect(
+      parts.singularValues.x * parts.singularValues.y * parts.singularValues.z
+    ).toBeCloseTo(Matrix3.determinant(general))
+
+    const mirrored = Matrix3.fromValues(0, 1, 0, 1, 0, 0, 0, 0, 2)
+    const mirroredParts = Matrix3.svd(mirrored)
+    expect(mirroredParts.singularValues.z).toBeCloseTo(-1)
+    expectMatrixClose(rebuild(mirroredParts), mirrored)
+
+    const flat = Matrix3.fromValues(2, 0, 0, 0, 0, 0, 0, 0, 1)
+    expectMatrixClose(rebuild(Matrix3.svd(flat)), flat)
+    expect(Matrix3.svd(Matrix3.create()).singularValues).toStrictEqual(
+      Vector3.Zero()
+    )
+  })
+
+  it('Matrix3.covariance', () => {
+    expect(Matrix3.covariance([])).toStrictEqual(Matrix3.create())
+    expect(
+      Matrix3.covariance([Vector3.create(1, 2, 3), Vector3.create(3, 2, 1)])
+    ).toStrictEqual(Matrix3.fromValues(1, 0, -1, 0, 0, 0, -1, 0, 1))
+
+    // points spread along a direction have it as their first principal axis
+    const direction = Vector3.normalize(Vector3.create(1, 2, -1))
+    const points = [-3, -1, 0, 2, 4].map((t, i) =>
+      Vector3.add(
+        Vector3.scale(direction, t),
+        Vector3.create(0.01 * (i % 2), 0, 0.01 * (i % 3))
+      )
+    )
+    const axis = Matrix3.eigenSymmetric3(Matrix3.covariance(points)).vectors[0]
+    expect(Math.abs(Vector3.dot(axis, direction))).toBeCloseTo(1, 3)
+  })
+})
@@ -0,0 +1,116 @@
+import { Matrix, Matrix3x2, Vector2 } from '../src'
+import { expectVectorClose } from './helpers'
+
+describe('ECS Matrix3x2 - Next tests', () => {
+  it('Matrix3x2 constructors & transformPoint & transformVector', () => {
+    const point = Vector2.create(2, 3)
+    expectVectorClose(
+      Matrix3x2.transformPoint(point, Matrix3x2.translation(1, -1)),
+      Vector2.create(3, 2)
+    )
+    expectVectorClose(
+      Matrix3x2.transformVector(point, Matrix3x2.translation(1, -1)),
+      point
+    )
+    expectVectorClose(
+      Matrix3x2.transformPoint(point, Matrix3x2.scaling(2, -1)),
+      Vector2.create(4, -3)
+    )
+    expectVectorClose(
+      Matrix3x2.transformPoint(
+        Vector2.create(1, 0),
+        Matrix3x2.rotation(Math.PI / 2)
+      ),
+      Vector2.create(0, 1)
+    )
+    expectVectorClose(
+      Matrix3x2.transformPoint(point, Matrix3x2.skew(Math.PI / 4, 0)),
+      Vector2.create(5, 3)
+    )
+    expectVectorClose(
+      Matrix3x2.transformPoint(point, Matrix3x2.skew(0, Math.PI / 4)),
+      Vector2.create(2, 5)
+    )
+  })
+
+  it('Matrix3x2.multiply & invert & determinant', () => {
+    const scale = Matrix3x2.scaling(2, 3)
+    const move = Matrix3x2.translation(5, 0)
+    const point = Vector2.create(1, 1)
+
+    // like Matrix, the left matrix is applied first
+    expectVectorClose(
+      Matrix3x2.transformPoint(point, Matrix3x2.multiply(scale, move)),
+      Vector2.create(7, 3)
+    )
+    expectVectorClose(
+      Matrix3x2.transformPoint(point, Matrix3x2.multiply(move, scale)),
+      Vector2.create(12, 3)
+    )
+
+    const transform = Matrix3x2.compose(
+      Vector2.create(2, -0.5),
+      0.7,
+      Vector2.create(4, -2),
+      0.3
+    )
+    const inverse = Matrix3x2.invert(transform)
+    const product = Matrix3x2.multiply(transform, inverse)
+    const identity = Matrix3x2.Identity()
+    for (let i = 0; i < 6; i++) {
+      expect(product._m[i]).toBeCloseTo(identity._m[i])
+    }
+    expect(Matrix3x2.determinant(transform)).toBeCloseTo(-1)
+
+    const flat = Matrix3x2.scaling(1, 0)
+    expect(Matrix3x2.invert(flat)).toStrictEqual(flat)
+  })
+
+  it('Matrix3x2.compose & decompose', () => {
+    const scale = Vector2.create(2, 3)
+    const offset = Vector2.create(-4, 5)
+    const transform = Matrix3x2.compose(scale, 0.5, offset, 0.25)
+
+    const expected = Matrix3x2.multiply(
+      Matrix3x2.multiply(
+        Matrix3x2.multiply(Matrix3x2.scaling(2, 3), Matrix3x2.skew(0.25, 0)),
+        Matrix3x2.rotation(0.5)
+      ),
+      Matrix3x2.translation(-4, 5)
+    )
+    for (let i = 0; i < 6; i++) {
+      expect(transform._m[i]).toBeCloseTo(expected._m[i])
+    }
+
+    const parts = Matrix3x2.decompose(transform)
+    expectVectorClose(parts.scale, scale)
+    expect(parts.rotation).toBeCloseTo(0.5)
+    expect(parts.skew).toBeCloseTo(0.25)
+    expectVectorClose(parts.translation, offset)
+
+    const mirrored = Matrix3x2.decompose(
+      Matrix3x2.compose(Vector2.create(1, -2), -2, Vector2.Zero())
+    )
+    expectVectorClose(mirrored.scale, Vector2.create(1, -2))
+    expect(mirrored.rotation).toBeCloseTo(-2)
+    expect(mirrored.skew).toBeCloseTo(0)
+
+    const collapsed = Matrix3x2.decompose(Matrix3x2.create())
+    expect(collapsed.scale).toStrictEqual(Vector2.Zero())
+    expect(collapsed.rotation).toBe(0)
+  })
+
+  it('Matrix3x2.toMatrix & fromMatrix', () => {
+    const identity = Matrix3x2.toMatrix(Matrix3x2.Identity())
+    expect(Matrix.isIdentityAs3x2Update(identity)).toBe(true)
+
+    const transform = Matrix3x2.compose(
+      Vector2.create(2, 1),
+      1,
+      Vector2.create(0.5, 0.25)
+    )
+    const matrix = Matrix3x2.toMatrix(transform)
+    expect(Matrix.isIdentityAs3x2Update(matrix)).toBe(false)
+    expect(Matrix3x2.fromMatrix(matrix)).toStrictEqual(transform)
+  })
+})
@@ -0,0 +1,141 @@
+import { Matrix, MatrixArray, Quaternion, Vector3 } from '../src'
+import { expectMatrixClose } from './helpers'
+
+describe('ECS MatrixArray - Next tests', () => {
+  const count = 2000
+  const transforms = Array.from({ length: count }, (_, i) => ({
+    scale: Vector3.create(1 + (i % 3), 2, 0.5),
+    rotation: Quaternion.fromEulerDegrees(i % 360, (i * 7) % 360, 30),
+    position: Vector3.create(i, -i * 0.5, 3)
+  }))
+  const scales = new Float32Array(count * 3)
+  const rotations = new Float32Array(count * 4)
+  const translations = new Float32Array(count * 3)
+  transforms.forEach(({ scale, rotation, position }, i) => {
+    scales.set([scale.x, scale.y, scale.z], i * 3)
+    rotations.set([rotation.x, rotation.y, rotation.z, rotation.w], i * 4)
+    translations.set([position.x, position.y, position.z], i * 3)
+  })
+  const parent = Matrix.compose(
+    Vector3.create(2, 2, 2),
+    Quaternion.fromEulerDegrees(0, 45, 0),
+    Vector3.create(10, 0, -5)
+  )
+
+  const composeAt = (i: number) =>
+    Matrix.compose(
+      transforms[i].scale,
+      transforms[i].rotation,
+      transforms[i].position
+    )
+
+  // the float32 values of the arrays are compared with 3 digits
+  const matrixAt = (array: Float32Array, index: number) => ({
+    _m: array.subarray(index * 16, index * 16 + 16)
+  })
+
+  // best time of several runs to limit the noise of the machine
+  const measure = (run: () => void) => {
+    let best = Number.MAX_VALUE
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const start = Date.now()
+      for (let frame = 0; frame < 30; frame++) {
+        run()
+      }
+      best = Math.min(best, Date.now() - start)
+    }
+    return best
+  }
+
+  it('MatrixArray.create & setMatrix & getMatrixToRef', () => {
+    const array = MatrixArray.Identity(3)
+    expect(MatrixArray.getCount(array)).toBe(3)
+    const matrix = Matrix.create()
+    MatrixArray.getMatrixToRef(array, 2, matrix)
+    expect(Matrix.isIdentityUpdate(matrix)).toBe(true)
+
+    MatrixArray.setMatrix(array, 1, parent)
+    MatrixArray.getMatrixToRef(array, 1, matrix)
+    expectMatrixClose(matrixAt(array, 1), parent, 3)
+    expect(matrix.updateFlag).not.toBe(parent.updateFlag)
+    expect(MatrixArray.create(2)).toStrictEqual(new Float32Array(32))
+  })
+
+  it('MatrixArray.compose & multiply & multiplyByMatrix', () => {
+    const local = MatrixArray.create(count)
+    MatrixArray.compose(scales, rotations, translations, local)
+    for (const i of [0, 1, 777, count - 1]) {
+      expectMatrixClose(matrixAt(local, i), composeAt(i), 3)
+    }
+
+    const world = MatrixArray.create(count)
+    MatrixArray.multiplyByMatrix(local, parent, world)
+    const expected = Matrix.create()
+    const localMatrix = Matrix.create()
+    for (const i of [0, 1, 777, count - 1]) {
+      MatrixArray.getMatrixToRef(local, i, localMatrix)
+      Matrix.multiplyToRef(localMatrix, parent, expected)
+      expectMatrixClose(matrixAt(world, i), expected, 3)
+    }
+
+    // item by item product, in place
+    const parents = MatrixArray.create(count)
+    for (let i = 0; i < count; i++) {
+      MatrixArray.setMatrix(parents, i, parent)
+    }
+    MatrixArray.multiply(local, parents, local)
+    expectMatrixClose(
+      matrixAt(local, 777),
+      Matrix.multiply(composeAt(777), parent),
+      3
+    )
+
+    // only the first items are processed when a count is given
+    const partial = MatrixArray.create(2)
+    MatrixArray.compose(scales, rotations, translations, partial, 1)
+    expect(partial[16 + 15]).toBe(0)
+  })
+
+  it('MatrixArray.transformPoints & transformPointsByArray', () => {
+    const points = new Float32Array([1, 2, 3, -4, 0, 2])
+    const result = new Float32Array(6)
+    MatrixArray.transformPoints(points, parent, result)
+    const expected = Vector3.transformCoordinates(
+      Vector3.create(-4, 0, 2),
+      parent
+    )
+    expect(result[3]).toBeCloseTo(expected.x, 4)
+    expect(result[4]).toBeCloseTo(expected.y, 4)
+    expect(result[5]).toBeCloseTo(expected.z, 4)
+
+    const matrices = MatrixArray.create(2)
+    MatrixArray.setMatrix(matrices, 0, Matrix.translation(1, 1, 1))
+    MatrixArray.setMatrix(matrices, 1, parent)
+    MatrixArray.transformPointsByArray(points, matrices, points)
+    expect(Array.from(points.slice(0, 3))).toStrictEqual([2, 3, 4])
+    expect(points[3]).toBeCloseTo(expected.x, 4)
+  })
+
+  it('MatrixArray benchmark against Matrix objects', () => {
+    const worldMatrices = Array.from({ length: count }, () => Matrix.create())
+    const objectTime = measure(() => {
+      for (let i = 0; i < count; i++) {
+        Matrix.multiplyToRef(composeAt(i), parent, worldMatrices[i])
+      }
+    })
+
+    const local = MatrixArray.create(count)
+    const world = MatrixArray.create(count)
+    const arrayTime = measure(() => {
+      MatrixArray.compose(scales, rotations, translations, local)
+      MatrixArray.multiplyByMatrix(local, parent, world)
+    })
+
+    for (const i of [0, 1, 777, count - 1]) {
+      expectMatrixClose(matrixAt(world, i), worldMatrices[i], 3)
+    }
+    // the arrays are several times faster, asserting only that they are faster
+    // leaves a generous margin for the noise of the machine
+    expect(arrayTime).toBeLessThan(objectTime)
+  })
+})
@@ -0,0 +1,156 @@
+import {
+  BoundingBox,
+  BoundingSphere,
+  Matrix,
+  OrientedBox,
+  Quaternion,
+  Vector3
+} from '../src'
+
+describe('ECS OrientedBox - Next tests', () => {
+  it('OrientedBox.fromTransform & getCorners', () => {
+    const position = Vector3.create(1, 2, 3)
+    const rotation = Quaternion.fromEulerDegrees(10, 20, 30)
+    const scale = Vector3.create(2, 4, -6)
+    const box = OrientedBox.fromTransform(position, rotation, scale)
+    expect(box.halfExtents).toStrictEqual(Vector3.create(1, 2, 3))
+
+    const matrix = Matrix.compose(scale, rotation, position)
+    const unitCube = BoundingBox.fromCenterAndExtents(
+      Vector3.Zero(),
+      Vector3.create(0.5, 0.5, 0.5)
+    )
+    const expected = BoundingBox.getCorners(unitCube).map(($) =>
+      Vector3.transformCoordinates($, matrix)
+    )
+    const corners = OrientedBox.getCorners(box)
+    expect(corners.length).toBe(8)
+    for (const corner of expected) {
+      expect(corners.some(($) => Vector3.equalsWithEpsilon($, corner))).toBe(
+        true
+      )
+    }
+  })
+
+  it('OrientedBox.toBoundingBox', () => {
+    const box = OrientedBox.create(
+      Vector3.create(5, 0, 0),
+      Vector3.create(1, 1, 1),
+      Quaternion.fromEulerDegrees(0, 45, 0)
+    )
+    const aabb = OrientedBox.toBoundingBox(box)
+    expect(
+      Vector3.equalsWithEpsilon(
+        aabb.minimum,
+        Vector3.create(5 - Math.SQRT2, -1, -Math.SQRT2)
+      )
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(
+        aabb.maximum,
+        Vector3.create(5 + Math.SQRT2, 1, Math.SQRT2)
+      )
+    ).toBe(true)
+
+    const enclosing = BoundingBox.fromPoints(OrientedBox.getCorners(box))
+    expect(Vector3.equalsWithEpsilon(enclosing.minimum, aabb.minimum)).toBe(
+      true
+    )
+  })
+
+  it('OrientedBox.containsPoint & closestPoint', () => {
+    const box = OrientedBox.create(
+      Vector3.Zero(),
+      Vector3.create(2, 1, 1),
+      Quaternion.fromEulerDegrees(0, 0, 90)
+    )
+    expect(OrientedBox.containsPoint(box, Vector3.create(0, 1.5, 0))).toBe(true)
+    expect(OrientedBox.containsPoint(box, Vector3.create(1.5, 0, 0))).toBe(
+      false
+    )
+    expect(
+      Vector3.equalsWithEpsilon(
+        OrientedBox.closestPoint(box, Vector3.create(0, 5, 0)),
+        Vector3.create(0, 2, 0)
+      )
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(
+        OrientedBox.closestPoint(box, Vector3.create(0.5, 0.5, 0.5)),
+        Vector3.create(0.5, 0.5, 0.5)
+      )
+    ).toBe(true)
+  })
+
+  it('OrientedBox.intersectsSphere', () => {
+    const box = OrientedBox.create(
+      Vector3.Zero(),
+      Vector3.One(),
+      Quaternion.fromEulerDegrees(0, 45, 0)
+    )
+    expect(
+      OrientedBox.intersectsSphere(
+        box,
+        BoundingSphere.create(Vector3.create(1.8, 0, 0), 0.5)
+      )
+    ).toBe(true)
+    expect(
+      OrientedBox.intersectsSphere(
+        box,
+        BoundingSphere.create(Vector3.create(1.5, 0, 1.5), 0.5)
+      )
+    ).toBe(false)
+  })
+
+  it('OrientedBox.intersectsOrientedBox', () => {
+    const a = OrientedBox.create(
+      Vector3.Zero(),
+      Vector3.One(),
+      Quaternion.fromEulerDegrees(0, 45, 0)
+    )
+    const b = OrientedBox.create(
+      Vector3.create(2.2, 0, 0),
+      Vector3.One(),
+      Quaternion.Identity()
+    )
+    const c = OrientedBox.create(
+      Vector3.create(1.6, 0, 1.6),
+      Vector3.create(0.5, 0.5, 0.5),
+      Quaternion.fromEulerDegrees(0, 45, 0)
+    )
+    const d = OrientedBox.create(
+      Vector3.create(0, 5, 0),
+      Vector3.One(),
+      Quaternion.fromEulerDegrees(30, 0, 0)
+    )
+
+    expect(OrientedBox.intersectsOrientedBox(a, b)).toBe(true)
+    expect(OrientedBox.intersectsOrientedBox(b, a)).toBe(true)
+    expect(OrientedBox.intersectsOrientedBox(a, c)).toBe(false)
+    expect(OrientedBox.intersectsOrientedBox(a, d)).toBe(false)
+    expect(OrientedBox.intersectsOrientedBox(a, a)).toBe(true)
+  })
+
+  it('OrientedBox.intersectsBox', () => {
+    const box = OrientedBox.create(
+      Vector3.Zero(),
+      Vector3.One(),
+      Quaternion.fromEulerDegrees(0, 45, 0)
+    )
+    expect(
+      OrientedBox.intersectsBox(
+        box,
+        BoundingBox.create(Vector3.create(1.3, -1, -1), Vector3.create(3, 1, 1))
+      )
+    ).toBe(true)
+    expect(
+      OrientedBox.intersectsBox(
+        box,
+        BoundingBox.create(
+          Vector3.create(1.1, -1, 1.1),
+          Vector3.create(3, 1, 3)
+        )
+      )
+    ).toBe(false)
+  })
+})
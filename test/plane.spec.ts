@@ -0,0 +1,95 @@
+import { Matrix, Plane, Quaternion, Vector3 } from '../src'
+
+describe('ECS Plane - Next tests', () => {
+  it('Plane.create & fromArray', () => {
+    const plane = Plane.create(0, 1, 0, -2)
+    expect(plane.normal).toStrictEqual(Vector3.Up())
+    expect(plane.d).toBe(-2)
+    expect(Plane.fromArray([0, 1, 0, -2])).toStrictEqual(plane)
+    expect(Plane.asArray(plane)).toStrictEqual([0, 1, 0, -2])
+    expect(Plane.clone(plane)).toStrictEqual(plane)
+  })
+
+  it('Plane.fromPoints', () => {
+    const plane = Plane.fromPoints(
+      Vector3.create(0, 2, 0),
+      Vector3.create(0, 2, 1),
+      Vector3.create(1, 2, 0)
+    )
+    expect(Vector3.equalsWithEpsilon(plane.normal, Vector3.Up())).toBe(true)
+    expect(plane.d).toBeCloseTo(-2)
+    expect(Plane.signedDistanceTo(plane, Vector3.create(5, 7, -3))).toBeCloseTo(
+      5
+    )
+  })
+
+  it('Plane.fromPositionAndNormal', () => {
+    const plane = Plane.fromPositionAndNormal(
+      Vector3.create(0, 0, 3),
+      Vector3.create(0, 0, 10)
+    )
+    expect(plane.normal).toStrictEqual(Vector3.Forward())
+    expect(plane.d).toBe(-3)
+    expect(Plane.dotCoordinate(plane, Vector3.create(1, 1, 1))).toBe(-2)
+    expect(
+      Plane.signedDistanceToPlaneFromPositionAndNormal(
+        Vector3.create(0, 0, 3),
+        Vector3.Forward(),
+        Vector3.create(1, 1, 1)
+      )
+    ).toBe(-2)
+  })
+
+  it('Plane.normalize', () => {
+    const plane = Plane.create(0, 2, 0, -4)
+    const normalized = Plane.normalize(plane)
+    expect(normalized).toStrictEqual(Plane.create(0, 1, 0, -2))
+    expect(plane).toStrictEqual(Plane.create(0, 2, 0, -4))
+
+    const result = Plane.create(0, 0, 0, 0)
+    Plane.normalizeToRef(Plane.create(0, 0, 0, 5), result)
+    expect(result).toStrictEqual(Plane.create(0, 0, 0, 0))
+  })
+
+  it('Plane.transform & transformByPointMatrix', () => {
+    const plane = Plane.create(0, 1, 0, -2)
+    const translated = Plane.transformByPointMatrix(
+      plane,
+      Matrix.translation(0, 3, 0)
+    )
+    expect(Vector3.equalsWithEpsilon(translated.normal, Vector3.Up())).toBe(
+      true
+    )
+    expect(translated.d).toBeCloseTo(-5)
+
+    const matrix = Matrix.compose(
+      Vector3.One(),
+      Quaternion.fromEulerDegrees(0, 0, 90),
+      Vector3.create(1, 2, 3)
+    )
+    const point = Vector3.create(4, 2, -1)
+    const transformed = Plane.transformByPointMatrix(plane, matrix)
+    expect(
+      Plane.signedDistanceTo(
+        transformed,
+        Vector3.transformCoordinates(point, matrix)
+      )
+    ).toBeCloseTo(Plane.signedDistanceTo(plane, point))
+
+    // transform expects the inverse transpose of the point matrix
+    const planeMatrix = Matrix.transpose(Matrix.invert(matrix))
+    const expected = Plane.transform(plane, planeMatrix)
+    expect(Vector3.equalsWithEpsilon(expected.normal, transformed.normal)).toBe(
+      true
+    )
+    expect(expected.d).toBeCloseTo(transformed.d)
+  })
+
+  it('Plane.isFrontFacingTo & getHashCode', () => {
+    const plane = Plane.create(0, 1, 0, 0)
+    expect(Plane.isFrontFacingTo(plane, Vector3.Down(), 0)).toBe(true)
+    expect(Plane.isFrontFacingTo(plane, Vector3.Up(), 0)).toBe(false)
+    expect(Plane.getHashCode(Plane.create(0, 0, 0, 0))).toBe(0)
+    expect(Plane.getHashCode(plane)).toBe(Plane.getHashCode(Plane.clone(plane)))
+  })
+})
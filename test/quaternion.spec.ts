@@ -1,4 +1,4 @@
-import { Quaternion, Vector3 } from '../src/'
+import { DEG2RAD, EulerOrder, Quaternion, Vector3 } from '../src/'
 
 const results = {
   staticAngle01: '90.00',
@@ -416,4 +416,441 @@ describe('ECS Quaternion - Next tests', () => {
       )
     ).toEqual(results.staticSlerp04)
   })
+
+  it('Quaternion.conjugate & inverse', () => {
+    const q = Quaternion.fromEulerDegrees(10, 20, 30)
+    expect(Quaternion.conjugate(q)).toStrictEqual(
+      Quaternion.create(-q.x, -q.y, -q.z, q.w)
+    )
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.multiply(q, Quaternion.inverse(q)),
+        Quaternion.Identity()
+      )
+    ).toBe(true)
+
+    const scaled = Quaternion.create(q.x * 2, q.y * 2, q.z * 2, q.w * 2)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.multiply(Quaternion.inverse(scaled), scaled),
+        Quaternion.Identity()
+      )
+    ).toBe(true)
+    expect(Quaternion.inverse(Quaternion.Zero())).toStrictEqual(
+      Quaternion.Zero()
+    )
+  })
+
+  it('Quaternion.toAngleAxis', () => {
+    const axis = Vector3.normalize(Vector3.create(1, 2, 3))
+    const { angle, axis: resultAxis } = Quaternion.toAngleAxis(
+      Quaternion.fromAngleAxis(75, axis)
+    )
+    expect(angle).toBeCloseTo(75)
+    expect(Vector3.equalsWithEpsilon(resultAxis, axis)).toBe(true)
+
+    const identity = Quaternion.toAngleAxis(Quaternion.Identity())
+    expect(identity.angle).toBe(0)
+    expect(identity.axis).toStrictEqual(Vector3.Right())
+
+    const result = Vector3.Zero()
+    expect(
+      Quaternion.toAngleAxisToRef(Quaternion.create(0, 2, 0, 0), result)
+    ).toBeCloseTo(180)
+    expect(result).toStrictEqual(Vector3.Up())
+  })
+
+  it('Quaternion.difference', () => {
+    const from = Quaternion.fromEulerDegrees(10, 20, 30)
+    const to = Quaternion.fromEulerDegrees(-40, 50, 5)
+    const delta = Quaternion.difference(from, to)
+    expect(
+      Quaternion.equalsWithEpsilon(Quaternion.multiply(delta, from), to)
+    ).toBe(true)
+
+    const point = Vector3.create(1, 2, 3)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Vector3.rotate(Vector3.rotate(point, from), delta),
+        Vector3.rotate(point, to)
+      )
+    ).toBe(true)
+  })
+
+  it('Quaternion.equals, isIdentity & getHashCode', () => {
+    const q = Quaternion.create(0.5, -0.5, 0.5, 0.5)
+    const negated = Quaternion.create(-0.5, 0.5, -0.5, -0.5)
+    expect(Quaternion.equals(q, negated)).toBe(true)
+    expect(Quaternion.equals(q, Quaternion.Identity())).toBe(false)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        q,
+        Quaternion.create(-0.5, 0.5, -0.5, -0.5 + 1e-7)
+      )
+    ).toBe(true)
+    expect(Quaternion.getHashCode(q)).toBe(Quaternion.getHashCode(negated))
+    expect(Quaternion.getHashCode(Quaternion.Zero())).toBe(0)
+
+    expect(Quaternion.isIdentity(Quaternion.Identity())).toBe(true)
+    expect(Quaternion.isIdentity(Quaternion.create(0, 0, 0, -1))).toBe(true)
+    expect(Quaternion.isIdentity(q)).toBe(false)
+  })
+
+  it('Quaternion.fromEuler single axis & orders', () => {
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.fromEuler('XYZ', Vector3.create(0, 90, 0)),
+        Quaternion.fromAngleAxis(90, Vector3.Up())
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.fromEuler(
+          'zyx',
+          Vector3.create(0, 0, Math.PI / 2),
+          'radians'
+        ),
+        Quaternion.fromAngleAxis(90, Vector3.Forward())
+      )
+    ).toBe(true)
+
+    const angles = Vector3.create(10, 20, 30)
+    // an intrinsic order is the reversed extrinsic one
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.fromEuler('XYZ', angles),
+        Quaternion.fromEuler('zyx', angles)
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.fromEuler('XYZ', angles),
+        Quaternion.fromEuler('xyz', angles)
+      )
+    ).toBe(false)
+    // fromEulerDegrees rotates around z, then x, then y
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.fromEuler('zxy', angles),
+        Quaternion.fromEulerDegrees(10, 20, 30)
+      )
+    ).toBe(true)
+  })
+
+  it('Quaternion.toEuler round trip', () => {
+    const orders: EulerOrder[] = [
+      'XYZ',
+      'XZY',
+      'YXZ',
+      'YZX',
+      'ZXY',
+      'ZYX',
+      'xyz',
+      'xzy',
+      'yxz',
+      'yzx',
+      'zxy',
+      'zyx'
+    ]
+    const samples = [
+      Vector3.create(10, 20, 30),
+      Vector3.create(-170, 80, 45),
+      Vector3.create(120, -60, -150),
+      Vector3.create(0, 0, 0)
+    ]
+
+    for (const order of orders) {
+      for (const sample of samples) {
+        const q = Quaternion.fromEuler(order, sample)
+        const euler = Quaternion.toEuler(q, order)
+        expect(
+          Quaternion.equalsWithEpsilon(Quaternion.fromEuler(order, euler), q)
+        ).toBe(true)
+
+        // the angles are the same when the middle one is within [-90, 90]
+        const middle = [sample.x, sample.y, sample.z][
+          order.toUpperCase().charCodeAt(1) - 88
+        ]
+        if (Math.abs(middle) < 90) {
+          expect(Vector3.equalsWithEpsilon(euler, sample, 1e-6)).toBe(true)
+        }
+
+        const radians = Quaternion.toEuler(q, order, 'radians')
+        expect(
+          Quaternion.equalsWithEpsilon(
+            Quaternion.fromEuler(order, radians, 'radians'),
+            q
+          )
+        ).toBe(true)
+      }
+    }
+  })
+
+  it('Quaternion.toEuler gimbal lock', () => {
+    const orders: EulerOrder[] = ['XYZ', 'YXZ', 'ZYX', 'xzy', 'zxy']
+    for (const order of orders) {
+      for (const middle of [90, -90]) {
+        const angles = Vector3.create(30, 30, 30)
+        const axis = order.toUpperCase().charCodeAt(1) - 88
+        if (axis === 0) angles.x = middle
+        if (axis === 1) angles.y = middle
+        if (axis === 2) angles.z = middle
+
+        const q = Quaternion.fromEuler(order, angles)
+        const euler = Quaternion.toEuler(q, order)
+        expect(
+          Quaternion.equalsWithEpsilon(Quaternion.fromEuler(order, euler), q)
+        ).toBe(true)
+      }
+    }
+  })
+
+  it('Quaternion.squad & computeSquadControlPoints', () => {
+    const keys = [0, 30, 60, 90].map(($) =>
+      Quaternion.fromAngleAxis($, Vector3.Up())
+    )
+    const controls = Quaternion.computeSquadControlPoints(keys)
+    expect(controls.length).toBe(4)
+    expect(controls[0]).toStrictEqual(keys[0])
+    expect(controls[3]).toStrictEqual(keys[3])
+    // evenly spaced rotations around a single axis need no correction
+    expect(Quaternion.equalsWithEpsilon(controls[1], keys[1])).toBe(true)
+
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.squad(keys[1], keys[2], controls[1], controls[2], 0),
+        keys[1]
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.squad(keys[1], keys[2], controls[1], controls[2], 1),
+        keys[2]
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.angle(
+        Quaternion.squad(keys[1], keys[2], controls[1], controls[2], 0.5),
+        keys[1]
+      )
+    ).toBeCloseTo(15)
+  })
+
+  it('Quaternion.logOfDifference & multiplyByExp', () => {
+    const from = Quaternion.fromEulerDegrees(10, 20, 30)
+    const to = Quaternion.fromEulerDegrees(-40, 80, 5)
+    const tangent = Quaternion.logOfDifference(from, to)
+    expect(tangent.w).toBeCloseTo(0)
+    expect(Quaternion.length(tangent)).toBeCloseTo(
+      (Quaternion.angle(from, to) * DEG2RAD) / 2
+    )
+    expect(
+      Quaternion.equalsWithEpsilon(Quaternion.multiplyByExp(from, tangent), to)
+    ).toBe(true)
+
+    // the shortest path is taken whatever the sign of the target
+    const negated = Quaternion.create(-to.x, -to.y, -to.z, -to.w)
+    const result = Quaternion.create()
+    Quaternion.logOfDifferenceToRef(from, negated, result)
+    expect(Quaternion.equalsWithEpsilon(result, tangent)).toBe(true)
+
+    const rotation = Quaternion.create(from.x, from.y, from.z, from.w)
+    Quaternion.multiplyByExpToRef(rotation, tangent, rotation)
+    expect(Quaternion.equalsWithEpsilon(rotation, to)).toBe(true)
+  })
+
+  it('Quaternion.log & exp & pow', () => {
+    const q = Quaternion.fromAngleAxis(90, Vector3.Up())
+    const log = Quaternion.log(q)
+    expect(log.x).toBeCloseTo(0)
+    expect(log.y).toBeCloseTo(Math.PI / 4)
+    expect(log.z).toBeCloseTo(0)
+    expect(log.w).toBeCloseTo(0)
+    expect(Quaternion.equalsWithEpsilon(Quaternion.exp(log), q)).toBe(true)
+
+    // non unit quaternions keep their length in the real part
+    const scaled = Quaternion.create(0.2, -0.4, 0.6, 1.6)
+    const roundTrip = Quaternion.exp(Quaternion.log(scaled))
+    expect(roundTrip.x).toBeCloseTo(scaled.x)
+    expect(roundTrip.y).toBeCloseTo(scaled.y)
+    expect(roundTrip.z).toBeCloseTo(scaled.z)
+    expect(roundTrip.w).toBeCloseTo(scaled.w)
+
+    expect(Quaternion.log(Quaternion.Identity())).toStrictEqual(
+      Quaternion.Zero()
+    )
+    expect(Quaternion.exp(Quaternion.Zero())).toStrictEqual(
+      Quaternion.Identity()
+    )
+
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.pow(q, 0.5),
+        Quaternion.fromAngleAxis(45, Vector3.Up())
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.pow(q, 2),
+        Quaternion.fromAngleAxis(180, Vector3.Up())
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(Quaternion.pow(q, 0), Quaternion.Identity())
+    ).toBe(true)
+
+    // with a negative w the rotation goes the long way around the axis
+    const longWay = Quaternion.fromAngleAxis(300, Vector3.Up())
+    expect(Quaternion.log(longWay).y).toBeCloseTo((Math.PI * 5) / 6)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.exp(Quaternion.log(longWay)),
+        longWay
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.pow(longWay, 0.5),
+        Quaternion.fromAngleAxis(150, Vector3.Up())
+      )
+    ).toBe(true)
+
+    const almostFullTurn = Quaternion.fromAngleAxis(359.99995, Vector3.Right())
+    expect(Quaternion.log(almostFullTurn).x).toBeCloseTo(Math.PI)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.exp(Quaternion.log(almostFullTurn)),
+        almostFullTurn
+      )
+    ).toBe(true)
+
+    const fullTurn = Quaternion.create(0, 0, 0, -1)
+    expect(Quaternion.log(fullTurn)).toStrictEqual(
+      Quaternion.create(Math.PI, 0, 0, 0)
+    )
+    const halfTurn = Quaternion.pow(fullTurn, 0.5)
+    expect(Quaternion.length(halfTurn)).toBeCloseTo(1)
+    expect(Quaternion.angle(halfTurn, Quaternion.Identity())).toBeCloseTo(180)
+  })
+
+  it('Quaternion.fromAngularVelocity & toAngularVelocity', () => {
+    const omega = Vector3.create(0, Math.PI, 0)
+    const step = Quaternion.fromAngularVelocity(omega, 0.5)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        step,
+        Quaternion.fromAngleAxis(90, Vector3.Up())
+      )
+    ).toBe(true)
+
+    const from = Quaternion.fromEulerDegrees(10, 20, 30)
+    const to = Quaternion.fromEulerDegrees(40, -15, 70)
+    const velocity = Quaternion.toAngularVelocity(from, to, 0.25)
+    const integrated = Quaternion.multiply(
+      Quaternion.fromAngularVelocity(velocity, 0.25),
+      from
+    )
+    expect(Quaternion.equalsWithEpsilon(integrated, to)).toBe(true)
+
+    // the shortest path is taken whatever the sign of the target
+    const negated = Quaternion.create(-to.x, -to.y, -to.z, -to.w)
+    const same = Quaternion.toAngularVelocity(from, negated, 0.25)
+    expect(same.x).toBeCloseTo(velocity.x)
+    expect(same.y).toBeCloseTo(velocity.y)
+    expect(same.z).toBeCloseTo(velocity.z)
+
+    expect(Quaternion.toAngularVelocity(from, to, 0)).toStrictEqual(
+      Vector3.Zero()
+    )
+  })
+
+  it('Quaternion.swingTwistDecomposition', () => {
+    const twistOnly = Quaternion.fromAngleAxis(40, Vector3.Up())
+    const swingOnly = Quaternion.fromAngleAxis(30, Vector3.Right())
+    const q = Quaternion.multiply(swingOnly, twistOnly)
+
+    const { swing, twist } = Quaternion.swingTwistDecomposition(
+      q,
+      Vector3.scale(Vector3.Up(), 3)
+    )
+    expect(Quaternion.equalsWithEpsilon(twist, twistOnly)).toBe(true)
+    expect(Quaternion.equalsWithEpsilon(swing, swingOnly)).toBe(true)
+
+    // a generic rotation is rebuilt and its swing has no component around the axis
+    const generic = Quaternion.fromEulerDegrees(25, -60, 110)
+    const parts = Quaternion.swingTwistDecomposition(generic, Vector3.Forward())
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.multiply(parts.swing, parts.twist),
+        generic
+      )
+    ).toBe(true)
+    expect(parts.swing.z).toBeCloseTo(0)
+    expect(parts.twist.x).toBeCloseTo(0)
+    expect(parts.twist.y).toBeCloseTo(0)
+
+    const noAxis = Quaternion.swingTwistDecomposition(generic, Vector3.Zero())
+    expect(noAxis.twist).toStrictEqual(Quaternion.Identity())
+    expect(Quaternion.equalsWithEpsilon(noAxis.swing, generic)).toBe(true)
+  })
+
+  it('Quaternion.clampTwist & clampSwingCone', () => {
+    const swing = Quaternion.fromAngleAxis(20, Vector3.Right())
+    const withTwist = (degrees: number) =>
+      Quaternion.multiply(
+        swing,
+        Quaternion.fromAngleAxis(degrees, Vector3.Up())
+      )
+
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.clampTwist(withTwist(80), Vector3.Up(), -45, 45),
+        withTwist(45)
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.clampTwist(withTwist(-170), Vector3.Up(), -45, 45),
+        withTwist(-45)
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.clampTwist(withTwist(200), Vector3.Up(), -180, -170),
+        withTwist(-170)
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.clampTwist(withTwist(10), Vector3.Up(), -45, 45),
+        withTwist(10)
+      )
+    ).toBe(true)
+
+    const twist = Quaternion.fromAngleAxis(60, Vector3.Up())
+    const wide = Quaternion.multiply(
+      Quaternion.fromAngleAxis(70, Vector3.create(1, 0, 1)),
+      twist
+    )
+    const clamped = Quaternion.clampSwingCone(wide, Vector3.Up(), 30)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        clamped,
+        Quaternion.multiply(
+          Quaternion.fromAngleAxis(30, Vector3.create(1, 0, 1)),
+          twist
+        )
+      )
+    ).toBe(true)
+    const direction = Vector3.rotate(Vector3.Up(), clamped)
+    expect(Vector3.dot(Vector3.Up(), direction)).toBeCloseTo(
+      Math.cos(Math.PI / 6)
+    )
+    expect(
+      Quaternion.equalsWithEpsilon(
+        Quaternion.clampSwingCone(wide, Vector3.Up(), 90),
+        wide
+      )
+    ).toBe(true)
+  })
 })
@@ -0,0 +1,172 @@
+import { Matrix, Plane, Quaternion, Ray, Vector3 } from '../src'
+
+describe('ECS Ray - Next tests', () => {
+  it('Ray.create & fromPoints', () => {
+    const ray = Ray.create(Vector3.Zero(), Vector3.Forward())
+    expect(ray.length).toBe(Number.MAX_VALUE)
+
+    const fromPoints = Ray.fromPoints(
+      Vector3.create(1, 2, 3),
+      Vector3.create(1, 2, 13)
+    )
+    expect(fromPoints.origin).toStrictEqual(Vector3.create(1, 2, 3))
+    expect(fromPoints.direction).toStrictEqual(Vector3.Forward())
+    expect(fromPoints.length).toBe(10)
+    expect(Ray.clone(fromPoints)).toStrictEqual(fromPoints)
+  })
+
+  it('Ray.transform', () => {
+    const ray = Ray.fromPoints(Vector3.Zero(), Vector3.create(0, 0, 2))
+    const matrix = Matrix.compose(
+      Vector3.create(3, 3, 3),
+      Quaternion.fromEulerDegrees(0, 90, 0),
+      Vector3.create(1, 2, 3)
+    )
+    const transformed = Ray.transform(ray, matrix)
+    expect(
+      Vector3.equalsWithEpsilon(transformed.origin, Vector3.create(1, 2, 3))
+    ).toBe(true)
+    expect(
+      Vector3.equalsWithEpsilon(transformed.direction, Vector3.Right())
+    ).toBe(true)
+    expect(transformed.length).toBeCloseTo(6)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Ray.getPoint(transformed, transformed.length),
+        Vector3.transformCoordinates(Vector3.create(0, 0, 2), matrix)
+      )
+    ).toBe(true)
+  })
+
+  it('Ray.closestPointTo', () => {
+    const ray = Ray.fromPoints(Vector3.Zero(), Vector3.create(10, 0, 0))
+    expect(Ray.closestPointTo(ray, Vector3.create(4, 5, -2))).toStrictEqual(
+      Vector3.create(4, 0, 0)
+    )
+    expect(Ray.closestPointTo(ray, Vector3.create(-4, 5, -2))).toStrictEqual(
+      Vector3.Zero()
+    )
+    expect(Ray.closestPointTo(ray, Vector3.create(14, 5, -2))).toStrictEqual(
+      Vector3.create(10, 0, 0)
+    )
+  })
+
+  it('Ray.intersectsPlane', () => {
+    const ground = Plane.create(0, 1, 0, 0)
+    const ray = Ray.create(Vector3.create(0, 5, 0), Vector3.Down())
+    expect(Ray.intersectsPlane(ray, ground)).toBe(5)
+    expect(
+      Ray.intersectsPlane(
+        Ray.create(Vector3.create(0, 5, 0), Vector3.Up()),
+        ground
+      )
+    ).toBeNull()
+    expect(
+      Ray.intersectsPlane(
+        Ray.create(Vector3.create(0, 5, 0), Vector3.Right()),
+        ground
+      )
+    ).toBeNull()
+    expect(
+      Ray.intersectsPlane(
+        Ray.create(Vector3.create(0, 5, 0), Vector3.Down(), 2),
+        ground
+      )
+    ).toBeNull()
+  })
+
+  it('Ray.intersectsBox', () => {
+    const min = Vector3.create(-1, -1, -1)
+    const max = Vector3.create(1, 1, 1)
+    const ray = Ray.create(Vector3.create(0, 0, -5), Vector3.Forward())
+    expect(Ray.intersectsBox(ray, min, max)).toBeCloseTo(4)
+    expect(
+      Ray.intersectsBox(Ray.create(Vector3.Zero(), Vector3.Forward()), min, max)
+    ).toBe(0)
+    expect(
+      Ray.intersectsBox(
+        Ray.create(Vector3.create(2, 0, -5), Vector3.Forward()),
+        min,
+        max
+      )
+    ).toBeNull()
+    expect(
+      Ray.intersectsBox(
+        Ray.create(Vector3.create(0, 0, -5), Vector3.Backward()),
+        min,
+        max
+      )
+    ).toBeNull()
+    expect(
+      Ray.intersectsBox(
+        Ray.create(Vector3.create(0, 0, -5), Vector3.Forward(), 3),
+        min,
+        max
+      )
+    ).toBeNull()
+  })
+
+  it('Ray.intersectsSphere', () => {
+    const center = Vector3.create(0, 0, 10)
+    const ray = Ray.create(Vector3.Zero(), Vector3.Forward())
+    expect(Ray.intersectsSphere(ray, center, 2)).toBeCloseTo(8)
+    expect(Ray.intersectsSphere(ray, Vector3.Zero(), 2)).toBe(0)
+    expect(Ray.intersectsSphere(ray, Vector3.create(5, 0, 10), 2)).toBeNull()
+    expect(
+      Ray.intersectsSphere(
+        Ray.create(Vector3.Zero(), Vector3.Backward()),
+        center,
+        2
+      )
+    ).toBeNull()
+  })
+
+  it('Ray.intersectsTriangle', () => {
+    const v0 = Vector3.create(0, 0, 5)
+    const v1 = Vector3.create(4, 0, 5)
+    const v2 = Vector3.create(0, 4, 5)
+    const ray = Ray.create(Vector3.create(1, 2, 0), Vector3.Forward())
+    const hit = Ray.intersectsTriangle(ray, v0, v1, v2)
+    expect(hit).not.toBeNull()
+    expect(hit!.distance).toBeCloseTo(5)
+    expect(hit!.bu).toBeCloseTo(0.25)
+    expect(hit!.bv).toBeCloseTo(0.5)
+
+    expect(
+      Ray.intersectsTriangle(
+        Ray.create(Vector3.create(3, 3, 0), Vector3.Forward()),
+        v0,
+        v1,
+        v2
+      )
+    ).toBeNull()
+    expect(
+      Ray.intersectsTriangle(
+        Ray.create(Vector3.create(1, 2, 0), Vector3.Backward()),
+        v0,
+        v1,
+        v2
+      )
+    ).toBeNull()
+
+    // the determinant of this small triangle is below Epsilon
+    const small = Ray.intersectsTriangle(
+      Ray.create(Vector3.create(0.00004, 0.00008, 0), Vector3.Forward()),
+      Vector3.create(0, 0, 0.005),
+      Vector3.create(0.0004, 0, 0.005),
+      Vector3.create(0, 0.0004, 0.005)
+    )
+    expect(small).not.toBeNull()
+    expect(small!.distance).toBeCloseTo(0.005)
+    expect(small!.bu).toBeCloseTo(0.1)
+    expect(small!.bv).toBeCloseTo(0.2)
+    expect(
+      Ray.intersectsTriangle(
+        Ray.create(Vector3.Zero(), Vector3.Right()),
+        v0,
+        v1,
+        v2
+      )
+    ).toBeNull()
+  })
+})
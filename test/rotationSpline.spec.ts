@@ -0,0 +1,133 @@
+import { Quaternion, RotationSpline, Vector3 } from '../src'
+
+function angularVelocity(
+  spline: RotationSpline,
+  from: number,
+  to: number
+): Vector3 {
+  const { angle, axis } = Quaternion.toAngleAxis(
+    Quaternion.difference(
+      RotationSpline.evaluate(spline, from),
+      RotationSpline.evaluate(spline, to)
+    )
+  )
+  const signedAngle = angle > 180 ? angle - 360 : angle
+  return Vector3.scale(axis, signedAngle / (to - from))
+}
+
+describe('ECS RotationSpline - Next tests', () => {
+  const keys: RotationSpline.Key[] = [
+    { time: 3, rotation: Quaternion.fromEulerDegrees(45, 90, 0) },
+    { time: 0, rotation: Quaternion.Identity() },
+    { time: 0.5, rotation: Quaternion.fromEulerDegrees(0, 30, 10) },
+    { time: 2, rotation: Quaternion.fromEulerDegrees(0, 90, 0) }
+  ]
+
+  it('RotationSpline goes through the keys', () => {
+    const spline = RotationSpline.create(keys)
+    expect(spline.times).toStrictEqual([0, 0.5, 2, 3])
+    for (const key of keys) {
+      expect(
+        Quaternion.equalsWithEpsilon(
+          RotationSpline.evaluate(spline, key.time),
+          key.rotation
+        )
+      ).toBe(true)
+    }
+    expect(
+      Quaternion.equalsWithEpsilon(
+        RotationSpline.evaluate(spline, -1),
+        Quaternion.Identity()
+      )
+    ).toBe(true)
+    expect(
+      Quaternion.equalsWithEpsilon(
+        RotationSpline.evaluate(spline, 10),
+        keys[0].rotation
+      )
+    ).toBe(true)
+  })
+
+  it('RotationSpline is C1-continuous at the keys', () => {
+    const spline = RotationSpline.create(keys)
+    const h = 1e-4
+    for (const time of [0.5, 2]) {
+      const before = angularVelocity(spline, time - h, time)
+      const after = angularVelocity(spline, time, time + h)
+      expect(Vector3.distance(before, after)).toBeLessThan(
+        Vector3.length(after) * 1e-2
+      )
+    }
+  })
+
+  it('RotationSpline is C1-continuous with very uneven key times', () => {
+    // deterministic pseudo random rotations between 10 and 50 degrees
+    let seed = 7
+    const random = () => {
+      seed = (seed * 16807) % 2147483647
+      return seed / 2147483647
+    }
+    const randomRotation = () =>
+      Quaternion.fromAngleAxis(
+        10 + 40 * random(),
+        Vector3.normalize(
+          Vector3.create(random() - 0.5, random() - 0.5, random() - 0.5)
+        )
+      )
+
+    const h = 1e-4
+    for (const [durationIn, durationOut] of [
+      [1, 10],
+      [10, 1]
+    ]) {
+      for (let trial = 0; trial < 100; trial++) {
+        const time = durationIn
+        const spline = RotationSpline.create([
+          { time: 0, rotation: randomRotation() },
+          { time, rotation: randomRotation() },
+          { time: durationIn + durationOut, rotation: randomRotation() }
+        ])
+        const before = angularVelocity(spline, time - h, time)
+        const after = angularVelocity(spline, time, time + h)
+        expect(Vector3.distance(before, after)).toBeLessThan(
+          Vector3.length(after) * 1e-2
+        )
+      }
+    }
+  })
+
+  it('RotationSpline takes the shortest path', () => {
+    const rotation = Quaternion.fromEulerDegrees(0, 90, 0)
+    const spline = RotationSpline.create([
+      { time: 0, rotation: Quaternion.Identity() },
+      {
+        time: 1,
+        rotation: Quaternion.create(
+          -rotation.x,
+          -rotation.y,
+          -rotation.z,
+          -rotation.w
+        )
+      }
+    ])
+    expect(
+      Quaternion.angle(
+        RotationSpline.evaluate(spline, 0.5),
+        Quaternion.Identity()
+      )
+    ).toBeCloseTo(45)
+  })
+
+  it('RotationSpline with a single key or no key', () => {
+    expect(RotationSpline.evaluate(RotationSpline.create([]), 1)).toStrictEqual(
+      Quaternion.Identity()
+    )
+    const single = RotationSpline.create([keys[0]])
+    expect(
+      Quaternion.equalsWithEpsilon(
+        RotationSpline.evaluate(single, 0),
+        keys[0].rotation
+      )
+    ).toBe(true)
+  })
+})
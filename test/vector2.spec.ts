@@ -22,4 +22,140 @@ describe('ECS Vector2 - Next tests', () => {
   it('Vector3.create zeros', () => {
     expect(vector2ToString(Vector2.Zero())).toEqual(results.zeros)
   })
+
+  it('Vector2 add & subtract', () => {
+    const vector1 = Vector2.create(10, -10)
+    const vector2 = Vector2.create(2, 2)
+    const result = Vector2.create()
+
+    expect(Vector2.add(vector1, vector2)).toStrictEqual(Vector2.create(12, -8))
+    Vector2.addToRef(vector1, vector2, result)
+    expect(result).toStrictEqual(Vector2.create(12, -8))
+
+    expect(Vector2.subtract(vector1, vector2)).toStrictEqual(
+      Vector2.create(8, -12)
+    )
+    Vector2.subtractToRef(vector1, vector2, result)
+    expect(result).toStrictEqual(Vector2.create(8, -12))
+
+    expect(vector2ToString(Vector2.negate(Vector2.One()))).toEqual(
+      '(-1.0, -1.0)'
+    )
+  })
+
+  it('Vector2 scale, multiply & divide', () => {
+    const vector1 = Vector2.create(3, 7)
+    const vector2 = Vector2.create(3, 7)
+    const result = Vector2.create()
+
+    expect(Vector2.scale(vector1, 2)).toStrictEqual(Vector2.create(6, 14))
+    Vector2.scaleToRef(vector1, 0.5, result)
+    expect(result).toStrictEqual(Vector2.create(1.5, 3.5))
+
+    expect(Vector2.multiply(vector1, vector2)).toStrictEqual(
+      Vector2.create(9, 49)
+    )
+    Vector2.multiplyToRef(vector1, vector2, result)
+    expect(result).toStrictEqual(Vector2.create(9, 49))
+
+    expect(Vector2.divide(vector1, vector2)).toStrictEqual(Vector2.One())
+    Vector2.divideToRef(vector1, vector2, result)
+    expect(result).toStrictEqual(Vector2.One())
+  })
+
+  it('Vector2 length, dot & normalize', () => {
+    const vector = Vector2.create(3, 4)
+    expect(Vector2.length(vector)).toBe(5)
+    expect(Vector2.lengthSquared(vector)).toBe(25)
+    expect(Vector2.dot(vector, Vector2.create(2, -1))).toBe(2)
+
+    const normalized = Vector2.normalize(vector)
+    expect(normalized.x).toBeCloseTo(0.6)
+    expect(normalized.y).toBeCloseTo(0.8)
+
+    const result = Vector2.create(3, 4)
+    Vector2.normalizeToRef(result, result)
+    expect(Vector2.equalsWithEpsilon(result, normalized)).toBe(true)
+
+    expect(Vector2.normalize(Vector2.Zero())).toStrictEqual(Vector2.Zero())
+  })
+
+  it('Vector2 distance & center', () => {
+    expect(Vector2.distance(Vector2.create(3, 4), Vector2.Zero())).toBe(5)
+    expect(Vector2.distanceSquared(Vector2.create(1, 3), Vector2.Zero())).toBe(
+      10
+    )
+    expect(Vector2.center(Vector2.create(1, 3), Vector2.Zero())).toStrictEqual(
+      Vector2.create(0.5, 1.5)
+    )
+  })
+
+  it('Vector2 lerp', () => {
+    const result = Vector2.lerp(
+      Vector2.create(1, 2),
+      Vector2.create(10, -10),
+      0.6
+    )
+    expect(result.x).toBeCloseTo(1 + (10 - 1) * 0.6)
+    expect(result.y).toBeCloseTo(2 + (-10 - 2) * 0.6)
+  })
+
+  it('Vector2 clamp, minimize & maximize', () => {
+    expect(
+      Vector2.clamp(
+        Vector2.create(-5, 25),
+        Vector2.create(0, 0),
+        Vector2.create(20, 20)
+      )
+    ).toStrictEqual(Vector2.create(0, 20))
+
+    const one = Vector2.create(12, -50)
+    const other = Vector2.create(8, 32)
+    expect(Vector2.minimize(one, other)).toStrictEqual(Vector2.create(8, -50))
+    expect(Vector2.maximize(one, other)).toStrictEqual(Vector2.create(12, 32))
+  })
+
+  it('Vector2 fromArray & toArray', () => {
+    const array = [1, 2, 3, 4]
+    expect(Vector2.fromArray(array)).toStrictEqual(Vector2.create(1, 2))
+    expect(Vector2.fromArray(array, 2)).toStrictEqual(Vector2.create(3, 4))
+
+    const result = Vector2.create()
+    Vector2.fromArrayToRef(array, 1, result)
+    expect(result).toStrictEqual(Vector2.create(2, 3))
+
+    Vector2.toArray(Vector2.create(9, 8), array, 1)
+    expect(array).toStrictEqual([1, 9, 8, 4])
+    expect(Vector2.asArray(Vector2.create(5, 6))).toStrictEqual([5, 6])
+  })
+
+  it('Vector2 equals, hash code & toString', () => {
+    expect(Vector2.equals(Vector2.One(), Vector2.create(1, 1))).toBe(true)
+    expect(Vector2.equals(Vector2.One(), Vector2.Zero())).toBe(false)
+    expect(Vector2.equalsToFloats(Vector2.One(), 1, 1)).toBe(true)
+    expect(
+      Vector2.equalsWithEpsilon(Vector2.One(), Vector2.create(1, 1 + 1e-7))
+    ).toBe(true)
+    expect(
+      Vector2.equalsWithEpsilon(Vector2.One(), Vector2.create(1, 1.1))
+    ).toBe(false)
+
+    expect(Vector2.getHashCode(Vector2.create(14, 23))).toBe(5537)
+    expect(Vector2.getHashCode(Vector2.Zero())).toBe(0)
+    expect(Vector2.toString(Vector2.create(14, 23))).toBe('(14, 23)')
+  })
+
+  it('Vector2 clone & copy', () => {
+    const immutableVector = Vector2.One() as Vector2.ReadonlyVector2
+    const mutableVector = Vector2.clone(immutableVector)
+    mutableVector.x = 2.0
+
+    expect(immutableVector).toStrictEqual(Vector2.One())
+    expect(mutableVector.x).toEqual(2.0)
+
+    Vector2.copyFrom(immutableVector, mutableVector)
+    expect(mutableVector).toStrictEqual(Vector2.One())
+    Vector2.copyFromFloats(3, 4, mutableVector)
+    expect(mutableVector).toStrictEqual(Vector2.create(3, 4))
+  })
 })
@@ -2,6 +2,7 @@ import { FloatArray } from '../src'
 import { Matrix } from '../src/Matrix'
 import { Quaternion } from '../src/Quaternion'
 import { Vector3 } from '../src/Vector3'
+import { Viewport } from '../src/Viewport'
 
 const results = {
   zeros: '(0.0, 0.0, 0.0)',
@@ -385,4 +386,64 @@ describe('ECS Vector3 - Next tests', () => {
     expect(angles.y).toBeCloseTo(26.772)
     expect(angles.z).toBeCloseTo(42.67)
   })
+
+  it('Vector3.project & unproject', () => {
+    const view = Matrix.LookAtLH(
+      Vector3.create(0, 0, -10),
+      Vector3.Zero(),
+      Vector3.Up()
+    )
+    const projection = Matrix.perspectiveFovLH(Math.PI / 2, 2, 1, 100)
+    const viewProjection = Matrix.multiply(view, projection)
+    const viewport = Viewport.create(100, 50, 800, 400)
+
+    // the target of the camera is at the center of the viewport
+    const center = Vector3.project(
+      Vector3.Zero(),
+      Matrix.Identity(),
+      viewProjection,
+      viewport
+    )
+    expect(center.x).toBeCloseTo(500)
+    expect(center.y).toBeCloseTo(250)
+    expect(center.z).toBeGreaterThan(0)
+    expect(center.z).toBeLessThan(1)
+
+    // the screen y axis points down
+    const above = Vector3.project(
+      Vector3.create(0, 5, 0),
+      Matrix.Identity(),
+      viewProjection,
+      viewport
+    )
+    expect(above.y).toBeCloseTo(150)
+
+    const world = Matrix.translation(3, -2, 5)
+    const local = Vector3.create(1, 1, 1)
+    const screen = Vector3.project(local, world, viewProjection, viewport)
+    const back = Vector3.unproject(screen, viewport, world, view, projection)
+    expect(back.x).toBeCloseTo(local.x)
+    expect(back.y).toBeCloseTo(local.y)
+    expect(back.z).toBeCloseTo(local.z)
+
+    // the near and far depths give the picking ray going through a screen point
+    const near = Vector3.unproject(
+      Vector3.create(500, 250, 0),
+      viewport,
+      Matrix.Identity(),
+      view,
+      projection
+    )
+    const far = Vector3.unproject(
+      Vector3.create(500, 250, 1),
+      viewport,
+      Matrix.Identity(),
+      view,
+      projection
+    )
+    expect(near.z).toBeCloseTo(-9)
+    expect(far.z).toBeCloseTo(90)
+    expect(near.x).toBeCloseTo(0)
+    expect(far.y).toBeCloseTo(0)
+  })
 })
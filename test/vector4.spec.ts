@@ -0,0 +1,133 @@
+import { Matrix } from '../src/Matrix'
+import { Quaternion } from '../src/Quaternion'
+import { Vector3 } from '../src/Vector3'
+import { Vector4 } from '../src/Vector4'
+
+describe('ECS Vector4 - Next tests', () => {
+  it('Vector4.create One & Zero', () => {
+    expect(Vector4.One()).toStrictEqual(Vector4.create(1, 1, 1, 1))
+    expect(Vector4.Zero()).toStrictEqual(Vector4.create())
+    expect(Vector4.fromVector3(Vector3.create(1, 2, 3))).toStrictEqual(
+      Vector4.create(1, 2, 3, 1)
+    )
+  })
+
+  it('Vector4 arithmetic', () => {
+    const vector1 = Vector4.create(10, 10, -10, 4)
+    const vector2 = Vector4.create(2, 2, 2, 2)
+    const result = Vector4.create()
+
+    expect(Vector4.add(vector1, vector2)).toStrictEqual(
+      Vector4.create(12, 12, -8, 6)
+    )
+    Vector4.addToRef(vector1, vector2, result)
+    expect(result).toStrictEqual(Vector4.create(12, 12, -8, 6))
+
+    expect(Vector4.subtract(vector1, vector2)).toStrictEqual(
+      Vector4.create(8, 8, -12, 2)
+    )
+    Vector4.subtractToRef(vector1, vector2, result)
+    expect(result).toStrictEqual(Vector4.create(8, 8, -12, 2))
+
+    expect(Vector4.multiply(vector1, vector2)).toStrictEqual(
+      Vector4.create(20, 20, -20, 8)
+    )
+    expect(Vector4.divide(vector1, vector2)).toStrictEqual(
+      Vector4.create(5, 5, -5, 2)
+    )
+    expect(Vector4.scale(vector2, 0.5)).toStrictEqual(Vector4.One())
+    expect(Vector4.negate(Vector4.One())).toStrictEqual(
+      Vector4.create(-1, -1, -1, -1)
+    )
+  })
+
+  it('Vector4 length, dot & normalize', () => {
+    const vector = Vector4.create(1, 2, 2, 4)
+    expect(Vector4.length(vector)).toBe(5)
+    expect(Vector4.lengthSquared(vector)).toBe(25)
+    expect(Vector4.dot(vector, Vector4.One())).toBe(9)
+
+    const normalized = Vector4.normalize(vector)
+    expect(Vector4.length(normalized)).toBeCloseTo(1)
+    expect(normalized.w).toBeCloseTo(0.8)
+    expect(Vector4.normalize(Vector4.Zero())).toStrictEqual(Vector4.Zero())
+  })
+
+  it('Vector4 lerp', () => {
+    const result = Vector4.lerp(
+      Vector4.Zero(),
+      Vector4.create(10, -10, 4, 2),
+      0.5
+    )
+    expect(result).toStrictEqual(Vector4.create(5, -5, 2, 1))
+  })
+
+  it('Vector4 transform matches Vector3.transformCoordinates', () => {
+    const matrix = Matrix.compose(
+      Vector3.create(2, 1, 3),
+      Quaternion.fromEulerDegrees(10, 20, 30),
+      Vector3.create(5, -4, 1)
+    )
+    const point = Vector3.create(1, 2, 3)
+    const transformed = Vector4.transform(Vector4.fromVector3(point), matrix)
+    expect(transformed.w).toBeCloseTo(1)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Vector4.toVector3(transformed),
+        Vector3.transformCoordinates(point, matrix)
+      )
+    ).toBe(true)
+
+    const direction = Vector4.transform(Vector4.fromVector3(point, 0), matrix)
+    expect(direction.w).toBe(0)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Vector4.toVector3(direction),
+        Vector3.transformNormal(point, matrix)
+      )
+    ).toBe(true)
+  })
+
+  it('Vector4 perspective divide', () => {
+    const projection = Matrix.perspectiveFovLH(Math.PI / 2, 1, 1, 100)
+    const point = Vector3.create(2, 1, 10)
+    const clip = Vector4.transform(Vector4.fromVector3(point), projection)
+    expect(clip.w).toBeCloseTo(10)
+    expect(
+      Vector3.equalsWithEpsilon(
+        Vector4.toVector3(clip),
+        Vector3.transformCoordinates(point, projection)
+      )
+    ).toBe(true)
+  })
+
+  it('Vector4 fromArray & toArray', () => {
+    const array = [1, 2, 3, 4, 5]
+    expect(Vector4.fromArray(array, 1)).toStrictEqual(
+      Vector4.create(2, 3, 4, 5)
+    )
+    const result = Vector4.create()
+    Vector4.fromArrayToRef(array, 0, result)
+    expect(result).toStrictEqual(Vector4.create(1, 2, 3, 4))
+    expect(Vector4.asArray(result)).toStrictEqual([1, 2, 3, 4])
+    Vector4.toArray(Vector4.Zero(), array, 1)
+    expect(array).toStrictEqual([1, 0, 0, 0, 0])
+  })
+
+  it('Vector4 equals, hash code & toString', () => {
+    expect(Vector4.equals(Vector4.One(), Vector4.create(1, 1, 1, 1))).toBe(true)
+    expect(Vector4.equals(Vector4.One(), Vector4.Zero())).toBe(false)
+    expect(
+      Vector4.equalsWithEpsilon(
+        Vector4.One(),
+        Vector4.create(1, 1, 1, 1 + 1e-7)
+      )
+    ).toBe(true)
+    expect(Vector4.getHashCode(Vector4.Zero())).toBe(0)
+    expect(Vector4.toString(Vector4.create(1, 2, 3, 4))).toBe('(1, 2, 3, 4)')
+
+    const clone = Vector4.clone(Vector4.One())
+    Vector4.copyFromFloats(1, 2, 3, 4, clone)
+    expect(clone).toStrictEqual(Vector4.create(1, 2, 3, 4))
+  })
+})